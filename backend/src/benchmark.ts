@@ -0,0 +1,116 @@
+// Benchmark mode: after the normal run, the compiled program is run again with the same input,
+// first a few times to warm up caches and JITs and then a number of measured times, and each
+// metric is summarized over the measured runs.
+
+export interface BenchmarkOptions {
+  runs: number;
+  warmupRuns: number;
+}
+
+export interface Statistics {
+  min: number;
+  median: number;
+  mean: number;
+  p95: number;
+  // Sample standard deviation, 0 for a single run
+  stddev: number;
+}
+
+// What one measured run took
+export interface BenchmarkSample {
+  wallTimeMs: number;
+  // Unknown without the usage runner
+  cpuTimeMs?: number;
+  memoryMb: number;
+}
+
+export interface BenchmarkResult {
+  // Measured runs that completed, fewer than requested if the benchmark stopped early
+  runs: number;
+  warmupRuns: number;
+  wallTimeMs: Statistics;
+  cpuTimeMs?: Statistics;
+  memoryMb: Statistics;
+  samples: BenchmarkSample[];
+  // Why the benchmark stopped before all runs were measured
+  stoppedEarly?: string;
+}
+
+export const DEFAULT_BENCHMARK_RUNS = 10;
+export const DEFAULT_WARMUP_RUNS = 1;
+const MAX_BENCHMARK_RUNS = 50;
+const MAX_WARMUP_RUNS = 10;
+// Wall-clock budget for the warm-up and measured runs together; a slow program gets fewer runs
+// rather than holding the execution for minutes
+export const BENCHMARK_BUDGET_MS = 60_000;
+
+// The request's benchmark options are malformed
+export class InvalidBenchmarkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidBenchmarkError';
+  }
+}
+
+const isCount = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+// Validate `benchmark` from a request body; `undefined`, `null` and `false` mean a single run,
+// `true` the defaults, and an object sets the counts
+export function parseBenchmarkOptions(benchmark: unknown): BenchmarkOptions | null {
+  if (benchmark === undefined || benchmark === null || benchmark === false) return null;
+  if (benchmark !== true && (typeof benchmark !== 'object' || Array.isArray(benchmark))) {
+    throw new InvalidBenchmarkError('benchmark must be true or an object with runs and warmupRuns');
+  }
+
+  const { runs = DEFAULT_BENCHMARK_RUNS, warmupRuns = DEFAULT_WARMUP_RUNS } =
+    (benchmark === true ? {} : benchmark) as Record<string, unknown>;
+  if (!isCount(runs, 1, MAX_BENCHMARK_RUNS)) {
+    throw new InvalidBenchmarkError(`benchmark.runs must be a whole number between 1 and ${MAX_BENCHMARK_RUNS}`);
+  }
+  if (!isCount(warmupRuns, 0, MAX_WARMUP_RUNS)) {
+    throw new InvalidBenchmarkError(`benchmark.warmupRuns must be a whole number between 0 and ${MAX_WARMUP_RUNS}`);
+  }
+  return { runs, warmupRuns };
+}
+
+// Linear interpolation between the closest ranks of sorted values
+function percentile(sorted: number[], fraction: number): number {
+  const position = (sorted.length - 1) * fraction;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export function summarize(values: number[]): Statistics {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = sorted.reduce((sum, value) => sum + value, 0) / sorted.length;
+  const variance = sorted.length > 1
+    ? sorted.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (sorted.length - 1)
+    : 0;
+
+  return {
+    min: round(sorted[0]),
+    median: round(percentile(sorted, 0.5)),
+    mean: round(mean),
+    p95: round(percentile(sorted, 0.95)),
+    stddev: round(Math.sqrt(variance))
+  };
+}
+
+// Summarize the measured runs; needs at least one
+export function summarizeBenchmark(samples: BenchmarkSample[], warmupRuns: number, stoppedEarly?: string): BenchmarkResult {
+  const cpuTimes = samples.map(sample => sample.cpuTimeMs);
+
+  return {
+    runs: samples.length,
+    warmupRuns,
+    wallTimeMs: summarize(samples.map(sample => sample.wallTimeMs)),
+    cpuTimeMs: cpuTimes.every((time): time is number => time !== undefined) ? summarize(cpuTimes) : undefined,
+    memoryMb: summarize(samples.map(sample => sample.memoryMb)),
+    samples,
+    stoppedEarly
+  };
+}
@@ -0,0 +1,194 @@
+import { LimitVerdict } from './sandbox';
+
+// How a test case's output is compared with the expected output. The built-in comparisons
+// cover the usual judge modes; anything else is left to a checker program supplied with the suite.
+// Interactive problems have no fixed output: an interactor converses with the program and grades it.
+
+export type ComparisonMode = 'lines' | 'whitespace' | 'tokens' | 'float' | 'unordered' | 'checker' | 'interactor';
+
+// Source of a checker or interactor program, run once per test case; input generators for
+// empirical complexity use the same shape
+export interface CheckerProgram {
+  language: string;
+  code: string;
+  // Requested runtime settings, checked like those of the submission
+  settings?: unknown;
+}
+
+export type Comparison =
+  | { mode: 'lines' | 'whitespace' | 'tokens' | 'unordered' }
+  // A number matches if it is within either tolerance of the expected one
+  | { mode: 'float'; absoluteTolerance: number; relativeTolerance: number }
+  | { mode: 'checker'; checker: CheckerProgram }
+  | { mode: 'interactor'; interactor: CheckerProgram };
+
+export type BuiltinComparison = Exclude<Comparison, { mode: 'checker' | 'interactor' }>;
+
+// Role of a program supplied with the suite, as named in error messages
+export type JudgeProgramRole = 'checker' | 'interactor';
+
+export interface CheckResult {
+  accepted: boolean;
+  // Where the outputs differ, or the checker's own comment
+  message?: string;
+}
+
+// The checker or interactor could not grade a case: it crashed, hit a limit or gave no verdict
+export class CheckerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CheckerError';
+  }
+}
+
+export const DEFAULT_TOLERANCE = 1e-6;
+// Checker comments are shown next to the verdict, not as a second output
+const MAX_CHECKER_MESSAGE = 500;
+
+// Lines without trailing whitespace or trailing blank lines, the shape every line-based mode starts from
+function normalizeLines(text: string): string[] {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n').map(line => line.trimEnd());
+  while (lines.length && lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+const tokenize = (text: string) => text.split(/\s+/).filter(Boolean);
+
+// Quote a line or token for a message, shortened so one huge line does not flood the panel
+const quote = (text: string) => JSON.stringify(text.length > 80 ? `${text.slice(0, 80)}…` : text);
+
+function compareLines(expected: string[], actual: string[]): CheckResult {
+  for (let i = 0; i < Math.max(expected.length, actual.length); i++) {
+    if (i >= actual.length) return { accepted: false, message: `Output ended after ${actual.length} lines, expected ${expected.length}` };
+    if (i >= expected.length) return { accepted: false, message: `Expected ${expected.length} lines, got more` };
+    if (expected[i] !== actual[i]) return { accepted: false, message: `Line ${i + 1} differs` };
+  }
+  return { accepted: true };
+}
+
+// Token-wise comparison; `same` decides whether two tokens at the same position match
+function compareTokens(expected: string, actual: string, same: (expected: string, actual: string) => boolean): CheckResult {
+  const expectedTokens = tokenize(expected);
+  const actualTokens = tokenize(actual);
+
+  for (let i = 0; i < Math.min(expectedTokens.length, actualTokens.length); i++) {
+    if (!same(expectedTokens[i], actualTokens[i])) {
+      return { accepted: false, message: `Token ${i + 1} differs: expected ${quote(expectedTokens[i])}, got ${quote(actualTokens[i])}` };
+    }
+  }
+  if (expectedTokens.length !== actualTokens.length) {
+    return { accepted: false, message: `Expected ${expectedTokens.length} tokens, got ${actualTokens.length}` };
+  }
+  return { accepted: true };
+}
+
+const NUMBER_PATTERN = /^[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?$/;
+
+function withinTolerance(expected: string, actual: string, absolute: number, relative: number): boolean {
+  if (expected === actual) return true;
+  // Only tokens that are numbers on both sides get a tolerance; words must match exactly
+  if (!NUMBER_PATTERN.test(expected) || !NUMBER_PATTERN.test(actual)) return false;
+  const difference = Math.abs(Number(expected) - Number(actual));
+  return difference <= absolute || difference <= relative * Math.abs(Number(expected));
+}
+
+// Same lines in any order, each as often as expected
+function compareUnordered(expected: string[], actual: string[]): CheckResult {
+  const remaining = new Map<string, number>();
+  for (const line of expected) {
+    remaining.set(line, (remaining.get(line) ?? 0) + 1);
+  }
+  for (const line of actual) {
+    const count = remaining.get(line);
+    if (!count) return { accepted: false, message: `Unexpected line ${quote(line)}` };
+    remaining.set(line, count - 1);
+  }
+  for (const [line, count] of remaining) {
+    if (count > 0) return { accepted: false, message: `Missing line ${quote(line)}` };
+  }
+  return { accepted: true };
+}
+
+export function compareOutputs(comparison: BuiltinComparison, expected: string, actual: string): CheckResult {
+  switch (comparison.mode) {
+    case 'lines':
+      return compareLines(normalizeLines(expected), normalizeLines(actual));
+    case 'whitespace': {
+      // Runs of spaces and tabs count as one space, leading ones not at all
+      const collapse = (lines: string[]) => lines.map(line => line.trim().replace(/\s+/g, ' '));
+      return compareLines(collapse(normalizeLines(expected)), collapse(normalizeLines(actual)));
+    }
+    case 'tokens':
+      return compareTokens(expected, actual, (a, b) => a === b);
+    case 'float': {
+      const { absoluteTolerance, relativeTolerance } = comparison;
+      return compareTokens(expected, actual, (a, b) => withinTolerance(a, b, absoluteTolerance, relativeTolerance));
+    }
+    case 'unordered':
+      return compareUnordered(normalizeLines(expected), normalizeLines(actual));
+  }
+}
+
+// Files a checker finds in its working directory, also passed as its arguments in this order
+export const CHECKER_FILES = ['input.txt', 'expected.txt', 'actual.txt'] as const;
+// The interactor gets the case's input and expected output the same way; what the program
+// prints arrives on its stdin instead
+export const INTERACTOR_FILES = ['input.txt', 'expected.txt'] as const;
+
+// What the judge needs to know about one run of a checker or interactor
+export interface CheckerRun {
+  output: string;
+  errors: string;
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  // The sandbox limit that stopped the checker, if any
+  limitVerdict: LimitVerdict | null;
+}
+
+const VERDICT_PATTERN = /^(AC|WA)\b\s*([\s\S]*)$/;
+
+const details = (text: string) => text.trim() ? `:\n${text.trim().slice(0, MAX_CHECKER_MESSAGE)}` : '';
+
+// A verdict only counts from a program that exited normally. Interpreters exit with 1 on
+// uncaught errors, so the exit code alone cannot carry the verdict.
+function assertCompleted(run: CheckerRun, role: JudgeProgramRole) {
+  if (run.limitVerdict) {
+    throw new CheckerError(`The ${role} was stopped by the ${run.limitVerdict.replace(/_/g, ' ')}`);
+  }
+  if (run.signal || run.exitCode !== 0) {
+    throw new CheckerError(`The ${role} ${run.signal ? `was killed by ${run.signal}` : `exited with code ${run.exitCode}`}${details(run.errors)}`);
+  }
+}
+
+function toCheckResult([, verdict, comment]: RegExpMatchArray, role: JudgeProgramRole): CheckResult {
+  const message = comment.slice(0, MAX_CHECKER_MESSAGE) || undefined;
+  return { accepted: verdict === 'AC', message: message ?? (verdict === 'WA' ? `Rejected by the ${role}` : undefined) };
+}
+
+// The checker answers on stdout: `AC` or `WA` as the first word, optionally followed by a
+// comment, and exits with code 0
+export function checkerVerdict(run: CheckerRun): CheckResult {
+  assertCompleted(run, 'checker');
+  const answer = run.output.trim().match(VERDICT_PATTERN);
+  if (!answer) {
+    throw new CheckerError(`The checker must print AC or WA first${details(run.output)}`);
+  }
+  return toCheckResult(answer, 'checker');
+}
+
+// The interactor's stdout belongs to the program, so it answers on stderr instead: the last
+// line starting with `AC` or `WA` is the verdict, anything else it logged there is ignored
+export function interactorVerdict(run: CheckerRun): CheckResult {
+  assertCompleted(run, 'interactor');
+  const answer = run.errors
+    .split('\n')
+    .map(line => line.trim().match(VERDICT_PATTERN))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .pop();
+  if (!answer) {
+    throw new CheckerError(`The interactor must print AC or WA on stderr${details(run.errors)}`);
+  }
+  return toCheckResult(answer, 'interactor');
+}
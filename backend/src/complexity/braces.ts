@@ -0,0 +1,431 @@
+// Structure of brace languages for the complexity estimate: C, C++, Java, Go and Rust. A
+// tokenizer drops comments, preprocessor lines and string contents; a recursive-descent parser
+// finds function definitions inside classes, namespaces and impl blocks and walks their
+// statements, including loop bodies without braces and Go and Rust headers without parentheses.
+
+import {
+  FunctionStructure,
+  LoopBound,
+  ProgramStructure,
+  StructureNode,
+  counterBound,
+  isLiteral,
+  looksMemoized,
+  whileBound
+} from './structure';
+
+export type BraceLanguage = 'c' | 'cpp' | 'java' | 'go' | 'rust';
+
+interface Token {
+  text: string;
+  line: number;
+}
+
+const PUNCTUATION = [
+  '>>>=', '<<=', '>>=', '>>>', '...', '..=', '->', '::', '++', '--', '+=', '-=', '*=', '/=', '%=', '&=',
+  '|=', '^=', '==', '!=', '<=', '>=', '&&', '||', '<<', '>>', '=>', ':=', '..'
+];
+
+function tokenize(code: string): Token[] {
+  const tokens: Token[] = [];
+  let line = 1;
+  let lineStart = true;
+
+  for (let i = 0; i < code.length; i++) {
+    const ch = code[i];
+    if (ch === '\n') {
+      line++;
+      lineStart = true;
+      continue;
+    }
+    if (/\s/.test(ch)) continue;
+
+    const startsLine = lineStart;
+    lineStart = false;
+    if (code.startsWith('//', i)) {
+      while (i + 1 < code.length && code[i + 1] !== '\n') i++;
+    } else if (code.startsWith('/*', i)) {
+      const end = code.indexOf('*/', i + 2);
+      const stop = end < 0 ? code.length : end + 2;
+      for (; i < stop - 1; i++) if (code[i] === '\n') line++;
+    } else if (ch === '#' && startsLine) {
+      // Preprocessor directives and Rust attributes, with their continuation lines
+      while (i + 1 < code.length && (code[i + 1] !== '\n' || code[i] === '\\')) {
+        if (code[++i] === '\n') line++;
+      }
+    } else if (ch === '"' || ch === '`') {
+      const quote = ch === '"' && code.startsWith('"""', i) ? '"""' : ch;
+      for (i += quote.length; i < code.length && !code.startsWith(quote, i); i++) {
+        if (code[i] === '\\' && ch === '"') i++;
+        if (code[i] === '\n') line++;
+      }
+      i += quote.length - 1;
+      tokens.push({ text: '""', line });
+    } else if (ch === "'" && (code[i + 1] === '\\' || code[i + 2] === "'")) {
+      for (i++; i < code.length && code[i] !== "'"; i++) if (code[i] === '\\') i++;
+      tokens.push({ text: '""', line });
+    } else if (ch === "'") {
+      // A Rust lifetime, which says nothing about cost
+      while (/\w/.test(code[i + 1] ?? '')) i++;
+    } else if (/[A-Za-z_$]/.test(ch)) {
+      const word = /^[\w$]+/.exec(code.slice(i, i + 256))![0];
+      tokens.push({ text: word, line });
+      i += word.length - 1;
+    } else if (/\d/.test(ch)) {
+      // Not into a range, as in `0..10`
+      const number = /^\d[\w']*(?:\.(?!\.)[\w']*)?/.exec(code.slice(i, i + 64))![0];
+      tokens.push({ text: number, line });
+      i += number.length - 1;
+    } else {
+      const operator = PUNCTUATION.find(candidate => code.startsWith(candidate, i)) ?? ch;
+      tokens.push({ text: operator, line });
+      i += operator.length - 1;
+    }
+  }
+  return tokens;
+}
+
+const text = (tokens: Token[]) => tokens.map(token => token.text).join(' ');
+
+const CONTROL = new Set(['for', 'while', 'do', 'if', 'switch', 'loop', 'match', 'else', 'try', 'catch', 'finally']);
+const CONTAINERS = new Set(['class', 'struct', 'interface', 'enum', 'namespace', 'impl', 'trait', 'union', 'record', 'mod', 'object']);
+const NOT_CALLS = new Set([
+  'if', 'for', 'while', 'switch', 'catch', 'return', 'sizeof', 'typeof', 'alignof', 'decltype', 'new', 'delete',
+  'throw', 'else', 'do', 'case', 'synchronized', 'match', 'loop', 'fn', 'func', 'defer', 'go', 'await', 'yield', 'assert'
+]);
+const GROWING = new Set([
+  'push_back', 'emplace_back', 'push_front', 'emplace_front', 'push', 'add', 'addLast', 'addFirst', 'offer',
+  'put', 'insert', 'emplace', 'append', 'push_str', 'extend'
+]);
+const SIZED_CONTAINERS = new Set(['vector', 'deque', 'valarray', 'string', 'basic_string']);
+const ARRAY_TYPES = new Set(['int', 'long', 'char', 'double', 'float', 'bool', 'short', 'unsigned', 'size_t', 'll']);
+const isIdentifier = (token: Token | undefined) => token !== undefined && /^[A-Za-z_$][\w$]*$/.test(token.text);
+
+class BraceParser {
+  private pos = 0;
+  readonly functions: FunctionStructure[] = [];
+
+  constructor(private readonly tokens: Token[], private readonly language: BraceLanguage) {}
+
+  private peek(offset = 0): Token | undefined {
+    return this.tokens[this.pos + offset];
+  }
+
+  private at(value: string): boolean {
+    return this.peek()?.text === value;
+  }
+
+  // The tokens of a balanced group starting at the current opener, without the brackets
+  private group(): Token[] {
+    const open = this.tokens[this.pos].text;
+    const close = open === '(' ? ')' : open === '[' ? ']' : '}';
+    const start = ++this.pos;
+    for (let depth = 1; this.pos < this.tokens.length; this.pos++) {
+      const current = this.tokens[this.pos].text;
+      if (current === open) depth++;
+      else if (current === close && --depth === 0) break;
+    }
+    const tokens = this.tokens.slice(start, this.pos);
+    this.skip();
+    return tokens;
+  }
+
+  // Past a closing bracket, unless the code ended before it
+  private skip() {
+    this.pos = Math.min(this.pos + 1, this.tokens.length);
+  }
+
+  // Declarations at the top level or in a class, namespace or impl block, up to its `}`
+  declarations(topLevel: boolean) {
+    while (this.pos < this.tokens.length && (topLevel || !this.at('}'))) {
+      const header: Token[] = [];
+      let depth = 0;
+      while (this.pos < this.tokens.length) {
+        const token = this.tokens[this.pos];
+        if (depth === 0 && (token.text === ';' || token.text === '{' || token.text === '}')) break;
+        if (token.text === '(' || token.text === '[') depth++;
+        if (token.text === ')' || token.text === ']') depth--;
+        header.push(token);
+        this.pos++;
+      }
+      if (!this.at('{')) {
+        // A stray `}` at the top level is skipped rather than ending the parse
+        if (this.at(';') || this.at('}')) this.pos++;
+        continue;
+      }
+
+      const name = this.functionName(header);
+      if (name) {
+        const line = header.find(token => token.text === name)?.line ?? this.peek()!.line;
+        const start = this.pos;
+        const body = this.block();
+        this.functions.push({
+          name,
+          line,
+          endLine: this.tokens[this.pos - 1].line,
+          body,
+          memoized: looksMemoized(text(this.tokens.slice(start, this.pos)))
+        });
+      } else if (header.some(token => CONTAINERS.has(token.text)) && !header.some(token => token.text === 'enum')) {
+        this.pos++;
+        this.declarations(false);
+        this.skip();
+      } else {
+        // Initializers, enums and static blocks
+        this.group();
+      }
+    }
+  }
+
+  private functionName(header: Token[]): string | undefined {
+    if (this.language === 'go') {
+      const func = header.findIndex(token => token.text === 'func');
+      if (func < 0) return undefined;
+      // A method's receiver comes first; an anonymous `func(...)` has no name at all
+      let index = func + 1;
+      if (header[index]?.text === '(') {
+        while (index < header.length && header[index].text !== ')') index++;
+        index++;
+      }
+      const named = isIdentifier(header[index]) && ['(', '['].includes(header[index + 1]?.text ?? '');
+      return named ? header[index].text : undefined;
+    }
+    if (this.language === 'rust') {
+      const fn = header.findIndex(token => token.text === 'fn');
+      return fn >= 0 && isIdentifier(header[fn + 1]) ? header[fn + 1].text : undefined;
+    }
+
+    // C, C++ and Java: the first parameter list, named and not assigned, e.g. not `f = [](int x)`
+    let depth = 0;
+    for (let i = 0; i < header.length; i++) {
+      const token = header[i];
+      if (depth === 0 && (token.text === '=' || CONTAINERS.has(token.text))) return undefined;
+      if (token.text === '(') {
+        if (depth === 0 && isIdentifier(header[i - 1]) && !NOT_CALLS.has(header[i - 1].text) && header[i - 2]?.text !== '@') {
+          return header[i - 1].text;
+        }
+        depth++;
+      } else if (token.text === ')') {
+        depth--;
+      }
+    }
+    return undefined;
+  }
+
+  // `{ ... }`, returning what its statements do
+  private block(): StructureNode[] {
+    const nodes: StructureNode[] = [];
+    this.pos++;
+    while (this.pos < this.tokens.length && !this.at('}')) this.statement(nodes);
+    this.skip();
+    return nodes;
+  }
+
+  // The condition of `if`, `while` and the like: parenthesized, or up to the body in Go and Rust
+  private header(): Token[] {
+    if (this.at('(') && (this.language !== 'go' && this.language !== 'rust')) return this.group();
+
+    const header: Token[] = [];
+    let depth = 0;
+    while (this.pos < this.tokens.length && !(depth === 0 && this.at('{'))) {
+      const token = this.tokens[this.pos++];
+      if (token.text === '(' || token.text === '[') depth++;
+      if (token.text === ')' || token.text === ']') depth--;
+      header.push(token);
+    }
+    return header;
+  }
+
+  private statement(nodes: StructureNode[]) {
+    const token = this.peek()!;
+    switch (token.text) {
+      case '{':
+        nodes.push(...this.block());
+        return;
+      case ';':
+        this.pos++;
+        return;
+      case 'for':
+      case 'while':
+        this.pos++;
+        this.loop(token, nodes);
+        return;
+      case 'loop':
+        if (this.language === 'rust') {
+          this.pos++;
+          nodes.push({ kind: 'loop', line: token.line, bound: 'linear', body: this.body() });
+          return;
+        }
+        break;
+      case 'do': {
+        this.pos++;
+        const start = this.pos;
+        const body = this.body();
+        const bodyText = text(this.tokens.slice(start, this.pos));
+        const condition = this.at('while') ? (this.pos++, this.header()) : [];
+        body.push(...this.scan(condition));
+        nodes.push({ kind: 'loop', line: token.line, bound: whileBound(text(condition), bodyText), body });
+        return;
+      }
+      case 'if':
+      case 'switch':
+      case 'match':
+      case 'catch':
+      case 'synchronized':
+        this.pos++;
+        nodes.push(...this.scan(this.header()));
+        nodes.push(...this.body());
+        return;
+      case 'else':
+      case 'try':
+      case 'finally':
+      case 'unsafe':
+        this.pos++;
+        if (this.at('(')) nodes.push(...this.scan(this.group()));
+        nodes.push(...this.body());
+        return;
+      case 'case':
+      case 'default':
+        if (this.tokens.slice(this.pos, this.pos + 64).some(candidate => candidate.text === ':')) {
+          while (!this.at(':')) this.pos++;
+          this.pos++;
+          return;
+        }
+        break;
+    }
+    this.expression(nodes);
+  }
+
+  // A loop or branch body: a block, or a single statement in C, C++ and Java
+  private body(): StructureNode[] {
+    if (this.pos >= this.tokens.length) return [];
+    if (this.at('{')) return this.block();
+    const nodes: StructureNode[] = [];
+    this.statement(nodes);
+    return nodes;
+  }
+
+  private loop(keyword: Token, nodes: StructureNode[]) {
+    const header = this.header();
+    const start = this.pos;
+    const body = this.body();
+    const bodyText = text(this.tokens.slice(start, this.pos));
+    nodes.push({ kind: 'loop', line: keyword.line, bound: this.loopBound(keyword.text, header, bodyText), body: [...this.scan(header), ...body] });
+  }
+
+  private loopBound(keyword: string, header: Token[], bodyText: string): LoopBound {
+    const source = text(header);
+    if (keyword === 'while') return whileBound(source, bodyText);
+
+    const clauses = source.split(/\s*;\s*/);
+    if (clauses.length >= 3) {
+      return counterBound(clauses[1], clauses[2], bodyText);
+    }
+    // `for (int x : xs)`, `for i, x := range xs`, `for x in 0..10`
+    const iterable = /(?:^|\s)(?::|range|in)\s(.*)$/.exec(source);
+    if (iterable) {
+      const range = /^(.*?)\s\.\.=?\s(.*)$/.exec(iterable[1]);
+      const literal = range ? isLiteral(range[1]) && isLiteral(range[2]) : isLiteral(iterable[1]);
+      return literal ? 'constant' : 'linear';
+    }
+    // Go's `for condition {}` and `for {}`
+    return source.trim() ? whileBound(source, bodyText) : 'linear';
+  }
+
+  // An expression statement up to its `;`, the end of the block, or a statement keyword where
+  // Go and Rust end statements at line breaks; blocks inside it, such as lambdas and closures,
+  // count as part of it
+  private expression(nodes: StructureNode[]) {
+    const tokens: Token[] = [];
+    let depth = 0;
+    while (this.pos < this.tokens.length) {
+      const token = this.tokens[this.pos];
+      if (depth === 0 && (token.text === ';' || token.text === '}')) break;
+      if (depth === 0 && tokens.length > 0 && CONTROL.has(token.text)) break;
+      if (token.text === '{') {
+        nodes.push(...this.block());
+        continue;
+      }
+      if (token.text === '(' || token.text === '[') depth++;
+      if (token.text === ')' || token.text === ']') depth--;
+      tokens.push(token);
+      this.pos++;
+    }
+    if (this.at(';')) this.pos++;
+    // A lone token that is none of the above still has to move the parser along
+    if (tokens.length === 0 && !this.at('}') && this.pos < this.tokens.length && !CONTROL.has(this.peek()!.text)) this.pos++;
+    nodes.push(...this.scan(tokens));
+  }
+
+  // Calls and allocations in a run of tokens
+  private scan(tokens: Token[]): StructureNode[] {
+    const nodes: StructureNode[] = [];
+    const groupAt = (open: number): Token[] => {
+      const close = tokens[open].text === '(' ? ')' : ']';
+      let depth = 0;
+      for (let i = open; i < tokens.length; i++) {
+        if (tokens[i].text === tokens[open].text) depth++;
+        else if (tokens[i].text === close && --depth === 0) return tokens.slice(open + 1, i);
+      }
+      return tokens.slice(open + 1);
+    };
+    const sized = (group: Token[]) => group.length > 0 && !isLiteral(text(group).replace(/sizeof \( [^)]* \)/g, ''));
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      const next = tokens[i + 1]?.text;
+      const line = token.line;
+
+      if (isIdentifier(token) && next === '(' && !NOT_CALLS.has(token.text)) {
+        const args = groupAt(i + 1);
+        let start = i;
+        while (start >= 2 && ['.', '::', '->'].includes(tokens[start - 1].text) && isIdentifier(tokens[start - 2])) start -= 2;
+        nodes.push({ kind: 'call', line, callee: token.text, qualifiedName: text(tokens.slice(start, i + 1)).replace(/ /g, ''), args: text(args) });
+
+        const previous = tokens[i - 1]?.text;
+        if (GROWING.has(token.text)) {
+          nodes.push({ kind: 'allocation', line, dimensions: 0, grows: true });
+        } else if (token.text === 'make' && this.language === 'go') {
+          const size = text(args).split(' , ')[1];
+          if (size && !isLiteral(size)) nodes.push({ kind: 'allocation', line, dimensions: 1, grows: false });
+        } else if (['malloc', 'calloc', 'with_capacity'].includes(token.text) && sized(args)) {
+          nodes.push({ kind: 'allocation', line, dimensions: 1, grows: false });
+        } else if ((previous === '>' || previous === '>>' || SIZED_CONTAINERS.has(previous ?? '')) &&
+          tokens.slice(Math.max(0, i - 8), i).some(candidate => SIZED_CONTAINERS.has(candidate.text))) {
+          // `vector<int> v(n)`, `vector<vector<int>> grid(n, vector<int>(m))`
+          const [size] = text(args).split(' , ');
+          const dimensions = (size && !isLiteral(size) ? 1 : 0) + (args.some(arg => SIZED_CONTAINERS.has(arg.text)) ? 1 : 0);
+          if (dimensions > 0) nodes.push({ kind: 'allocation', line, dimensions, grows: false });
+        }
+      } else if (token.text === 'vec' && next === '!' && tokens[i + 2]?.text === '[') {
+        // `vec![0; n]`, `vec![vec![0; m]; n]`
+        const content = text(groupAt(i + 2));
+        const size = content.slice(content.lastIndexOf(' ; ') + 3);
+        const inner = /vec ! \[ .* ; (.*) \] ; /.exec(content);
+        const dimensions = (content.includes(' ; ') && !isLiteral(size) ? 1 : 0) + (inner && !isLiteral(inner[1]) ? 1 : 0);
+        if (dimensions > 0) nodes.push({ kind: 'allocation', line, dimensions, grows: false });
+      } else if (token.text === 'new' || (ARRAY_TYPES.has(token.text) && isIdentifier(tokens[i + 1]) && tokens[i + 2]?.text === '[')) {
+        // `new int[n][m]`, `int dp[n + 1]`
+        let index = i + 1;
+        while (index < tokens.length && tokens[index].text !== '[' && tokens[index].text !== '(' && tokens[index].text !== ';') index++;
+        let dimensions = 0;
+        while (tokens[index]?.text === '[') {
+          const size = groupAt(index);
+          if (sized(size)) dimensions++;
+          index += size.length + 2;
+        }
+        if (dimensions > 0) nodes.push({ kind: 'allocation', line, dimensions, grows: false });
+      }
+    }
+    return nodes;
+  }
+}
+
+export function parseBraceLanguage(code: string, language: BraceLanguage): ProgramStructure {
+  const parser = new BraceParser(tokenize(code), language);
+  parser.declarations(true);
+  return {
+    functions: parser.functions,
+    entry: parser.functions.find(fn => fn.name === 'main')
+  };
+}
@@ -0,0 +1,362 @@
+// Static complexity estimate: from a parsed program structure, the time and extra space of each
+// function as a function of the input size n, composed through the call graph, with the lines
+// that drive each bound. Each LanguageRuntime that can be parsed provides the structure.
+
+import {
+  CallNode,
+  FunctionStructure,
+  LoopBound,
+  ProgramStructure,
+  StructureNode,
+  isLiteral
+} from './structure';
+
+export * from './structure';
+export { parsePython } from './python';
+export { parseBraceLanguage, BraceLanguage } from './braces';
+export { parseJavaScript } from './javascript';
+
+export interface ComplexityDriver {
+  line: number;
+  aspect: 'time' | 'space';
+  reason: string;
+}
+
+export interface FunctionComplexity {
+  name: string;
+  line: number;
+  endLine: number;
+  time: string;
+  space: string;
+  explanation: string;
+  drivers: ComplexityDriver[];
+}
+
+export interface ComplexityEstimate {
+  // Of the whole program, from what runs at startup
+  time: string;
+  space: string;
+  explanation: string;
+  functions: FunctionComplexity[];
+}
+
+// n^power · log^logPower n, or exponential
+interface Cost {
+  exponential: boolean;
+  power: number;
+  logPower: number;
+}
+
+const CONSTANT: Cost = { exponential: false, power: 0, logPower: 0 };
+const LOGARITHMIC: Cost = { exponential: false, power: 0, logPower: 1 };
+const LINEAR: Cost = { exponential: false, power: 1, logPower: 0 };
+const LINEARITHMIC: Cost = { exponential: false, power: 1, logPower: 1 };
+const EXPONENTIAL: Cost = { exponential: true, power: 0, logPower: 0 };
+
+const polynomial = (power: number): Cost => ({ exponential: false, power, logPower: 0 });
+
+const times = (a: Cost, b: Cost): Cost => ({
+  exponential: a.exponential || b.exponential,
+  power: a.power + b.power,
+  logPower: a.logPower + b.logPower
+});
+
+const compareCosts = (a: Cost, b: Cost) =>
+  Number(a.exponential) - Number(b.exponential) || a.power - b.power || a.logPower - b.logPower;
+
+const BOUND_COSTS: Record<LoopBound, Cost> = { constant: CONSTANT, halving: LOGARITHMIC, linear: LINEAR };
+
+const BOUND_REASONS: Record<LoopBound, string> = {
+  constant: 'loop with a fixed count',
+  halving: 'loop that halves or doubles its range',
+  linear: 'loop over the input'
+};
+
+const SUPERSCRIPTS: Record<number, string> = { 2: '²', 3: '³' };
+
+function formatCost({ exponential, power, logPower }: Cost): string {
+  if (exponential) return 'O(2^n)';
+
+  const factors: string[] = [];
+  if (power > 0) {
+    const exponent = Math.round(power * 100) / 100;
+    factors.push(exponent === 1 ? 'n' : SUPERSCRIPTS[exponent] ? `n${SUPERSCRIPTS[exponent]}` : `n^${exponent}`);
+  }
+  if (logPower > 0) {
+    factors.push(logPower === 1 ? 'log n' : `log${SUPERSCRIPTS[logPower] ?? `^${logPower}`} n`);
+  }
+  return `O(${factors.join(' ') || '1'})`;
+}
+
+// Library calls whose cost is known whatever the language, by qualified name or bare name
+const LIBRARY_COSTS: Record<string, Cost> = {
+  sort: LINEARITHMIC,
+  sorted: LINEARITHMIC,
+  stable_sort: LINEARITHMIC,
+  sort_unstable: LINEARITHMIC,
+  sort_by: LINEARITHMIC,
+  sort_by_key: LINEARITHMIC,
+  sort_unstable_by: LINEARITHMIC,
+  'sort.Ints': LINEARITHMIC,
+  'sort.Strings': LINEARITHMIC,
+  'sort.Slice': LINEARITHMIC,
+  'sort.SliceStable': LINEARITHMIC,
+  'slices.Sort': LINEARITHMIC,
+  'sort.Search': LOGARITHMIC,
+  'slices.BinarySearch': LOGARITHMIC,
+  bisect: LOGARITHMIC,
+  bisect_left: LOGARITHMIC,
+  bisect_right: LOGARITHMIC,
+  lower_bound: LOGARITHMIC,
+  upper_bound: LOGARITHMIC,
+  binary_search: LOGARITHMIC,
+  binarySearch: LOGARITHMIC,
+  heappush: LOGARITHMIC,
+  heappop: LOGARITHMIC,
+  heapify: LINEAR,
+  sum: LINEAR,
+  reversed: LINEAR,
+  reverse: LINEAR,
+  accumulate: LINEAR,
+  indexOf: LINEAR,
+  lastIndexOf: LINEAR,
+  includes: LINEAR,
+  join: LINEAR
+};
+
+const libraryCost = (call: CallNode): Cost | undefined =>
+  LIBRARY_COSTS[call.qualifiedName.replace(/^std::/, '')] ?? LIBRARY_COSTS[call.callee];
+
+// How a recursive call shrinks its input, from its arguments
+type Shrinking = 'halving' | 'split' | 'structural' | 'decrement';
+
+const HALVING_ARGUMENT = /\/\/?\s*2\b|>>>?\s*1\b|\bmid\b|\bhalf\b/;
+const STRUCTURAL_ARGUMENT = /\.(?:left|right|next|children|child)\b|\b(?:child|neighbou?r)\b/i;
+// `n - 1`, `i + 1`, `a[1:]`, `a[:-1]`
+const DECREMENT_ARGUMENT = /[-+]\s*\d+\b|\[\s*\d+\s*:|\[\s*:\s*-\s*\d/;
+
+// Quicksort style: one call ends just before a pivot and another starts just after it
+function splitsAtPivot(calls: CallNode[]): boolean {
+  return calls.some(call => {
+    const before = /\b([A-Za-z_$][\w$]*)\s*-\s*1\b/.exec(call.args);
+    return before !== null && calls.some(other =>
+      other !== call && new RegExp(`\\b${before[1].replace(/\$/g, '\\$')}\\s*\\+\\s*1\\b`).test(other.args));
+  });
+}
+
+// Calls inside a loop that pass something other than a stepped index walk a graph or tree, one
+// call per neighbour; several calls with no visible decrement recurse on parts of a partition
+function shrinkingOf(calls: CallNode[], inLoop: boolean): Shrinking {
+  const decrements = calls.some(call => DECREMENT_ARGUMENT.test(call.args));
+  if (calls.every(call => HALVING_ARGUMENT.test(call.args))) return 'halving';
+  if (calls.length > 1 && splitsAtPivot(calls)) return 'split';
+  // Methods such as Go's `t.Left.Size()` carry the child in the receiver
+  if (calls.every(call => STRUCTURAL_ARGUMENT.test(`${call.qualifiedName} ${call.args}`)) || (inLoop && !decrements)) return 'structural';
+  if (calls.length > 1 && !decrements && !inLoop) return 'split';
+  return 'decrement';
+}
+
+const SHRINKING_REASONS: Record<Shrinking, string> = {
+  halving: 'recursive call on half the input',
+  split: 'recursive call on part of the input',
+  structural: 'recursive call per child',
+  decrement: 'recursive call on a smaller input'
+};
+
+interface Assessment {
+  cost: Cost;
+  drivers: ComplexityDriver[];
+}
+
+const NOTHING: Assessment = { cost: CONSTANT, drivers: [] };
+
+const larger = (a: Assessment, b: Assessment) => compareCosts(b.cost, a.cost) > 0 ? b : a;
+
+// Two calls on one line, like `fib(n - 1) + fib(n - 2)`, make one driver
+const distinct = (drivers: ComplexityDriver[]) => drivers.filter((driver, index) =>
+  drivers.findIndex(other => other.line === driver.line && other.aspect === driver.aspect && other.reason === driver.reason) === index);
+
+interface FunctionAnalysis {
+  time: Assessment;
+  space: Assessment;
+}
+
+// What a walk over a function body found
+interface BodyAnalysis extends FunctionAnalysis {
+  selfCalls: CallNode[];
+  selfCallInLoop: boolean;
+}
+
+class Estimator {
+  private readonly byName = new Map<string, FunctionStructure>();
+  private readonly analyses = new Map<FunctionStructure, FunctionAnalysis>();
+  // Functions being analyzed, so mutual recursion ends instead of looping
+  private readonly inProgress = new Set<FunctionStructure>();
+
+  constructor(functions: FunctionStructure[]) {
+    for (const fn of functions) {
+      if (!this.byName.has(fn.name)) this.byName.set(fn.name, fn);
+    }
+  }
+
+  analyze(fn: FunctionStructure): FunctionAnalysis {
+    const known = this.analyses.get(fn);
+    if (known) return known;
+
+    this.inProgress.add(fn);
+    const body: BodyAnalysis = { time: NOTHING, space: NOTHING, selfCalls: [], selfCallInLoop: false };
+    this.walk(fn, fn.body, CONSTANT, [], body);
+    this.inProgress.delete(fn);
+
+    const analysis = body.selfCalls.length > 0 ? this.withRecursion(fn, body) : { time: body.time, space: body.space };
+    this.analyses.set(fn, analysis);
+    return analysis;
+  }
+
+  private walk(fn: FunctionStructure, nodes: StructureNode[], loops: Cost, loopDrivers: ComplexityDriver[], body: BodyAnalysis) {
+    const addTime = (cost: Cost, drivers: ComplexityDriver[]) => {
+      body.time = larger(body.time, { cost, drivers });
+    };
+    const addSpace = (cost: Cost, drivers: ComplexityDriver[]) => {
+      body.space = larger(body.space, { cost, drivers });
+    };
+
+    for (const node of nodes) {
+      if (node.kind === 'loop') {
+        const iterations = times(loops, BOUND_COSTS[node.bound]);
+        const drivers = node.bound === 'constant'
+          ? loopDrivers
+          : [...loopDrivers, { line: node.line, aspect: 'time' as const, reason: BOUND_REASONS[node.bound] }];
+        addTime(iterations, drivers);
+        this.walk(fn, node.body, iterations, drivers, body);
+      } else if (node.kind === 'call') {
+        const callee = this.byName.get(node.callee);
+        if (callee === fn) {
+          body.selfCalls.push(node);
+          if (compareCosts(loops, CONSTANT) > 0) body.selfCallInLoop = true;
+        } else if (callee && !this.inProgress.has(callee) && !(node.args.trim() && isLiteral(node.args))) {
+          // A call with only literal arguments, like `fib(10)`, does a fixed amount of work
+          const { time, space } = this.analyze(callee);
+          const reason = `calls ${callee.name}`;
+          addTime(times(loops, time.cost), [...loopDrivers, { line: node.line, aspect: 'time', reason: `${reason}, ${formatCost(time.cost)}` }]);
+          addSpace(space.cost, [{ line: node.line, aspect: 'space', reason: `${reason}, ${formatCost(space.cost)}` }]);
+        } else if (!callee) {
+          const cost = libraryCost(node);
+          if (cost) {
+            addTime(times(loops, cost), [...loopDrivers, { line: node.line, aspect: 'time', reason: `${node.qualifiedName}, ${formatCost(cost)}` }]);
+          }
+        }
+      } else if (node.dimensions > 0 || node.grows) {
+        const size = polynomial(node.dimensions);
+        if (node.grows) {
+          addSpace(times(loops, size), [...loopDrivers.map(driver => ({ ...driver, aspect: 'space' as const })),
+            { line: node.line, aspect: 'space', reason: 'grows a collection' }]);
+        } else {
+          const reason = node.dimensions === 1 ? 'allocates n elements' : `allocates an ${formatCost(size).slice(2, -1)} table`;
+          addSpace(size, [{ line: node.line, aspect: 'space', reason }]);
+          // Filling it takes as long as it is big, again on every iteration
+          addTime(times(loops, size), [...loopDrivers, { line: node.line, aspect: 'time', reason }]);
+        }
+      }
+    }
+  }
+
+  // Combine the work of one call with how the recursion multiplies it, master theorem style
+  private withRecursion(fn: FunctionStructure, body: BodyAnalysis): FunctionAnalysis {
+    const calls = body.selfCalls;
+    const shrinking = shrinkingOf(calls, body.selfCallInLoop);
+    const work = body.time.cost;
+
+    let time: Cost;
+    let depth: Cost;
+    let reason: string;
+    if (fn.memoized) {
+      time = times(LINEAR, work);
+      depth = LINEAR;
+      reason = 'memoized recursive call';
+    } else if (shrinking === 'structural') {
+      // Each node is visited once; a loop over its children adds up to the node count
+      time = body.selfCallInLoop ? larger({ cost: LINEAR, drivers: [] }, body.time).cost : times(LINEAR, work);
+      depth = LINEAR;
+      reason = SHRINKING_REASONS[shrinking];
+    } else if (body.selfCallInLoop) {
+      time = EXPONENTIAL;
+      depth = LINEAR;
+      reason = 'recursive call inside a loop';
+    } else if (shrinking === 'halving' || shrinking === 'split') {
+      // T(n) = a·T(n/2) + f(n)
+      const critical = Math.log2(calls.length);
+      const comparison = work.exponential ? 1 : work.power - critical;
+      time = comparison > 0 ? work : comparison === 0 ? times(work, LOGARITHMIC) : polynomial(critical);
+      depth = LOGARITHMIC;
+      reason = SHRINKING_REASONS[shrinking];
+    } else if (calls.length === 1) {
+      time = times(LINEAR, work);
+      depth = LINEAR;
+      reason = SHRINKING_REASONS[shrinking];
+    } else {
+      time = EXPONENTIAL;
+      depth = LINEAR;
+      reason = `${calls.length} recursive calls on a smaller input`;
+    }
+
+    const callDrivers = (aspect: 'time' | 'space', text: string) =>
+      calls.map(call => ({ line: call.line, aspect, reason: text }));
+    return {
+      time: { cost: time, drivers: distinct([...callDrivers('time', reason), ...body.time.drivers]) },
+      space: larger(body.space, {
+        cost: fn.memoized ? LINEAR : depth,
+        drivers: distinct(callDrivers('space', fn.memoized ? 'memo table and recursion depth' : 'recursion depth'))
+      })
+    };
+  }
+}
+
+function explain({ time, space }: FunctionAnalysis): string {
+  const causes = (drivers: ComplexityDriver[]) =>
+    distinct(drivers).map(driver => `${driver.reason} (line ${driver.line})`).join(', ');
+
+  const timePart = time.drivers.length > 0
+    ? `${formatCost(time.cost)} time from ${causes(time.drivers)}.`
+    : 'Constant time: nothing repeats with the input size.';
+  const spacePart = space.drivers.length > 0 && compareCosts(space.cost, CONSTANT) > 0
+    ? `${formatCost(space.cost)} extra space from ${causes(space.drivers)}.`
+    : 'Constant extra space.';
+  return `${timePart} ${spacePart}`;
+}
+
+export function estimateComplexity(structure: ProgramStructure): ComplexityEstimate {
+  const estimator = new Estimator(structure.functions);
+
+  const functions = structure.functions.map((fn): FunctionComplexity => {
+    const analysis = estimator.analyze(fn);
+    return {
+      name: fn.name,
+      line: fn.line,
+      endLine: fn.endLine,
+      time: formatCost(analysis.time.cost),
+      space: formatCost(analysis.space.cost),
+      explanation: explain(analysis),
+      drivers: distinct([...analysis.time.drivers, ...analysis.space.drivers])
+    };
+  });
+
+  // What runs at startup decides, unless it does a fixed amount of work, as when it calls the
+  // functions on sample literals or there is no main; then the costliest function stands for it
+  const entry = structure.entry && estimator.analyze(structure.entry);
+  const program = entry && compareCosts(entry.time.cost, CONSTANT) > 0
+    ? entry
+    : structure.functions
+      .map(fn => estimator.analyze(fn))
+      .reduce<FunctionAnalysis>((worst, analysis) => ({
+        time: larger(worst.time, analysis.time),
+        space: larger(worst.space, analysis.space)
+      }), entry ?? { time: NOTHING, space: NOTHING });
+
+  return {
+    time: formatCost(program.time.cost),
+    space: formatCost(program.space.cost),
+    explanation: explain(program),
+    functions
+  };
+}
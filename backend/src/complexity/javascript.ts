@@ -0,0 +1,133 @@
+// JavaScript and TypeScript structure for the complexity estimate, from the syntax tree of the
+// bundled TypeScript compiler. Array methods that take a callback, like map and forEach, count as
+// loops over the array; other anonymous functions count as part of the function they are in.
+
+import * as ts from 'typescript';
+import {
+  FunctionStructure,
+  LoopBound,
+  ProgramStructure,
+  StructureNode,
+  counterBound,
+  isLiteral,
+  looksMemoized,
+  whileBound
+} from './structure';
+
+const ITERATING_METHODS = new Set([
+  'map', 'filter', 'forEach', 'reduce', 'reduceRight', 'some', 'every', 'find', 'findIndex', 'findLast',
+  'findLastIndex', 'flatMap'
+]);
+const GROWING = new Set(['push', 'unshift', 'add', 'set', 'concat']);
+const COPYING = new Set(['Array', 'Set', 'Map', 'from']);
+
+const isFunction = (node: ts.Node | undefined): node is ts.ArrowFunction | ts.FunctionExpression =>
+  node !== undefined && (ts.isArrowFunction(node) || ts.isFunctionExpression(node));
+
+function iterableBound(iterable: ts.Expression): LoopBound {
+  return ts.isArrayLiteralExpression(iterable) || ts.isStringLiteral(iterable)
+    ? (isLiteral(iterable.getText()) ? 'constant' : 'linear')
+    : 'linear';
+}
+
+export function parseJavaScript(code: string, fileName: string): ProgramStructure {
+  const source = ts.createSourceFile(
+    fileName, code, ts.ScriptTarget.Latest, true,
+    fileName.endsWith('.ts') ? ts.ScriptKind.TS : ts.ScriptKind.JS
+  );
+  const functions: FunctionStructure[] = [];
+  const lineOf = (position: number) => source.getLineAndCharacterOfPosition(position).line + 1;
+
+  const define = (name: string, node: ts.FunctionLikeDeclaration) => {
+    const body: StructureNode[] = [];
+    if (node.body) visit(node.body, body);
+    functions.push({
+      name,
+      line: lineOf(node.getStart(source)),
+      endLine: lineOf(node.getEnd()),
+      body,
+      memoized: looksMemoized(node.getText(source))
+    });
+  };
+
+  const loop = (node: ts.Node, bound: LoopBound, parts: Array<ts.Node | undefined>, nodes: StructureNode[]) => {
+    const body: StructureNode[] = [];
+    parts.forEach(part => part && visit(part, body));
+    nodes.push({ kind: 'loop', line: lineOf(node.getStart(source)), bound, body });
+  };
+
+  // Named functions become functions of their own; everything else adds to `nodes`
+  function visit(node: ts.Node, nodes: StructureNode[]) {
+    const line = lineOf(node.getStart(source));
+
+    if ((ts.isFunctionDeclaration(node) || ts.isMethodDeclaration(node)) && node.name) {
+      define(node.name.getText(source), node);
+      return;
+    }
+    if (ts.isConstructorDeclaration(node)) {
+      define('constructor', node);
+      return;
+    }
+    if ((ts.isVariableDeclaration(node) || ts.isPropertyAssignment(node) || ts.isPropertyDeclaration(node)) &&
+      isFunction(node.initializer)) {
+      define(node.name.getText(source), node.initializer);
+      return;
+    }
+
+    if (ts.isForStatement(node)) {
+      if (node.initializer) visit(node.initializer, nodes);
+      const bound = counterBound(
+        node.condition?.getText(source) ?? '',
+        node.incrementor?.getText(source) ?? '',
+        node.statement.getText(source)
+      );
+      loop(node, bound, [node.condition, node.incrementor, node.statement], nodes);
+      return;
+    }
+    if (ts.isForOfStatement(node) || ts.isForInStatement(node)) {
+      visit(node.expression, nodes);
+      loop(node, iterableBound(node.expression), [node.statement], nodes);
+      return;
+    }
+    if (ts.isWhileStatement(node) || ts.isDoStatement(node)) {
+      const bound = whileBound(node.expression.getText(source), node.statement.getText(source));
+      loop(node, bound, [node.expression, node.statement], nodes);
+      return;
+    }
+
+    if (ts.isCallExpression(node) || ts.isNewExpression(node)) {
+      const callee = node.expression;
+      const name = ts.isPropertyAccessExpression(callee) ? callee.name.text : ts.isIdentifier(callee) ? callee.text : '';
+      const receiver = ts.isPropertyAccessExpression(callee) && ts.isIdentifier(callee.expression) ? `${callee.expression.text}.` : '';
+      const args = node.arguments ?? ts.factory.createNodeArray<ts.Expression>();
+      const callback = args.find(isFunction);
+
+      if (ts.isPropertyAccessExpression(callee) && ITERATING_METHODS.has(name) && callback) {
+        visit(callee.expression, nodes);
+        loop(node, 'linear', [callback.body], nodes);
+        return;
+      }
+      if (name && ts.isCallExpression(node)) {
+        nodes.push({ kind: 'call', line, callee: name, qualifiedName: receiver + name, args: args.map(arg => arg.getText(source)).join(', ') });
+      }
+      if (GROWING.has(name) && ts.isPropertyAccessExpression(callee)) {
+        nodes.push({ kind: 'allocation', line, dimensions: 0, grows: true });
+      } else if (COPYING.has(name) && args.length > 0 && !isLiteral(args[0].getText(source))) {
+        // `new Array(n)`, `Array.from({ length: n })`, `new Set(values)`
+        nodes.push({ kind: 'allocation', line, dimensions: 1, grows: false });
+      }
+    } else if (ts.isArrayLiteralExpression(node) && node.elements.some(ts.isSpreadElement)) {
+      nodes.push({ kind: 'allocation', line, dimensions: 1, grows: false });
+    }
+
+    ts.forEachChild(node, child => visit(child, nodes));
+  }
+
+  const body: StructureNode[] = [];
+  source.statements.forEach(statement => visit(statement, body));
+
+  return {
+    functions,
+    entry: { name: '(top level)', line: 1, endLine: lineOf(source.getEnd()), body, memoized: false }
+  };
+}
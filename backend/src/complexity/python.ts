@@ -0,0 +1,338 @@
+// Python structure for the complexity estimate. Source is split into logical lines (strings
+// blanked, comments dropped, bracketed and backslash continuations joined) and nested by
+// indentation; comprehensions count as loops.
+
+import {
+  FunctionStructure,
+  LoopBound,
+  LoopNode,
+  ProgramStructure,
+  StructureNode,
+  isLiteral,
+  looksMemoized,
+  whileBound
+} from './structure';
+
+interface Statement {
+  line: number;
+  endLine: number;
+  indent: number;
+  text: string;
+  children: Statement[];
+}
+
+const OPENERS = '([{';
+const CLOSERS = ')]}';
+
+function logicalLines(code: string): Statement[] {
+  const statements: Statement[] = [];
+  let text = '';
+  let depth = 0;
+  let line = 1;
+  let start = 1;
+  let indent = 0;
+  let atLineStart = true;
+
+  const flush = () => {
+    if (text.trim()) statements.push({ line: start, endLine: line, indent, text: text.trim(), children: [] });
+    text = '';
+  };
+
+  for (let i = 0; i < code.length; i++) {
+    if (atLineStart) {
+      let width = 0;
+      while (code[i] === ' ' || code[i] === '\t') {
+        width += code[i] === '\t' ? 8 - (width % 8) : 1;
+        i++;
+      }
+      if (!text.trim()) {
+        indent = width;
+        start = line;
+      }
+      atLineStart = false;
+      if (i >= code.length) break;
+    }
+
+    const ch = code[i];
+    if (ch === '#') {
+      while (i + 1 < code.length && code[i + 1] !== '\n') i++;
+    } else if (ch === '"' || ch === "'") {
+      const quote = code.startsWith(ch.repeat(3), i) ? ch.repeat(3) : ch;
+      i += quote.length;
+      while (i < code.length && !code.startsWith(quote, i)) {
+        if (code[i] === '\\') i++;
+        else if (code[i] === '\n') {
+          // An unterminated single-quoted string ends at the line
+          if (quote.length === 1) break;
+          line++;
+        }
+        i++;
+      }
+      i += quote.length - 1;
+      text += '""';
+    } else if (ch === '\\' && code[i + 1] === '\n') {
+      i++;
+      line++;
+      atLineStart = true;
+      text += ' ';
+    } else if (ch === '\n') {
+      line++;
+      atLineStart = true;
+      if (depth > 0) text += ' ';
+      else flush();
+    } else if (ch === ';' && depth === 0) {
+      flush();
+      start = line;
+    } else {
+      if (OPENERS.includes(ch)) depth++;
+      else if (CLOSERS.includes(ch)) depth = Math.max(0, depth - 1);
+      text += ch;
+    }
+  }
+  flush();
+  return statements;
+}
+
+const COMPOUND = /^(?:async\s+)?(?:def|class|for|while|if|elif|else|try|except|finally|with|match|case)\b/;
+
+// Index of the colon ending a compound statement's header
+function headerColon(text: string): number {
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (OPENERS.includes(ch)) depth++;
+    else if (CLOSERS.includes(ch)) depth--;
+    else if (ch === ':' && depth === 0 && text[i + 1] !== '=') return i;
+  }
+  return -1;
+}
+
+// Nest statements under the compound statements that own them; a body on the header's own
+// line, as in `for x in xs: total += x`, becomes its only child
+function nest(lines: Statement[]): Statement[] {
+  const root: Statement[] = [];
+  const stack: Array<{ indent: number; children: Statement[] }> = [{ indent: -1, children: root }];
+
+  for (const statement of lines) {
+    while (stack.length > 1 && statement.indent <= stack[stack.length - 1].indent) stack.pop();
+    stack[stack.length - 1].children.push(statement);
+    if (!COMPOUND.test(statement.text)) continue;
+
+    const colon = headerColon(statement.text);
+    if (colon < 0) continue;
+    const inline = statement.text.slice(colon + 1).trim();
+    statement.text = statement.text.slice(0, colon);
+    if (inline) {
+      statement.children.push({ ...statement, indent: statement.indent + 1, text: inline, children: [] });
+    } else {
+      stack.push({ indent: statement.indent, children: statement.children });
+    }
+  }
+  return root;
+}
+
+// Index of the bracket closing the one at `open`, or the end of the text
+function closingBracket(text: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    if (OPENERS.includes(text[i])) depth++;
+    else if (CLOSERS.includes(text[i]) && --depth === 0) return i;
+  }
+  return text.length;
+}
+
+const CLAUSE_KEYWORD = /(for|if)\s/y;
+
+// Split a comprehension at its `for` and `if` clauses, outside brackets
+function splitClauses(text: string): Array<{ keyword: string; text: string }> {
+  const parts: Array<{ keyword: string; text: string }> = [];
+  let depth = 0;
+  let from = 0;
+  let keyword = '';
+  for (let i = 0; i < text.length; i++) {
+    if (OPENERS.includes(text[i])) depth++;
+    else if (CLOSERS.includes(text[i])) depth--;
+    else if (depth === 0 && (i === 0 || /\W/.test(text[i - 1]))) {
+      CLAUSE_KEYWORD.lastIndex = i;
+      const match = CLAUSE_KEYWORD.exec(text);
+      if (match) {
+        parts.push({ keyword, text: text.slice(from, i).trim() });
+        keyword = match[1];
+        from = i + match[0].length;
+        i = from - 1;
+      }
+    }
+  }
+  parts.push({ keyword, text: text.slice(from).trim() });
+  return parts;
+}
+
+function splitArguments(text: string): string[] {
+  const args: string[] = [];
+  let depth = 0;
+  let from = 0;
+  for (let i = 0; i <= text.length; i++) {
+    if (OPENERS.includes(text[i])) depth++;
+    else if (CLOSERS.includes(text[i])) depth--;
+    else if (i === text.length || (text[i] === ',' && depth === 0)) {
+      if (text.slice(from, i).trim()) args.push(text.slice(from, i).trim());
+      from = i + 1;
+    }
+  }
+  return args;
+}
+
+// Wrappers that iterate as often as their first argument does
+const PASS_THROUGH = new Set(['enumerate', 'reversed', 'sorted', 'list', 'tuple', 'zip', 'iter']);
+
+function iterableBound(iterable: string): LoopBound {
+  const call = /^([A-Za-z_][\w.]*)\s*\((.*)\)$/.exec(iterable.trim());
+  if (call && call[1] === 'range') {
+    return splitArguments(call[2]).every(isLiteral) ? 'constant' : 'linear';
+  }
+  if (call && PASS_THROUGH.has(call[1])) {
+    return iterableBound(splitArguments(call[2])[0] ?? '');
+  }
+  return isLiteral(iterable) ? 'constant' : 'linear';
+}
+
+const KEYWORDS = new Set([
+  'if', 'elif', 'while', 'for', 'return', 'yield', 'not', 'and', 'or', 'in', 'is', 'lambda',
+  'print', 'assert', 'del', 'await', 'def', 'class', 'with', 'except', 'raise', 'else'
+]);
+const COPYING = new Set(['list', 'set', 'dict', 'tuple', 'sorted', 'deque', 'bytearray', 'Counter', 'defaultdict']);
+const GROWING = new Set(['append', 'add', 'extend', 'appendleft', 'insert', 'update', 'setdefault', 'heappush']);
+
+// How many sizes of a list built by an expression depend on n: `[0] * n` has one, a
+// comprehension one per loop over the input plus whatever its element holds
+function allocationDimensions(expression: string): number {
+  const text = expression.trim();
+  if (text.startsWith('[') || text.startsWith('{')) {
+    const close = closingBracket(text, 0);
+    const content = text.slice(1, close);
+    const repeated = /^\s*\*\s*([\w.]+(?:\([^()]*\))?)/.exec(text.slice(close + 1));
+    if (repeated) {
+      return (isLiteral(repeated[1]) ? 0 : 1) + allocationDimensions(content);
+    }
+    const [element, ...clauses] = splitClauses(content);
+    const loops = clauses.filter(clause => clause.keyword === 'for');
+    if (loops.length > 0) {
+      const overInput = loops.filter(clause => iterableBound(clause.text.split(/\sin\s/).slice(1).join(' in ')) !== 'constant');
+      return overInput.length + allocationDimensions(element.text);
+    }
+  }
+  return 0;
+}
+
+// Loops, calls and allocations in an expression or simple statement
+function scanExpression(text: string, line: number, nodes: StructureNode[]) {
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (!OPENERS.includes(ch)) continue;
+
+    const close = closingBracket(text, i);
+    const content = text.slice(i + 1, close);
+    // What comes just before the bracket: a callee, or something being subscripted
+    const before = text.slice(Math.max(0, i - 200), i);
+    const callee = ch === '(' ? /((?:[A-Za-z_]\w*\s*\.\s*)*([A-Za-z_]\w*))\s*$/.exec(before) : null;
+
+    if (callee && !KEYWORDS.has(callee[2])) {
+      nodes.push({ kind: 'call', line, callee: callee[2], qualifiedName: callee[1].replace(/\s/g, ''), args: content });
+      if (GROWING.has(callee[2])) {
+        nodes.push({ kind: 'allocation', line, dimensions: 0, grows: true });
+      } else if (COPYING.has(callee[2]) && content.trim() && !isLiteral(content)) {
+        nodes.push({ kind: 'allocation', line, dimensions: 1, grows: false });
+      }
+    }
+
+    const [element, ...clauses] = splitClauses(content);
+    if (clauses.some(clause => clause.keyword === 'for')) {
+      nodes.push(...comprehension(element.text, clauses, line));
+    } else {
+      scanExpression(content, line, nodes);
+    }
+
+    const subscript = /[\w)\]}"]\s*$/.test(before);
+    // The literal and what may repeat it, as in `[0] * len(values)`
+    const dimensions = ch === '(' || subscript ? 0 : allocationDimensions(text.slice(i, close + 64));
+    if (dimensions > 0) nodes.push({ kind: 'allocation', line, dimensions, grows: false });
+    i = close;
+  }
+}
+
+// `[element for x in xs if c for y in ys]`: a loop per `for` clause, nested left to right
+function comprehension(element: string, clauses: Array<{ keyword: string; text: string }>, line: number): StructureNode[] {
+  let body: StructureNode[] = [];
+  scanExpression(element, line, body);
+  for (const clause of [...clauses].reverse()) {
+    if (clause.keyword === 'if') {
+      scanExpression(clause.text, line, body);
+      continue;
+    }
+    const iterable = clause.text.split(/\sin\s/).slice(1).join(' in ');
+    const loop: LoopNode = { kind: 'loop', line, bound: iterableBound(iterable), body };
+    body = [];
+    scanExpression(iterable, line, body);
+    body.push(loop);
+  }
+  return body;
+}
+
+const lastLine = (statement: Statement): number =>
+  statement.children.length > 0 ? lastLine(statement.children[statement.children.length - 1]) : statement.endLine;
+
+const sourceText = (statements: Statement[]): string =>
+  statements.map(statement => `${statement.text}\n${sourceText(statement.children)}`).join('');
+
+function convert(statements: Statement[], functions: FunctionStructure[]): StructureNode[] {
+  const nodes: StructureNode[] = [];
+  let decorators = '';
+
+  for (const statement of statements) {
+    const { text, line, children } = statement;
+    const definition = /^(?:async\s+)?def\s+([A-Za-z_]\w*)/.exec(text);
+
+    if (text.startsWith('@')) {
+      decorators += `${text}\n`;
+      continue;
+    }
+    if (definition) {
+      functions.push({
+        name: definition[1],
+        line,
+        endLine: lastLine(statement),
+        body: convert(children, functions),
+        memoized: looksMemoized(decorators + sourceText(children))
+      });
+    } else if (/^class\b/.test(text)) {
+      // Only its methods matter; the class body runs once
+      convert(children, functions);
+    } else if (/^(?:async\s+)?for\b/.test(text)) {
+      const iterable = text.replace(/^(?:async\s+)?for\s/, '').split(/\sin\s/).slice(1).join(' in ');
+      scanExpression(iterable, line, nodes);
+      nodes.push({ kind: 'loop', line, bound: iterableBound(iterable), body: convert(children, functions) });
+    } else if (/^while\b/.test(text)) {
+      const condition = text.slice('while'.length);
+      const body: StructureNode[] = [];
+      scanExpression(condition, line, body);
+      body.push(...convert(children, functions));
+      nodes.push({ kind: 'loop', line, bound: whileBound(condition, sourceText(children)), body });
+    } else {
+      scanExpression(text.replace(COMPOUND, ''), line, nodes);
+      nodes.push(...convert(children, functions));
+    }
+    decorators = '';
+  }
+  return nodes;
+}
+
+export function parsePython(code: string): ProgramStructure {
+  const statements = nest(logicalLines(code));
+  const functions: FunctionStructure[] = [];
+  const body = convert(statements, functions);
+
+  return {
+    functions,
+    entry: { name: '(top level)', line: 1, endLine: code.split('\n').length, body, memoized: false }
+  };
+}
@@ -0,0 +1,105 @@
+// Language-neutral outline of a program for the static complexity estimate: its functions and,
+// in each, the loops, calls and allocations that decide how its cost grows with the input size.
+// Each language's parser builds one; complexity/index.ts turns it into estimates.
+
+// How a loop's iteration count depends on n: not at all, logarithmically (the counter is halved
+// or doubled, or a search range is split), or in proportion to it
+export type LoopBound = 'constant' | 'halving' | 'linear';
+
+export interface LoopNode {
+  kind: 'loop';
+  line: number;
+  bound: LoopBound;
+  body: StructureNode[];
+}
+
+export interface CallNode {
+  kind: 'call';
+  line: number;
+  // Function or method name, e.g. "sort" for `arr.sort()`
+  callee: string;
+  // As written, with module or receiver, e.g. "Arrays.sort" or "sort.Ints"
+  qualifiedName: string;
+  // Source of the arguments, used to tell how recursion shrinks the input
+  args: string;
+}
+
+export interface AllocationNode {
+  kind: 'allocation';
+  line: number;
+  // How many of the sizes depend on n: 1 for a list of n elements, 2 for an n × m grid
+  dimensions: number;
+  // Appending to a collection, which accumulates over the enclosing loops
+  grows: boolean;
+}
+
+export type StructureNode = LoopNode | CallNode | AllocationNode;
+
+export interface FunctionStructure {
+  name: string;
+  line: number;
+  endLine: number;
+  body: StructureNode[];
+  // Results are cached, e.g. with @lru_cache or a memo table, so recursion visits each state once
+  memoized: boolean;
+}
+
+export interface ProgramStructure {
+  functions: FunctionStructure[];
+  // What runs when the program starts: its top-level statements, or main
+  entry?: FunctionStructure;
+}
+
+const NOT_VARIABLES = new Set(['true', 'false', 'True', 'False', 'None', 'null', 'nil', 'and', 'or', 'not', 'in', 'is']);
+
+// Names used in an expression, without literals and keywords
+export function variablesIn(expression: string): string[] {
+  const names = expression
+    .replace(/""/g, '')
+    .replace(/\b\d[\w.']*/g, '')
+    .match(/[A-Za-z_$][\w$]*/g) ?? [];
+  return [...new Set(names.filter(name => !NOT_VARIABLES.has(name)))];
+}
+
+// Nothing in it can depend on the input, e.g. `10` or `[1, 2, 3]`
+export const isLiteral = (expression: string) => variablesIn(expression).length === 0;
+
+const escape = (name: string) => name.replace(/\$/g, '\\$');
+// Divided, multiplied or shifted by a number: `i /= 2`, `i *= 2`, `i >>= 1`, `n //= 10`
+const SCALING_ASSIGNMENT = '(?:\\/\\/?|>>>?|\\*|<<)=\\s*\\d';
+const SCALING_OPERATOR = '(?:\\/\\/?|>>>?|\\*|<<)\\s*\\d';
+
+// A counted loop, `for (init; condition; update)`: the update decides whether the counter
+// scales or steps, and a condition that compares it with literals only means a fixed count.
+// Without an update the body moves the counter, as in a condition loop.
+export function counterBound(condition: string, update: string, body: string): LoopBound {
+  if (!update.trim()) return condition.trim() ? whileBound(condition, body) : 'linear';
+  if (new RegExp(SCALING_ASSIGNMENT).test(update) || new RegExp(`=\\s*[\\w$.]+\\s*${SCALING_OPERATOR}`).test(update)) {
+    return 'halving';
+  }
+  if (condition.trim() && variablesIn(condition).length <= 1 && /\d/.test(condition)) {
+    return 'constant';
+  }
+  return 'linear';
+}
+
+// A condition loop: logarithmic when the body scales a variable of the condition, or moves one
+// of its bounds to a midpoint as binary search does; otherwise assumed to run about n times
+export function whileBound(condition: string, body: string): LoopBound {
+  const variables = variablesIn(condition).map(escape);
+  for (const name of variables) {
+    const scaled = new RegExp(`\\b${name}\\s*${SCALING_ASSIGNMENT}`);
+    const reassigned = new RegExp(`\\b${name}\\s*=\\s*(?:[\\w$.]+\\()?\\s*${name}\\s*${SCALING_OPERATOR}`);
+    if (scaled.test(body) || reassigned.test(body)) return 'halving';
+  }
+
+  const midpoint = /([A-Za-z_$][\w$]*)\s*:?=\s*[^;\n=][^;\n]*?(?:\/\/?\s*2|>>>?\s*1)\b/.exec(body);
+  if (midpoint && variables.some(name => new RegExp(`\\b${name}\\s*=\\s*${escape(midpoint[1])}\\b`).test(body))) {
+    return 'halving';
+  }
+  return 'linear';
+}
+
+// Names and decorators that give away a cache of results
+export const looksMemoized = (source: string) =>
+  /@(?:functools\.)?(?:lru_)?cache\b|\b(?:memo|cache|dp)\w*/i.test(source);
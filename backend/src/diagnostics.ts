@@ -0,0 +1,329 @@
+import { basename } from 'path';
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+// A compiler message or runtime error pinned to a location in the submitted source
+export interface Diagnostic {
+  // Source file name as written to the work directory, e.g. "main.cpp" or "Main.java"
+  file: string;
+  // 1-based
+  line: number;
+  // 1-based. Absent when the tool only reports a line.
+  column?: number;
+  severity: DiagnosticSeverity;
+  message: string;
+  // Warning flag or exception type, e.g. "-Wunused-variable" or "ZeroDivisionError"
+  code?: string;
+}
+
+// Thrown for compile and runtime failures whose output could be mapped back to the source
+export class DiagnosticError extends Error {
+  constructor(message: string, public readonly diagnostics: Diagnostic[]) {
+    super(message);
+    this.name = 'DiagnosticError';
+  }
+}
+
+// The submitted source did not compile
+export class CompilationError extends DiagnosticError {
+  constructor(message: string, diagnostics: Diagnostic[]) {
+    super(message, diagnostics);
+    this.name = 'CompilationError';
+  }
+}
+
+const leadingWhitespace = (text: string) => text.length - text.trimStart().length;
+
+// Column pointed at by a `^`/`~` marker line printed under `printedLine`. Python re-indents the
+// quoted line, so the offset is mapped back onto the original line from the submitted source.
+function markerColumn(markerLine: string | undefined, printedLine: string, sourceLine: string = printedLine): number | undefined {
+  if (!markerLine || !/^\s*[~^]+[\s~^]*$/.test(markerLine)) return undefined;
+  const offset = markerLine.search(/[~^]/) - leadingWhitespace(printedLine);
+  return offset >= 0 ? offset + leadingWhitespace(sourceLine) + 1 : undefined;
+}
+
+// g++: `main.cpp:3:10: error: 'x' was not declared in this scope`, warnings end in their flag
+export function parseGccDiagnostics(stderr: string, sourceFile: string): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const pattern = /^(.+?):(\d+):(\d+): (fatal error|error|warning|note): (.*)$/gm;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(stderr)) !== null) {
+    if (basename(match[1]) !== sourceFile) continue;
+
+    const flag = match[5].match(/\s\[(-W[^\]]+)\]$/);
+    diagnostics.push({
+      file: sourceFile,
+      line: Number(match[2]),
+      column: Number(match[3]),
+      severity: match[4] === 'note' ? 'info' : match[4] === 'warning' ? 'warning' : 'error',
+      message: flag ? match[5].slice(0, flag.index) : match[5],
+      code: flag?.[1]
+    });
+  }
+  return diagnostics;
+}
+
+// javac: `Main.java:5: error: cannot find symbol`, then the source line, a caret line
+// and indented details such as `symbol:` and `location:`
+export function parseJavacDiagnostics(stderr: string, sourceFile: string): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const lines = stderr.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].match(/^(.+?\.java):(\d+): (error|warning): (.*)$/);
+    if (!match || basename(match[1]) !== sourceFile) continue;
+
+    const lint = match[4].match(/^\[(\w+)\]\s*/);
+    const details: string[] = [];
+    let column: number | undefined;
+
+    // Source line and caret, unless the message has no position within the line
+    const caret = markerColumn(lines[i + 2], lines[i + 1] ?? '');
+    if (caret !== undefined) {
+      column = caret;
+      for (let j = i + 3; j < lines.length && /^\s{2,}\S/.test(lines[j]); j++) {
+        details.push(lines[j].trim());
+      }
+    }
+
+    diagnostics.push({
+      file: sourceFile,
+      line: Number(match[2]),
+      column,
+      severity: match[3] === 'warning' ? 'warning' : 'error',
+      message: [lint ? match[4].slice(lint[0].length) : match[4], ...details].join('\n'),
+      code: lint?.[1]
+    });
+  }
+  return diagnostics;
+}
+
+// tsc with --pretty false: `main.ts(3,5): error TS2322: Type 'string' is not assignable...`,
+// with longer explanations continued on indented lines
+export function parseTscDiagnostics(output: string, sourceFile: string): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const lines = output.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].match(/^(.+?)\((\d+),(\d+)\): (error|warning|message) (TS\d+): (.*)$/);
+    if (!match || basename(match[1]) !== sourceFile) continue;
+
+    const details: string[] = [];
+    for (let j = i + 1; j < lines.length && /^\s+\S/.test(lines[j]); j++) {
+      details.push(lines[j].trim());
+    }
+
+    diagnostics.push({
+      file: sourceFile,
+      line: Number(match[2]),
+      column: Number(match[3]),
+      severity: match[4] === 'message' ? 'info' : match[4] === 'warning' ? 'warning' : 'error',
+      message: [match[6], ...details].join('\n'),
+      code: match[5]
+    });
+  }
+  return diagnostics;
+}
+
+// go build: `./main.go:3:14: x declared and not used`, sometimes without a column, with
+// details such as `have`/`want` on tab-indented lines. Go has no warnings.
+export function parseGoDiagnostics(output: string, sourceFile: string): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const lines = output.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].match(/^(.+?\.go):(\d+)(?::(\d+))?: (.*)$/);
+    if (!match || basename(match[1]) !== sourceFile) continue;
+
+    const details: string[] = [];
+    for (let j = i + 1; j < lines.length && /^\t\S/.test(lines[j]); j++) {
+      details.push(lines[j].trim());
+    }
+
+    diagnostics.push({
+      file: sourceFile,
+      line: Number(match[2]),
+      column: match[3] ? Number(match[3]) : undefined,
+      severity: 'error',
+      message: [match[4], ...details].join('\n')
+    });
+  }
+  return diagnostics;
+}
+
+// rustc with --error-format=short: `main.rs:1:25: error[E0308]: mismatched types: expected ...`
+export function parseRustcDiagnostics(output: string, sourceFile: string): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const pattern = /^(.+?):(\d+):(\d+): (error|warning|note|help)(?:\[(\w+)\])?: (.*)$/gm;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(output)) !== null) {
+    if (basename(match[1]) !== sourceFile) continue;
+
+    diagnostics.push({
+      file: sourceFile,
+      line: Number(match[2]),
+      column: Number(match[3]),
+      severity: match[4] === 'error' ? 'error' : match[4] === 'warning' ? 'warning' : 'info',
+      message: match[6],
+      code: match[5]
+    });
+  }
+  return diagnostics;
+}
+
+// Python tracebacks and syntax errors. The innermost frame in the submitted file is reported
+// with the exception from the last line.
+export function parsePythonTraceback(stderr: string, sourceFile: string, code: string): Diagnostic[] {
+  const lines = stderr.split(/\r?\n/);
+  const sourceLines = code.split(/\r?\n/);
+  let location: { index: number; line: number } | null = null;
+
+  lines.forEach((text, index) => {
+    const match = text.match(/^\s*File "(.+)", line (\d+)/);
+    if (match && basename(match[1]) === sourceFile) {
+      location = { index, line: Number(match[2]) };
+    }
+  });
+
+  const exception = [...lines].reverse().find(text => /^[A-Za-z_][\w.]*(?::\s|$)/.test(text));
+  if (!location || !exception) return [];
+
+  const { index, line } = location as { index: number; line: number };
+  const separator = exception.indexOf(': ');
+  const printedLine = lines[index + 1] ?? '';
+
+  return [{
+    file: sourceFile,
+    line,
+    column: markerColumn(lines[index + 2], printedLine, sourceLines[line - 1] ?? printedLine),
+    severity: 'error',
+    message: separator >= 0 ? exception.slice(separator + 2) : exception,
+    code: separator >= 0 ? exception.slice(0, separator) : exception
+  }];
+}
+
+// Uncaught Java exceptions: `Exception in thread "main" java.lang.X: message` followed by
+// `at Main.method(Main.java:12)` frames. The topmost frame in the submitted file is reported.
+export function parseJavaStackTrace(stderr: string, sourceFile: string): Diagnostic[] {
+  const exception = stderr.match(/^Exception in thread "[^"]*" ([\w.$]+)(?::\s(.*))?$/m);
+  if (!exception) return [];
+
+  const framePattern = /^\s+at .+\(([^():]+\.java):(\d+)\)$/gm;
+  let frame: RegExpExecArray | null;
+  while ((frame = framePattern.exec(stderr)) !== null) {
+    if (frame[1] === sourceFile) {
+      return [{
+        file: sourceFile,
+        line: Number(frame[2]),
+        severity: 'error',
+        message: exception[2] || exception[1],
+        code: exception[1]
+      }];
+    }
+  }
+  return [];
+}
+
+// Node: `/path/main.js:2` with the source line and a caret, then `TypeError: message` and
+// `at f (/path/main.js:2:8)` frames. Syntax errors only have the header and caret.
+export function parseNodeStackTrace(stderr: string, sourceFile: string): Diagnostic[] {
+  const lines = stderr.split(/\r?\n/);
+  const exceptionIndex = lines.findIndex(text => /^[A-Z]\w*(?: \[\w+\])?: /.test(text));
+  if (exceptionIndex < 0) return [];
+
+  const exception = lines[exceptionIndex];
+  const separator = exception.indexOf(': ');
+  const diagnostic = (line: number, column?: number): Diagnostic[] => [{
+    file: sourceFile,
+    line,
+    column,
+    severity: 'error',
+    message: exception.slice(separator + 2),
+    code: exception.slice(0, separator).replace(/ \[\w+\]$/, '')
+  }];
+
+  for (const text of lines.slice(exceptionIndex + 1)) {
+    const frame = text.match(/^\s+at (?:.* \()?(.+):(\d+):(\d+)\)?$/);
+    if (frame && basename(frame[1]) === sourceFile) {
+      return diagnostic(Number(frame[2]), Number(frame[3]));
+    }
+  }
+
+  const header = lines.findIndex(text => {
+    const match = text.match(/^(.+):(\d+)$/);
+    return match !== null && basename(match[1]) === sourceFile;
+  });
+  if (header >= 0 && header < exceptionIndex) {
+    return diagnostic(Number(lines[header].match(/:(\d+)$/)![1]), markerColumn(lines[header + 2], lines[header + 1] ?? ''));
+  }
+  return [];
+}
+
+// Go panics and fatal errors: `panic: runtime error: index out of range [5] with length 3`,
+// then goroutine traces with `\t/path/main.go:12 +0x1d` frames. The topmost frame in the
+// submitted file is reported.
+export function parseGoPanic(stderr: string, sourceFile: string): Diagnostic[] {
+  const failure = stderr.match(/^(panic|fatal error): (.*)$/m);
+  if (!failure) return [];
+
+  const framePattern = /^\s+(.+\.go):(\d+)(?: \+0x[0-9a-f]+)?$/gm;
+  framePattern.lastIndex = failure.index!;
+  let frame: RegExpExecArray | null;
+  while ((frame = framePattern.exec(stderr)) !== null) {
+    if (basename(frame[1]) === sourceFile) {
+      return [{
+        file: sourceFile,
+        line: Number(frame[2]),
+        severity: 'error',
+        message: failure[2].replace(/ \[recovered\]$/, ''),
+        code: failure[1]
+      }];
+    }
+  }
+  return [];
+}
+
+// Rust panics: `thread 'main' panicked at main.rs:4:5:` followed by the message, or
+// `thread 'main' panicked at 'message', main.rs:4:5` before Rust 1.73
+export function parseRustPanic(stderr: string, sourceFile: string): Diagnostic[] {
+  const current = stderr.match(/^thread '[^']*' panicked at (.+?):(\d+):(\d+):\r?\n(.*)$/m);
+  const legacy = stderr.match(/^thread '[^']*' panicked at '(.*)', (.+?):(\d+):(\d+)$/m);
+  const [file, line, column, message] = current
+    ? [current[1], current[2], current[3], current[4]]
+    : legacy
+      ? [legacy[2], legacy[3], legacy[4], legacy[1]]
+      : [];
+  if (!file || basename(file) !== sourceFile) return [];
+
+  return [{
+    file: sourceFile,
+    line: Number(line),
+    column: Number(column),
+    severity: 'error',
+    message: message!,
+    code: 'panic'
+  }];
+}
+
+// Failed statements from the SQL runner: `main.sql:12: SQLITE_ERROR: no such table: users`,
+// located at the line the statement starts on
+export function parseSqliteErrors(stderr: string, sourceFile: string): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const pattern = /^(.+?\.sql):(\d+): (\w+): (.*)$/gm;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(stderr)) !== null) {
+    if (basename(match[1]) !== sourceFile) continue;
+
+    diagnostics.push({
+      file: sourceFile,
+      line: Number(match[2]),
+      severity: 'error',
+      message: match[4],
+      code: match[3]
+    });
+  }
+  return diagnostics;
+}
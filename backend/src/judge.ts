@@ -0,0 +1,237 @@
+import { performance } from 'perf_hooks';
+import { LimitVerdict } from './sandbox';
+import { CheckResult, CheckerProgram, Comparison, ComparisonMode, DEFAULT_TOLERANCE } from './checkers';
+
+// Online-judge style checking: the compiled program is run once per test case with the case's
+// stdin, and its stdout is compared with the expected output as the suite's comparison says.
+
+// Accepted, Wrong Answer, Time Limit Exceeded, Memory Limit Exceeded, Runtime Error
+export type Verdict = 'AC' | 'WA' | 'TLE' | 'MLE' | 'RE';
+
+export interface TestCase {
+  name: string;
+  input: string;
+  expectedOutput: string;
+}
+
+export interface TestSuite {
+  tests: TestCase[];
+  // Per case, measured as CPU time when the usage runner is available
+  timeLimitMs: number;
+  comparison: Comparison;
+}
+
+export interface TestCaseResult {
+  name: string;
+  verdict: Verdict;
+  timeMs: number;
+  memoryMb: number;
+  output: string;
+  // Set when `output` was cut to MAX_ECHOED_OUTPUT characters
+  outputTruncated?: boolean;
+  errors?: string;
+  // Why the case did not pass, e.g. the first differing line or the exit code, or the checker's comment
+  message?: string;
+  // Interactive problems: what the program and the interactor said to each other
+  transcript?: TranscriptEntry[];
+  transcriptTruncated?: boolean;
+}
+
+export interface TranscriptEntry {
+  from: 'program' | 'interactor';
+  // One line, without its newline
+  text: string;
+  // When the line was complete, since both processes started
+  timeMs: number;
+}
+
+export const DEFAULT_TIME_LIMIT_MS = 2000;
+const MIN_TIME_LIMIT_MS = 100;
+const MAX_TIME_LIMIT_MS = 5000;
+const MAX_TESTS = 50;
+const MAX_CASE_TEXT = 64 * 1024;
+const MAX_CHECKER_SOURCE = 64 * 1024;
+const COMPARISON_MODES: ComparisonMode[] = ['lines', 'whitespace', 'tokens', 'float', 'unordered', 'checker', 'interactor'];
+// A chatty program could exchange millions of lines; the start of the dialogue is what explains a verdict
+const MAX_TRANSCRIPT_LINES = 1000;
+const MAX_TRANSCRIPT_LINE = 1000;
+// Enough to see what went wrong without 50 cases of megabyte outputs in one response
+const MAX_ECHOED_OUTPUT = 64 * 1024;
+
+// The request's test suite is malformed
+export class InvalidTestSuiteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidTestSuiteError';
+  }
+}
+
+const isTolerance = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+// Source of a checker or interactor from a request body
+function parseJudgeProgram(program: unknown, role: string): CheckerProgram {
+  const { language, code, settings } = (program ?? {}) as Record<string, unknown>;
+  if (typeof language !== 'string' || typeof code !== 'string' || !code.trim()) {
+    throw new InvalidTestSuiteError(`The ${role} needs a language and code`);
+  }
+  if (code.length > MAX_CHECKER_SOURCE) {
+    throw new InvalidTestSuiteError(`The ${role} is larger than ${MAX_CHECKER_SOURCE / 1024} KB`);
+  }
+  return { language, code, settings };
+}
+
+// Validate `comparison` from a request body; lines are compared as they are by default.
+// Whether the checker's language and settings exist is up to the caller, which knows the runtimes.
+function parseComparison(comparison: unknown): Comparison {
+  if (comparison === undefined || comparison === null) return { mode: 'lines' };
+
+  const { mode, absoluteTolerance = DEFAULT_TOLERANCE, relativeTolerance = DEFAULT_TOLERANCE, checker, interactor } =
+    (comparison ?? {}) as Record<string, unknown>;
+  if (!COMPARISON_MODES.includes(mode as ComparisonMode)) {
+    throw new InvalidTestSuiteError(`comparison.mode must be one of ${COMPARISON_MODES.join(', ')}`);
+  }
+
+  switch (mode) {
+    case 'float':
+      if (!isTolerance(absoluteTolerance) || !isTolerance(relativeTolerance)) {
+        throw new InvalidTestSuiteError('Tolerances must be non-negative numbers');
+      }
+      return { mode, absoluteTolerance, relativeTolerance };
+    case 'checker':
+      return { mode, checker: parseJudgeProgram(checker, 'checker') };
+    case 'interactor':
+      return { mode, interactor: parseJudgeProgram(interactor, 'interactor') };
+    default:
+      return { mode: mode as Exclude<ComparisonMode, 'float' | 'checker' | 'interactor'> };
+  }
+}
+
+// Validate `tests`, `timeLimitMs` and `comparison` from a request body
+export function parseTestSuite(tests: unknown, timeLimitMs: unknown, comparison?: unknown): TestSuite {
+  if (!Array.isArray(tests) || tests.length === 0) {
+    throw new InvalidTestSuiteError('At least one test case is required');
+  }
+  if (tests.length > MAX_TESTS) {
+    throw new InvalidTestSuiteError(`At most ${MAX_TESTS} test cases are allowed`);
+  }
+  if (timeLimitMs !== undefined && (
+    typeof timeLimitMs !== 'number' || !Number.isInteger(timeLimitMs) ||
+    timeLimitMs < MIN_TIME_LIMIT_MS || timeLimitMs > MAX_TIME_LIMIT_MS
+  )) {
+    throw new InvalidTestSuiteError(`timeLimitMs must be a whole number between ${MIN_TIME_LIMIT_MS} and ${MAX_TIME_LIMIT_MS}`);
+  }
+
+  return {
+    tests: tests.map((test, index) => {
+      const { name, input = '', expectedOutput } = (test ?? {}) as Record<string, unknown>;
+      if (typeof input !== 'string' || typeof expectedOutput !== 'string') {
+        throw new InvalidTestSuiteError(`Test ${index + 1} needs a string input and expectedOutput`);
+      }
+      if (input.length > MAX_CASE_TEXT || expectedOutput.length > MAX_CASE_TEXT) {
+        throw new InvalidTestSuiteError(`Test ${index + 1} is larger than ${MAX_CASE_TEXT / 1024} KB`);
+      }
+      return {
+        name: typeof name === 'string' && name.trim() ? name.trim() : `Test ${index + 1}`,
+        input,
+        expectedOutput
+      };
+    }),
+    timeLimitMs: (timeLimitMs as number | undefined) ?? DEFAULT_TIME_LIMIT_MS,
+    comparison: parseComparison(comparison)
+  };
+}
+
+// What the judge needs to know about one run of the program
+export interface CaseRun {
+  output: string;
+  errors: string;
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  // CPU time if measured, otherwise wall time
+  timeMs: number;
+  memoryMb: number;
+  limitVerdict: LimitVerdict | null;
+}
+
+// Compares a finished run's output with the test's expected output
+export type OutputCheck = (test: TestCase, output: string) => Promise<CheckResult>;
+
+// Limits and crashes decide the verdict first; only a clean exit gets its output checked.
+// With `checkFirst` a rejection wins over them: an interactor that hung up on the program
+// explains whatever the program did next, such as crashing on the closed input.
+export async function judgeCase(
+  test: TestCase,
+  run: CaseRun,
+  timeLimitMs: number,
+  check: OutputCheck,
+  { checkFirst = false }: { checkFirst?: boolean } = {}
+): Promise<TestCaseResult> {
+  const result: TestCaseResult = {
+    name: test.name,
+    verdict: 'AC',
+    timeMs: Math.round(run.timeMs),
+    memoryMb: run.memoryMb,
+    output: run.output.slice(0, MAX_ECHOED_OUTPUT),
+    outputTruncated: run.output.length > MAX_ECHOED_OUTPUT || undefined,
+    errors: run.errors.slice(0, MAX_ECHOED_OUTPUT) || undefined
+  };
+
+  const early = checkFirst ? await check(test, run.output) : null;
+  if (early && !early.accepted) {
+    return { ...result, verdict: 'WA', message: early.message };
+  }
+
+  if (run.limitVerdict === 'time_limit' || run.timeMs > timeLimitMs) {
+    return { ...result, verdict: 'TLE', message: `Exceeded the ${timeLimitMs} ms time limit` };
+  }
+  if (run.limitVerdict === 'memory_limit') {
+    return { ...result, verdict: 'MLE', message: 'Exceeded the memory limit' };
+  }
+  if (run.limitVerdict) {
+    return { ...result, verdict: 'RE', message: `Stopped by the ${run.limitVerdict.replace(/_/g, ' ')}` };
+  }
+  if (run.exitCode !== 0 || run.signal) {
+    return { ...result, verdict: 'RE', message: run.signal ? `Killed by ${run.signal}` : `Exited with code ${run.exitCode}` };
+  }
+
+  const { accepted, message } = early ?? await check(test, run.output);
+  return { ...result, verdict: accepted ? 'AC' : 'WA', message };
+}
+
+// Collects what the program and the interactor say to each other, split into lines. Chunks can
+// end mid-line, so each side's unfinished line waits for the rest.
+export function recordTranscript() {
+  const startedAt = performance.now();
+  const entries: TranscriptEntry[] = [];
+  const pending = { program: '', interactor: '' };
+  let truncated = false;
+
+  const push = (from: TranscriptEntry['from'], text: string) => {
+    if (entries.length >= MAX_TRANSCRIPT_LINES) {
+      truncated = true;
+      return;
+    }
+    entries.push({
+      from,
+      text: text.length > MAX_TRANSCRIPT_LINE ? `${text.slice(0, MAX_TRANSCRIPT_LINE)}…` : text,
+      timeMs: Math.round(performance.now() - startedAt)
+    });
+  };
+
+  return {
+    write(from: TranscriptEntry['from'], chunk: string) {
+      const lines = (pending[from] + chunk).split(/\r?\n/);
+      pending[from] = lines.pop()!;
+      lines.forEach(line => push(from, line));
+    },
+    // Keeps lines left without a newline when the processes exited
+    finish(): { transcript: TranscriptEntry[]; transcriptTruncated?: boolean } {
+      for (const from of ['program', 'interactor'] as const) {
+        if (pending[from]) push(from, pending[from]);
+        pending[from] = '';
+      }
+      return { transcript: entries, transcriptTruncated: truncated || undefined };
+    }
+  };
+}
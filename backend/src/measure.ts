@@ -0,0 +1,275 @@
+import { spawn, ChildProcess } from 'child_process';
+import { mkdir, readFile, readdir, writeFile } from 'fs/promises';
+import { constants } from 'os';
+import { join } from 'path';
+
+// Resource usage of a finished program, as reported by wait4()
+export interface ProcessUsage {
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  wallTimeMs: number;
+  cpuTimeMs: number;
+  peakMemoryKb: number;
+}
+
+// One point of the memory-over-time series
+export interface MemorySample {
+  time: number;   // seconds since the program started
+  memory: number; // resident set size in MB
+}
+
+// Tiny fork/exec/wait4 shim. It runs the program as its child and writes the child's
+// wall time, CPU time and peak RSS as JSON to fd 3, then exits the same way the child did.
+const RUNNER_SOURCE = `
+#define _GNU_SOURCE
+#include <errno.h>
+#include <fcntl.h>
+#include <signal.h>
+#include <stdio.h>
+#include <time.h>
+#include <unistd.h>
+#include <sys/resource.h>
+#include <sys/wait.h>
+
+int main(int argc, char **argv) {
+  if (argc < 2) {
+    fprintf(stderr, "usage: %s command [args...]\\n", argv[0]);
+    return 127;
+  }
+  fcntl(3, F_SETFD, FD_CLOEXEC);
+
+  struct timespec start, end;
+  clock_gettime(CLOCK_MONOTONIC, &start);
+
+  pid_t pid = fork();
+  if (pid < 0) {
+    perror("fork");
+    return 127;
+  }
+  if (pid == 0) {
+    execvp(argv[1], argv + 1);
+    perror(argv[1]);
+    _exit(127);
+  }
+
+  int status;
+  struct rusage usage;
+  while (wait4(pid, &status, 0, &usage) < 0) {
+    if (errno != EINTR) {
+      perror("wait4");
+      return 127;
+    }
+  }
+  clock_gettime(CLOCK_MONOTONIC, &end);
+
+  double wall = (end.tv_sec - start.tv_sec) * 1e3 + (end.tv_nsec - start.tv_nsec) / 1e6;
+  double cpu = (usage.ru_utime.tv_sec + usage.ru_stime.tv_sec) * 1e3
+    + (usage.ru_utime.tv_usec + usage.ru_stime.tv_usec) / 1e3;
+  dprintf(3, "{\\"exitCode\\":%d,\\"signal\\":%d,\\"wallTimeMs\\":%.3f,\\"cpuTimeMs\\":%.3f,\\"peakMemoryKb\\":%ld}\\n",
+    WIFEXITED(status) ? WEXITSTATUS(status) : -1,
+    WIFSIGNALED(status) ? WTERMSIG(status) : 0,
+    wall, cpu, usage.ru_maxrss);
+
+  if (WIFSIGNALED(status)) {
+    signal(WTERMSIG(status), SIG_DFL);
+    kill(getpid(), WTERMSIG(status));
+    return 128 + WTERMSIG(status);
+  }
+  return WEXITSTATUS(status);
+}
+`;
+
+// Kept outside the OS temp dir so the sandbox's private /tmp does not hide it
+const TOOLS_DIR = join(__dirname, '..', '.tools');
+const RUNNER_NAME = 'cs-run';
+// How often the memory-over-time series is sampled at first
+const SAMPLE_INTERVAL_MS = 50;
+// Most points kept in the series. Past that every other point is dropped and the interval
+// doubles, so long runs keep an even series and rescan /proc less and less often.
+const MAX_SAMPLES = 500;
+
+let runnerPath: string | null = null;
+let build: Promise<string | null> | null = null;
+
+// Compile the usage runner once. Without a C compiler (or off Linux) programs still run,
+// and memory falls back to sampling /proc.
+export function initMeasurement(): Promise<string | null> {
+  if (!build) {
+    build = (async () => {
+      if (process.platform !== 'linux') return null;
+
+      try {
+        await mkdir(TOOLS_DIR, { recursive: true });
+        const sourcePath = join(TOOLS_DIR, `${RUNNER_NAME}.c`);
+        const binaryPath = join(TOOLS_DIR, RUNNER_NAME);
+        await writeFile(sourcePath, RUNNER_SOURCE);
+
+        const compiled = await new Promise<boolean>((resolve) => {
+          const cc = spawn('cc', ['-O2', '-o', binaryPath, sourcePath], { stdio: 'ignore' });
+          cc.on('error', () => resolve(false));
+          cc.on('close', (code) => resolve(code === 0));
+        });
+
+        if (!compiled) {
+          console.warn('Measurement: could not build the usage runner, falling back to /proc sampling');
+          return null;
+        }
+        runnerPath = binaryPath;
+        return runnerPath;
+      } catch (error) {
+        console.warn('Measurement: could not build the usage runner:', error);
+        return null;
+      }
+    })();
+  }
+  return build;
+}
+
+// Prefix a command with the usage runner. The caller must give the child a 4th stdio pipe.
+export function withUsageReport(command: string, args: string[]): { command: string; args: string[]; measured: boolean } {
+  if (!runnerPath) {
+    return { command, args, measured: false };
+  }
+  return { command: runnerPath, args: [command, ...args], measured: true };
+}
+
+const signalNames = new Map<number, NodeJS.Signals>(
+  Object.entries(constants.signals).map(([name, number]) => [number, name as NodeJS.Signals])
+);
+
+// Collect the JSON report the runner writes to fd 3. Resolves to null when the runner
+// was killed before it could report (abort, timeout, output limit).
+export function readUsageReport(child: ChildProcess): Promise<ProcessUsage | null> {
+  const reportStream = child.stdio[3] as NodeJS.ReadableStream | undefined;
+  if (!reportStream) {
+    return Promise.resolve(null);
+  }
+
+  return new Promise((resolve) => {
+    let report = '';
+    reportStream.on('data', (data: Buffer) => {
+      report += data.toString();
+    });
+    reportStream.on('error', () => resolve(null));
+    reportStream.on('end', () => {
+      try {
+        const parsed = JSON.parse(report);
+        resolve({
+          exitCode: parsed.exitCode >= 0 ? parsed.exitCode : null,
+          signal: parsed.signal ? signalNames.get(parsed.signal) ?? null : null,
+          wallTimeMs: parsed.wallTimeMs,
+          cpuTimeMs: parsed.cpuTimeMs,
+          peakMemoryKb: parsed.peakMemoryKb
+        });
+      } catch {
+        resolve(null);
+      }
+    });
+  });
+}
+
+// The kernel keeps the first 15 characters of a process name in /proc/<pid>/status
+const PROCESS_NAME_LENGTH = 15;
+// Sandbox and measurement wrappers are not part of the program's footprint
+const WRAPPER_NAMES = new Set(['bwrap', 'prlimit', RUNNER_NAME].map(name => name.slice(0, PROCESS_NAME_LENGTH)));
+
+// Whether a process, by its name in /proc, is one of the wrappers rather than the program
+export const isWrapperProcess = (name: string) => WRAPPER_NAMES.has(name.slice(0, PROCESS_NAME_LENGTH));
+
+interface ProcStatus {
+  name: string;
+  rssKb: number;
+  hwmKb: number;
+}
+
+async function readProcStatus(pid: number): Promise<ProcStatus | null> {
+  try {
+    const status = await readFile(`/proc/${pid}/status`, 'utf8');
+    const field = (key: string) => Number(status.match(new RegExp(`^${key}:\\s+(\\d+)`, 'm'))?.[1] ?? 0);
+    return {
+      name: status.match(/^Name:\s+(.*)$/m)?.[1] ?? '',
+      rssKb: field('VmRSS'),
+      hwmKb: field('VmHWM')
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Direct children of a process, from the children list of each of its threads
+async function listChildren(pid: number): Promise<number[]> {
+  const tasks = await readdir(`/proc/${pid}/task`).catch(() => [] as string[]);
+  const lists = await Promise.all(tasks.map(task =>
+    readFile(`/proc/${pid}/task/${task}/children`, 'utf8').catch(() => '')));
+  return lists.flatMap(list => list.split(' ').filter(Boolean).map(Number));
+}
+
+// PIDs of `rootPid` and all of its descendants
+async function listProcessTree(rootPid: number): Promise<number[]> {
+  const tree: number[] = [];
+  let level = [rootPid];
+  while (level.length) {
+    tree.push(...level);
+    level = (await Promise.all(level.map(listChildren))).flat();
+  }
+  return tree;
+}
+
+export interface MemorySampler {
+  // Stop sampling and return the series collected so far
+  stop(): MemorySample[];
+  // Highest footprint seen, in MB. Only a fallback for when the runner could not report.
+  peakMb(): number;
+}
+
+// Periodically sample the resident memory of a running program's process tree from /proc
+export function startMemorySampler(child: ChildProcess): MemorySampler {
+  const samples: MemorySample[] = [];
+  const startedAt = Date.now();
+  let peakKb = 0;
+  let stopped = false;
+  let timer: NodeJS.Timeout | null = null;
+  let interval = SAMPLE_INTERVAL_MS;
+
+  const sample = async () => {
+    if (stopped || child.pid === undefined) return;
+
+    const tree = await listProcessTree(child.pid);
+    const statuses = (await Promise.all(tree.map(readProcStatus)))
+      .filter((status): status is ProcStatus => status !== null && !isWrapperProcess(status.name));
+
+    if (!stopped && statuses.length) {
+      const rssKb = statuses.reduce((sum, status) => sum + status.rssKb, 0);
+      const hwmKb = statuses.reduce((sum, status) => sum + status.hwmKb, 0);
+      peakKb = Math.max(peakKb, rssKb, hwmKb);
+      samples.push({
+        time: (Date.now() - startedAt) / 1000,
+        memory: Math.round(rssKb / 1024 * 100) / 100
+      });
+      if (samples.length >= MAX_SAMPLES) {
+        const kept = samples.filter((_, index) => index % 2 === 0);
+        samples.splice(0, samples.length, ...kept);
+        interval *= 2;
+      }
+    }
+
+    if (!stopped) {
+      timer = setTimeout(sample, interval);
+    }
+  };
+
+  if (process.platform === 'linux') {
+    sample();
+  }
+
+  return {
+    stop() {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      return samples;
+    },
+    peakMb() {
+      return Math.round(peakKb / 1024 * 100) / 100;
+    }
+  };
+}
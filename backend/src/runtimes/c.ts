@@ -0,0 +1,92 @@
+import { writeFile } from 'fs/promises';
+import { join } from 'path';
+import { parseBraceLanguage } from '../complexity';
+import { parseGccDiagnostics } from '../diagnostics';
+import { parseSanitizerReports } from '../sanitizers';
+import { gccFlags, gccRun, gccSettings, standardSetting } from './gcc';
+import { LanguageRuntime } from './types';
+
+const EXECUTABLE_NAME = process.platform === 'win32' ? 'main.exe' : 'main';
+
+const c: LanguageRuntime = {
+  id: 'c',
+  displayName: 'C',
+  icon: 'C',
+  monacoLanguage: 'c',
+  fileExtension: 'c',
+  example: `#include <stdio.h>
+#include <stdlib.h>
+
+// Compare two integers for qsort
+int compare(const void *a, const void *b) {
+    int x = *(const int *)a;
+    int y = *(const int *)b;
+    return (x > y) - (x < y);
+}
+
+// Binary search in a sorted array, returns the index or -1
+int binarySearch(const int *arr, int size, int target) {
+    int low = 0;
+    int high = size - 1;
+
+    while (low <= high) {
+        int mid = low + (high - low) / 2;
+        if (arr[mid] == target) {
+            return mid;
+        } else if (arr[mid] < target) {
+            low = mid + 1;
+        } else {
+            high = mid - 1;
+        }
+    }
+    return -1;
+}
+
+void printArray(const int *arr, int size) {
+    for (int i = 0; i < size; i++) {
+        printf("%d ", arr[i]);
+    }
+    printf("\\n");
+}
+
+int main(void) {
+    int arr[] = {3, 6, 8, 2, 1, 0, 5, 7, 4, 9};
+    int size = sizeof(arr) / sizeof(arr[0]);
+
+    printf("Original array: ");
+    printArray(arr, size);
+
+    qsort(arr, size, sizeof(int), compare);
+
+    printf("Sorted array: ");
+    printArray(arr, size);
+
+    printf("Index of 7: %d\\n", binarySearch(arr, size, 7));
+    return 0;
+}`,
+
+  interactive: true,
+  settings: gccSettings(standardSetting(['c99', 'c11', 'c17'], 'c17')),
+  versionProbe: { command: 'gcc', args: ['--version'] },
+  missingToolchainMessage: 'C compiler (gcc) is not installed. Please install gcc to run C code.',
+
+  async prepare(code, workDir) {
+    await writeFile(join(workDir, 'main.c'), code);
+    return { sourceFile: 'main.c' };
+  },
+
+  compile(source, settings) {
+    // Link libm so <math.h> functions work without asking for -lm
+    return { command: 'gcc', args: [source.sourceFile, '-o', EXECUTABLE_NAME, ...gccFlags(settings), '-lm'] };
+  },
+
+  run(_source, workDir, settings, interactive) {
+    return gccRun(EXECUTABLE_NAME, workDir, settings, interactive);
+  },
+
+  parseCompileDiagnostics: parseGccDiagnostics,
+  parseSanitizerReports,
+  parseProgramStructure: code => parseBraceLanguage(code, 'c')
+};
+
+export default c;
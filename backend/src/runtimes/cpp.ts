@@ -0,0 +1,94 @@
+import { writeFile } from 'fs/promises';
+import { join } from 'path';
+import { parseBraceLanguage } from '../complexity';
+import { parseGccDiagnostics } from '../diagnostics';
+import { parseSanitizerReports } from '../sanitizers';
+import { gccFlags, gccRun, gccSettings, standardSetting } from './gcc';
+import { LanguageRuntime } from './types';
+
+const EXECUTABLE_NAME = process.platform === 'win32' ? 'main.exe' : 'main';
+
+const cpp: LanguageRuntime = {
+  id: 'cpp',
+  displayName: 'C++',
+  icon: 'C++',
+  monacoLanguage: 'cpp',
+  fileExtension: 'cpp',
+  example: `#include <iostream>
+#include <vector>
+
+// Function declarations
+void printArray(const std::vector<int>& arr);
+int partition(std::vector<int>& arr, int low, int high);
+void quickSort(std::vector<int>& arr, int low, int high);
+
+// Function to print array
+void printArray(const std::vector<int>& arr) {
+    for (int num : arr) {
+        std::cout << num << " ";
+    }
+    std::cout << std::endl;
+}
+
+// Function to partition array for quicksort
+int partition(std::vector<int>& arr, int low, int high) {
+    int pivot = arr[high];
+    int i = low - 1;
+    
+    for (int j = low; j < high; j++) {
+        if (arr[j] <= pivot) {
+            i++;
+            std::swap(arr[i], arr[j]);
+        }
+    }
+    
+    std::swap(arr[i + 1], arr[high]);
+    return i + 1;
+}
+
+// Quicksort function
+void quickSort(std::vector<int>& arr, int low, int high) {
+    if (low < high) {
+        int pi = partition(arr, low, high);
+        quickSort(arr, low, pi - 1);
+        quickSort(arr, pi + 1, high);
+    }
+}
+
+int main() {
+    std::vector<int> arr = {3, 6, 8, 2, 1, 0, 5, 7, 4, 9};
+    std::cout << "Original array: ";
+    printArray(arr);
+    
+    quickSort(arr, 0, arr.size() - 1);
+    
+    std::cout << "Sorted array: ";
+    printArray(arr);
+    
+    return 0;
+}`,
+
+  interactive: true,
+  settings: gccSettings(standardSetting(['c++11', 'c++14', 'c++17', 'c++20', 'c++23'], 'c++17')),
+  versionProbe: { command: 'g++', args: ['--version'] },
+  missingToolchainMessage: 'C++ compiler (g++) is not installed. Please install g++ to run C++ code.',
+
+  async prepare(code, workDir) {
+    await writeFile(join(workDir, 'main.cpp'), code);
+    return { sourceFile: 'main.cpp' };
+  },
+
+  compile(source, settings) {
+    return { command: 'g++', args: [source.sourceFile, '-o', EXECUTABLE_NAME, ...gccFlags(settings)] };
+  },
+
+  run(_source, workDir, settings, interactive) {
+    return gccRun(EXECUTABLE_NAME, workDir, settings, interactive);
+  },
+
+  parseCompileDiagnostics: parseGccDiagnostics,
+  parseSanitizerReports,
+  parseProgramStructure: code => parseBraceLanguage(code, 'cpp')
+};
+
+export default cpp;
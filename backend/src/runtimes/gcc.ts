@@ -0,0 +1,118 @@
+import { spawnSync } from 'child_process';
+import { join } from 'path';
+import { RUN_LIMITS } from '../sandbox';
+import { ChoiceSetting, FlagSetting, ListSetting, RuntimeSetting, RuntimeSettings } from './settings';
+import { RunCommand } from './types';
+
+// Settings shared by the GCC-based runtimes, C and C++
+
+export function standardSetting(standards: string[], defaultStandard: string): ChoiceSetting {
+  return {
+    id: 'standard',
+    label: 'Language standard',
+    type: 'choice',
+    choices: standards.map(standard => ({ value: standard, label: standard.toUpperCase() })),
+    default: defaultStandard
+  };
+}
+
+const optimization: ChoiceSetting = {
+  id: 'optimization',
+  label: 'Optimization',
+  type: 'choice',
+  choices: [
+    { value: '-O0', label: 'None (-O0)' },
+    { value: '-O1', label: 'Basic (-O1)' },
+    { value: '-O2', label: 'Standard (-O2)' },
+    { value: '-O3', label: 'Aggressive (-O3)' },
+    { value: '-Os', label: 'Size (-Os)' }
+  ],
+  default: '-O2'
+};
+
+const extraWarnings: FlagSetting = {
+  id: 'extraWarnings',
+  label: 'Extra warnings',
+  description: '-Wextra -Wpedantic on top of -Wall',
+  type: 'flag',
+  default: false
+};
+
+const defines: ListSetting = {
+  id: 'defines',
+  label: 'Defines',
+  description: 'Preprocessor macros, passed as -D',
+  type: 'list',
+  // A macro name, optionally with a simple value; nothing that could read as another flag
+  pattern: /^[A-Za-z_][A-Za-z0-9_]*(?:=[A-Za-z0-9_.+-]*)?$/,
+  maxItems: 16,
+  placeholder: 'DEBUG, N=100',
+  default: []
+};
+
+const sanitizers: FlagSetting = {
+  id: 'sanitizers',
+  label: 'Sanitizers',
+  description: 'AddressSanitizer, UndefinedBehaviorSanitizer and LeakSanitizer. Runs slower and uses more memory.',
+  type: 'flag',
+  default: false
+};
+
+export function gccSettings(standard: ChoiceSetting): RuntimeSetting[] {
+  return [standard, optimization, extraWarnings, defines, sanitizers];
+}
+
+// ASan reserves terabytes of shadow address space at startup, so RLIMIT_AS is lifted and
+// the sanitizer runtime enforces the memory budget itself: over the soft limit allocations
+// fail with a report, the hard limit is a backstop for memory not allocated through malloc.
+const SANITIZER_MEMORY_MB = RUN_LIMITS.memoryBytes! / 1024 / 1024;
+const SANITIZER_RUN_LIMITS = { ...RUN_LIMITS, memoryBytes: null };
+const SANITIZER_ENV = {
+  ASAN_OPTIONS: [
+    'detect_leaks=1',
+    'print_legend=0',
+    'allocator_may_return_null=0',
+    `soft_rss_limit_mb=${SANITIZER_MEMORY_MB}`,
+    `hard_rss_limit_mb=${SANITIZER_MEMORY_MB * 2}`
+  ].join(':'),
+  UBSAN_OPTIONS: 'print_stacktrace=1'
+};
+
+// Over the soft limit the sanitizer reports the failed allocation; past the hard one it reports
+// the exhausted limit and exits
+const SANITIZER_OUT_OF_MEMORY = /AddressSanitizer: (?:specified RSS limit exceeded|hard rss limit exhausted|out of memory)/;
+// Without sanitizers only C++ reports a failed allocation, through operator new
+const BAD_ALLOC = /instance of 'std::bad_alloc'/;
+
+export function gccFlags(settings: RuntimeSettings): string[] {
+  return [
+    `-std=${settings.standard}`,
+    settings.optimization as string,
+    '-Wall',
+    ...(settings.extraWarnings ? ['-Wextra', '-Wpedantic'] : []),
+    ...(settings.defines as string[]).map(define => `-D${define}`),
+    // Debug info so reports name source lines
+    ...(settings.sanitizers ? ['-fsanitize=address,undefined', '-fno-omit-frame-pointer', '-g'] : [])
+  ];
+}
+
+let stdbufAvailable: boolean | undefined;
+
+// coreutils stdbuf, looked up once
+function hasStdbuf(): boolean {
+  stdbufAvailable ??= spawnSync('stdbuf', ['--version'], { stdio: 'ignore' }).status === 0;
+  return stdbufAvailable;
+}
+
+export function gccRun(executable: string, workDir: string, settings: RuntimeSettings, interactive: boolean): RunCommand {
+  const command = join(workDir, executable);
+  if (settings.sanitizers) {
+    return { command, args: [], env: SANITIZER_ENV, limits: SANITIZER_RUN_LIMITS, outOfMemoryReport: SANITIZER_OUT_OF_MEMORY };
+  }
+  // stdout to a pipe is block-buffered, so a prompt printed before reading input would only
+  // show up later; stdbuf makes it unbuffered. Sanitizer runs go without: ASan refuses to start
+  // behind the library stdbuf preloads.
+  return interactive && hasStdbuf()
+    ? { command: 'stdbuf', args: ['-o0', command], limits: RUN_LIMITS, outOfMemoryReport: BAD_ALLOC }
+    : { command, args: [], limits: RUN_LIMITS, outOfMemoryReport: BAD_ALLOC };
+}
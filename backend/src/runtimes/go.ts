@@ -0,0 +1,140 @@
+import { spawn } from 'child_process';
+import { cp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parseBraceLanguage } from '../complexity';
+import { parseGoDiagnostics, parseGoPanic } from '../diagnostics';
+import { RUN_LIMITS, SandboxLimits } from '../sandbox';
+import { LanguageRuntime } from './types';
+
+const EXECUTABLE_NAME = process.platform === 'win32' ? 'main.exe' : 'main';
+
+// Compiled standard library packages, built once by the server. A cold cache costs several
+// seconds per build, so each build starts from a copy of this one in its own work directory:
+// whatever a submission's build writes into its cache never reaches another submission.
+const GO_CACHE_DIR = join(tmpdir(), 'go-build-compilesense');
+const BUILD_CACHE_NAME = 'gocache';
+// What most submissions import; anything else is compiled into the build's own copy
+const WARM_PACKAGES = [
+  'fmt', 'bufio', 'os', 'io', 'sort', 'strings', 'strconv', 'bytes', 'errors', 'math', 'math/rand',
+  'math/big', 'container/heap', 'container/list', 'unicode', 'sync', 'time'
+];
+
+let warmUp: Promise<void> | null = null;
+
+// Fill the shared cache once, starting from scratch so it holds nothing an earlier server let a
+// submission write. Only standard library sources go into it, so it is built outside the
+// sandbox; a failed warm-up just leaves builds to start from a colder cache.
+function warmBuildCache(): Promise<void> {
+  if (!warmUp) {
+    warmUp = (async () => {
+      await rm(GO_CACHE_DIR, { recursive: true, force: true }).catch(() => {});
+      await new Promise<void>((resolve) => {
+        const child = spawn('go', ['build', ...WARM_PACKAGES], {
+          env: { ...process.env, GOCACHE: GO_CACHE_DIR },
+          stdio: 'ignore'
+        });
+        child.on('error', () => resolve());
+        child.on('close', () => resolve());
+      });
+    })();
+  }
+  return warmUp;
+}
+
+// Before the program allocates anything the Go runtime reserves about 640 MB of address
+// space for its allocator, so RLIMIT_AS is raised by that much to leave the usual budget
+const GO_RUNTIME_RESERVATION_BYTES = 640 * 1024 * 1024;
+const GO_RUN_LIMITS: SandboxLimits = {
+  ...RUN_LIMITS,
+  memoryBytes: RUN_LIMITS.memoryBytes! + GO_RUNTIME_RESERVATION_BYTES
+};
+
+const go: LanguageRuntime = {
+  id: 'go',
+  displayName: 'Go',
+  icon: 'Go',
+  monacoLanguage: 'go',
+  fileExtension: 'go',
+  example: `package main
+
+import (
+	"fmt"
+	"strings"
+)
+
+// Count how often each word appears
+func wordFrequencies(text string) map[string]int {
+	counts := make(map[string]int)
+	for _, word := range strings.Fields(strings.ToLower(text)) {
+		counts[strings.Trim(word, ".,!?")]++
+	}
+	return counts
+}
+
+// Fibonacci numbers computed with a channel
+func fibonacci(n int) <-chan int {
+	ch := make(chan int)
+	go func() {
+		a, b := 0, 1
+		for i := 0; i < n; i++ {
+			ch <- a
+			a, b = b, a+b
+		}
+		close(ch)
+	}()
+	return ch
+}
+
+func main() {
+	text := "The quick brown fox jumps over the lazy dog. The dog sleeps."
+	counts := wordFrequencies(text)
+	fmt.Println("Occurrences of \\"the\\":", counts["the"])
+	fmt.Println("Occurrences of \\"dog\\":", counts["dog"])
+
+	fmt.Print("First 10 Fibonacci numbers: ")
+	for value := range fibonacci(10) {
+		fmt.Print(value, " ")
+	}
+	fmt.Println()
+}`,
+
+  interactive: true,
+  versionProbe: { command: 'go', args: ['version'] },
+  missingToolchainMessage: 'Go is not installed. Please install Go to run Go code.',
+
+  async prepare(code, workDir) {
+    await warmBuildCache();
+    // Without a shared cache to copy, go starts an empty one
+    await cp(GO_CACHE_DIR, join(workDir, BUILD_CACHE_NAME), { recursive: true }).catch(() => {});
+    await writeFile(join(workDir, 'main.go'), code);
+    return { sourceFile: 'main.go' };
+  },
+
+  compile(source, _settings, workDir) {
+    return {
+      command: 'go',
+      args: ['build', '-o', EXECUTABLE_NAME, source.sourceFile],
+      env: { GOCACHE: join(workDir, BUILD_CACHE_NAME) }
+    };
+  },
+
+  run(_source, workDir) {
+    // GOMEMLIMIT makes the garbage collector work harder as the heap nears the budget,
+    // rather than growing into the hard limit
+    return {
+      command: join(workDir, EXECUTABLE_NAME),
+      args: [],
+      env: { GOMEMLIMIT: `${RUN_LIMITS.memoryBytes! / 1024 / 1024}MiB` },
+      limits: GO_RUN_LIMITS,
+      // Older releases say "fatal error: runtime: out of memory"
+      outOfMemoryReport: /^fatal error: (?:runtime: )?out of memory/m
+    };
+  },
+
+  parseCompileDiagnostics: parseGoDiagnostics,
+  parseRuntimeDiagnostics: parseGoPanic,
+  parseProgramStructure: code => parseBraceLanguage(code, 'go')
+};
+
+export default go;
@@ -0,0 +1,175 @@
+import { spawn } from 'child_process';
+import c from './c';
+import cpp from './cpp';
+import go from './go';
+import java from './java';
+import javascript from './javascript';
+import python from './python';
+import rust from './rust';
+import sql from './sql';
+import typescript from './typescript';
+import { ChoiceSetting, RuntimeSetting, RuntimeSettings, SettingChoice, resolveSettings } from './settings';
+import { CommandLine, LanguageRuntime } from './types';
+
+export type { CommandLine, LanguageRuntime, PreparedSource, QueryResult, RunCommand } from './types';
+export type { RuntimeSettings } from './settings';
+export { InvalidSettingsError } from './settings';
+
+// Result of running a runtime's version probe
+export interface ToolchainStatus {
+  available: boolean;
+  // First line the probe printed, e.g. "g++ (GCC) 13.2.0"
+  version: string | null;
+}
+
+// Execution options a runtime supports, so the UI can hide what does not apply
+export interface RuntimeOptions {
+  // Has a compile step, reported as the `compiling` phase and `compileTime`
+  compiled: boolean;
+  // Accepts `interactive: true` requests
+  interactive: boolean;
+  // Crashes are mapped back to a line of the source
+  runtimeDiagnostics: boolean;
+  // Can grade test outputs as a custom checker
+  checker: boolean;
+}
+
+// A runtime setting as sent to the frontend: probes stripped, unavailable choices left out,
+// and list patterns as regular expression source
+export type SettingInfo =
+  | Exclude<RuntimeSetting, { type: 'list' }>
+  | (Omit<Extract<RuntimeSetting, { type: 'list' }>, 'pattern'> & { pattern: string });
+
+// What the frontend needs to offer a language: picker entry, highlighting and starter code
+export interface RuntimeInfo extends ToolchainStatus {
+  id: string;
+  displayName: string;
+  icon: string;
+  monacoLanguage: string;
+  fileExtension: string;
+  example: string;
+  options: RuntimeOptions;
+  settings: SettingInfo[];
+}
+
+const runtimes = new Map<string, LanguageRuntime>();
+const toolchains = new Map<string, ToolchainStatus>();
+// Setting choices whose probe failed, keyed by choiceKey
+const missingChoices = new Set<string>();
+let probe: Promise<void> | null = null;
+
+export function registerRuntime(runtime: LanguageRuntime) {
+  if (runtimes.has(runtime.id)) {
+    throw new Error(`A runtime for "${runtime.id}" is already registered`);
+  }
+  runtimes.set(runtime.id, runtime);
+}
+
+// Built-in languages, in the order they are offered in the picker
+[python, java, c, cpp, go, rust, javascript, typescript, sql].forEach(registerRuntime);
+
+export function getRuntime(id: string): LanguageRuntime | undefined {
+  return runtimes.get(id);
+}
+
+const choiceKey = (runtime: LanguageRuntime, setting: ChoiceSetting, choice: SettingChoice) =>
+  `${runtime.id}/${setting.id}/${choice.value}`;
+
+function probeToolchain({ command, args }: CommandLine): Promise<ToolchainStatus> {
+  return new Promise((resolve) => {
+    // Some tools (java, older javac) print their version to stderr
+    const child = spawn(command, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+    let printed = '';
+    child.stdout!.on('data', (data) => { printed += data.toString(); });
+    child.stderr!.on('data', (data) => { printed += data.toString(); });
+    child.on('error', () => resolve({ available: false, version: null }));
+    child.on('close', (code) => {
+      resolve({
+        available: code === 0,
+        version: code === 0 ? printed.trim().split('\n')[0] || null : null
+      });
+    });
+  });
+}
+
+// Run every registered runtime's version probe once, instead of on each request
+export function initRuntimes(): Promise<void> {
+  if (!probe) {
+    probe = (async () => {
+      await Promise.all([...runtimes.values()].map(async (runtime) => {
+        const status = await probeToolchain(runtime.versionProbe);
+        toolchains.set(runtime.id, status);
+        if (!status.available) {
+          console.warn(`Runtimes: ${runtime.displayName} is unavailable (${runtime.versionProbe.command} not found)`);
+        }
+
+        // Optional choices such as alternative interpreters
+        for (const setting of runtime.settings ?? []) {
+          if (setting.type !== 'choice') continue;
+          for (const choice of setting.choices) {
+            if (choice.probe && !(await probeToolchain(choice.probe)).available) {
+              missingChoices.add(choiceKey(runtime, setting, choice));
+            }
+          }
+        }
+      }));
+    })();
+  }
+  return probe;
+}
+
+export function getToolchainStatus(id: string): ToolchainStatus {
+  return toolchains.get(id) ?? { available: false, version: null };
+}
+
+const isOffered = (runtime: LanguageRuntime) => (setting: ChoiceSetting, choice: SettingChoice) =>
+  !missingChoices.has(choiceKey(runtime, setting, choice));
+
+// Validate a request's settings for `runtime` and fill in defaults. Throws InvalidSettingsError.
+export function resolveRuntimeSettings(runtime: LanguageRuntime, requested: unknown): RuntimeSettings {
+  return resolveSettings(runtime.settings ?? [], requested, isOffered(runtime));
+}
+
+function describeSettings(runtime: LanguageRuntime): SettingInfo[] {
+  const offered = isOffered(runtime);
+  return (runtime.settings ?? []).map((setting): SettingInfo => {
+    switch (setting.type) {
+      case 'choice':
+        return {
+          ...setting,
+          choices: setting.choices
+            .filter(choice => offered(setting, choice))
+            .map(({ value, label }) => ({ value, label }))
+        };
+      case 'list':
+        return { ...setting, pattern: setting.pattern.source };
+      default:
+        return setting;
+    }
+  });
+}
+
+// Checkers, interactors and input generators take their arguments on the command line and
+// answer on stdout or stderr, which runtimes that report their own results, like SQL, cannot do
+export function canRunChecker(runtime: LanguageRuntime): boolean {
+  return runtime.readQueryResults === undefined;
+}
+
+export function listRuntimes(): RuntimeInfo[] {
+  return [...runtimes.values()].map(runtime => ({
+    id: runtime.id,
+    displayName: runtime.displayName,
+    icon: runtime.icon,
+    monacoLanguage: runtime.monacoLanguage,
+    fileExtension: runtime.fileExtension,
+    example: runtime.example,
+    options: {
+      compiled: runtime.compile !== undefined,
+      interactive: runtime.interactive,
+      runtimeDiagnostics: runtime.parseRuntimeDiagnostics !== undefined,
+      checker: canRunChecker(runtime)
+    },
+    settings: describeSettings(runtime),
+    ...getToolchainStatus(runtime.id)
+  }));
+}
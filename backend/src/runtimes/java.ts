@@ -0,0 +1,193 @@
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { parseBraceLanguage } from '../complexity';
+import { CompilationError, parseJavacDiagnostics, parseJavaStackTrace } from '../diagnostics';
+import { MANAGED_HEAP_MB, MANAGED_RUN_LIMITS } from '../sandbox';
+import { LanguageRuntime } from './types';
+
+interface JavaEntryPoint {
+  packageName: string | null;
+  // Public top-level class, which dictates the source file name
+  publicClass: string | null;
+  // Binary name of the class declaring main, e.g. "Outer$Inner" for nested classes
+  mainClass: string | null;
+}
+
+// Blank out comments, string/char literals and text blocks so the scanner below only sees code.
+// Newlines are kept so offsets still map to the same lines.
+function stripJavaCommentsAndStrings(code: string): string {
+  return code.replace(
+    /\/\*[\s\S]*?\*\/|\/\/[^\n]*|"""[\s\S]*?"""|"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'/g,
+    (match) => match.replace(/[^\n]/g, ' ')
+  );
+}
+
+// Find the package, the public top-level class and the class that declares
+// `static void main(String[])` by tracking class declarations against brace depth.
+function findJavaEntryPoint(code: string): JavaEntryPoint {
+  const source = stripJavaCommentsAndStrings(code);
+  const packageMatch = source.match(/^\s*package\s+([\w.]+)\s*;/m);
+
+  const classStack: Array<{ name: string; depth: number }> = [];
+  let pendingClass: string | null = null;
+  let depth = 0;
+  let publicClass: string | null = null;
+  let mainClass: string | null = null;
+
+  const tokens = /(?<![\w.])(?:class|interface|enum|record)\s+([A-Za-z_$][\w$]*)|\bvoid\s+main\s*\(\s*(?:final\s+)?String\s*(?:\[\s*\]|\.\.\.)|[{};]/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = tokens.exec(source)) !== null) {
+    const token = match[0];
+
+    if (match[1]) {
+      pendingClass = match[1];
+      if (depth === 0 && !publicClass) {
+        // Modifiers since the previous declaration boundary
+        const boundary = Math.max(source.lastIndexOf(';', match.index), source.lastIndexOf('}', match.index));
+        if (/\bpublic\b/.test(source.slice(boundary + 1, match.index))) {
+          publicClass = match[1];
+        }
+      }
+    } else if (token === '{') {
+      if (pendingClass) {
+        classStack.push({ name: pendingClass, depth });
+        pendingClass = null;
+      }
+      depth++;
+    } else if (token === '}') {
+      depth--;
+      if (classStack.length && classStack[classStack.length - 1].depth === depth) {
+        classStack.pop();
+      }
+    } else if (token === ';') {
+      pendingClass = null;
+    } else if (!mainClass && classStack.length) {
+      const boundary = Math.max(
+        source.lastIndexOf(';', match.index),
+        source.lastIndexOf('{', match.index),
+        source.lastIndexOf('}', match.index)
+      );
+      if (/\bstatic\b/.test(source.slice(boundary + 1, match.index))) {
+        mainClass = classStack.map(entry => entry.name).join('$');
+      }
+    }
+  }
+
+  return {
+    packageName: packageMatch ? packageMatch[1] : null,
+    publicClass,
+    mainClass
+  };
+}
+
+const java: LanguageRuntime = {
+  id: 'java',
+  displayName: 'Java',
+  icon: '☕',
+  monacoLanguage: 'java',
+  fileExtension: 'java',
+  example: `import java.util.Arrays;
+
+public class QuickSort {
+    public static void main(String[] args) {
+        int[] array = {3, 6, 8, 2, 1, 0, 5, 7, 4, 9};
+        quickSort(array, 0, array.length - 1);
+        System.out.println(Arrays.toString(array));
+    }
+    
+    public static void quickSort(int[] arr, int low, int high) {
+        if (low < high) {
+            int pi = partition(arr, low, high);
+            quickSort(arr, low, pi - 1);
+            quickSort(arr, pi + 1, high);
+        }
+    }
+    
+    private static int partition(int[] arr, int low, int high) {
+        int pivot = arr[high];
+        int i = low - 1;
+        
+        for (int j = low; j < high; j++) {
+            if (arr[j] <= pivot) {
+                i++;
+                int temp = arr[i];
+                arr[i] = arr[j];
+                arr[j] = temp;
+            }
+        }
+        
+        int temp = arr[i + 1];
+        arr[i + 1] = arr[high];
+        arr[high] = temp;
+        
+        return i + 1;
+    }
+}`,
+
+  interactive: true,
+  settings: [
+    {
+      id: 'release',
+      label: 'Java release',
+      description: 'Language level and API passed to javac --release',
+      type: 'choice',
+      choices: [
+        { value: 'default', label: 'JDK default' },
+        ...['8', '11', '17', '21'].map(release => ({ value: release, label: `Java ${release}` }))
+      ],
+      default: 'default'
+    },
+    {
+      id: 'heapMb',
+      label: 'Heap size',
+      description: 'Maximum JVM heap (-Xmx)',
+      type: 'choice',
+      choices: ['64', '128', '256', '512'].map(size => ({ value: size, label: `${size} MB` })),
+      default: String(MANAGED_HEAP_MB)
+    }
+  ],
+  versionProbe: { command: 'javac', args: ['-version'] },
+  missingToolchainMessage: 'Java is not installed. Please install a JDK to run Java code.',
+
+  // Compile the submitted source as-is. The file must be named after the public
+  // top-level class, and classes land in package folders under classes/.
+  async prepare(code, workDir) {
+    const entryPoint = findJavaEntryPoint(code);
+    if (!entryPoint.mainClass) {
+      throw new CompilationError('No class with a "public static void main(String[] args)" method was found', []);
+    }
+
+    const sourceFile = `${entryPoint.publicClass || entryPoint.mainClass.split('$')[0]}.java`;
+    await mkdir(join(workDir, 'classes'), { recursive: true });
+    await writeFile(join(workDir, sourceFile), code);
+
+    return {
+      sourceFile,
+      entryPoint: entryPoint.packageName ? `${entryPoint.packageName}.${entryPoint.mainClass}` : entryPoint.mainClass
+    };
+  },
+
+  compile(source, settings) {
+    const release = settings.release === 'default' ? [] : ['--release', settings.release as string];
+    // All lint warnings except those about serialization, which student code never needs
+    return { command: 'javac', args: ['-encoding', 'UTF-8', '-Xlint:all,-serial', ...release, '-d', 'classes', source.sourceFile] };
+  },
+
+  run(source, _workDir, settings) {
+    return {
+      command: 'java',
+      // Exiting on the first OutOfMemoryError keeps a program from catching it and failing
+      // later in some other way
+      args: [`-Xmx${settings.heapMb}m`, '-XX:+ExitOnOutOfMemoryError', '-Dfile.encoding=UTF-8', '-cp', 'classes', source.entryPoint!],
+      limits: { ...MANAGED_RUN_LIMITS, memoryBudgetBytes: Number(settings.heapMb) * 1024 * 1024 },
+      outOfMemoryReport: /java\.lang\.OutOfMemoryError/
+    };
+  },
+
+  parseCompileDiagnostics: parseJavacDiagnostics,
+  parseRuntimeDiagnostics: parseJavaStackTrace,
+  parseProgramStructure: code => parseBraceLanguage(code, 'java')
+};
+
+export default java;
@@ -0,0 +1,62 @@
+import { writeFile } from 'fs/promises';
+import { join } from 'path';
+import { parseJavaScript } from '../complexity';
+import { parseNodeStackTrace } from '../diagnostics';
+import { MANAGED_HEAP_MB, MANAGED_RUN_LIMITS } from '../sandbox';
+import { LanguageRuntime } from './types';
+
+// Top-level import/export statements, import.meta, or an unindented top-level await mean the
+// program is an ES module. Dynamic import() works in both module systems and does not count.
+const MODULE_SYNTAX = /^\s*(?:import(?:\s+[\w*{$]|\s*[{*"'])|export\s+(?:[{*]|default\b|(?:async\s+)?function\b|class\b|const\b|let\b|var\b|interface\b|type\b|enum\b|abstract\b))|\bimport\.meta\b|^await\s/m;
+
+export function usesModuleSyntax(code: string): boolean {
+  return MODULE_SYNTAX.test(code);
+}
+
+// What V8 prints when the heap reaches --max-old-space-size
+export const NODE_OUT_OF_MEMORY = /JavaScript heap out of memory/;
+
+const javascript: LanguageRuntime = {
+  id: 'javascript',
+  displayName: 'JavaScript',
+  icon: 'JS',
+  monacoLanguage: 'javascript',
+  fileExtension: 'js',
+  example: `function quickSort(arr) {
+  if (arr.length <= 1) {
+    return arr;
+  }
+  const pivot = arr[Math.floor(arr.length / 2)];
+  const left = arr.filter(x => x < pivot);
+  const middle = arr.filter(x => x === pivot);
+  const right = arr.filter(x => x > pivot);
+  return [...quickSort(left), ...middle, ...quickSort(right)];
+}
+
+console.log(quickSort([3, 6, 8, 2, 1, 0, 5, 7, 4, 9]));`,
+
+  interactive: true,
+  versionProbe: { command: 'node', args: ['--version'] },
+  missingToolchainMessage: 'Node.js is not installed. Please install Node.js to run JavaScript code.',
+
+  // Node picks the module system from the extension
+  async prepare(code, workDir) {
+    const sourceFile = usesModuleSyntax(code) ? 'main.mjs' : 'main.js';
+    await writeFile(join(workDir, sourceFile), code);
+    return { sourceFile };
+  },
+
+  run(source) {
+    return {
+      command: 'node',
+      args: [`--max-old-space-size=${MANAGED_HEAP_MB}`, source.sourceFile],
+      limits: MANAGED_RUN_LIMITS,
+      outOfMemoryReport: NODE_OUT_OF_MEMORY
+    };
+  },
+
+  parseRuntimeDiagnostics: parseNodeStackTrace,
+  parseProgramStructure: code => parseJavaScript(code, 'main.js')
+};
+
+export default javascript;
@@ -0,0 +1,73 @@
+import { writeFile } from 'fs/promises';
+import { join } from 'path';
+import { parsePython } from '../complexity';
+import { parsePythonTraceback } from '../diagnostics';
+import { RUN_LIMITS } from '../sandbox';
+import { LanguageRuntime } from './types';
+
+// Interpreters a run may pick besides the default `python`; only those installed are offered
+const ALTERNATIVE_INTERPRETERS = [
+  ...['3.9', '3.10', '3.11', '3.12', '3.13'].map(version => ({ value: `python${version}`, label: `Python ${version}` })),
+  { value: 'pypy3', label: 'PyPy 3' }
+];
+
+const python: LanguageRuntime = {
+  id: 'python',
+  displayName: 'Python',
+  icon: '🐍',
+  monacoLanguage: 'python',
+  fileExtension: 'py',
+  example: `def quicksort(arr):
+    if len(arr) <= 1:
+        return arr
+    pivot = arr[len(arr) // 2]
+    left = [x for x in arr if x < pivot]
+    middle = [x for x in arr if x == pivot]
+    right = [x for x in arr if x > pivot]
+    return quicksort(left) + middle + quicksort(right)
+
+print(quicksort([3, 6, 8, 2, 1, 0, 5, 7, 4, 9]))`,
+
+  interactive: true,
+  settings: [
+    {
+      id: 'interpreter',
+      label: 'Interpreter',
+      type: 'choice',
+      choices: [
+        { value: 'python', label: 'Default (python)' },
+        ...ALTERNATIVE_INTERPRETERS.map(({ value, label }) => ({ value, label, probe: { command: value, args: ['--version'] } }))
+      ],
+      default: 'python'
+    },
+    {
+      id: 'optimize',
+      label: 'Optimize (-O)',
+      description: 'Strips assert statements and if __debug__ blocks',
+      type: 'flag',
+      default: false
+    }
+  ],
+  versionProbe: { command: 'python', args: ['--version'] },
+  missingToolchainMessage: 'Python is not installed. Please install Python to run Python code.',
+
+  async prepare(code, workDir) {
+    await writeFile(join(workDir, 'main.py'), code);
+    return { sourceFile: 'main.py' };
+  },
+
+  run(source, _workDir, settings) {
+    // Unbuffered so prompts without a trailing newline reach the client immediately
+    return {
+      command: settings.interpreter as string,
+      args: ['-u', ...(settings.optimize ? ['-O'] : []), source.sourceFile],
+      limits: RUN_LIMITS,
+      outOfMemoryReport: /^MemoryError\b/m
+    };
+  },
+
+  parseRuntimeDiagnostics: parsePythonTraceback,
+  parseProgramStructure: parsePython
+};
+
+export default python;
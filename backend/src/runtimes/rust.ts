@@ -0,0 +1,89 @@
+import { writeFile } from 'fs/promises';
+import { join } from 'path';
+import { parseBraceLanguage } from '../complexity';
+import { parseRustcDiagnostics, parseRustPanic } from '../diagnostics';
+import { RUN_LIMITS } from '../sandbox';
+import { LanguageRuntime } from './types';
+
+const EXECUTABLE_NAME = process.platform === 'win32' ? 'main.exe' : 'main';
+
+const rust: LanguageRuntime = {
+  id: 'rust',
+  displayName: 'Rust',
+  icon: 'RS',
+  monacoLanguage: 'rust',
+  fileExtension: 'rs',
+  example: `use std::collections::HashMap;
+
+// Sieve of Eratosthenes
+fn primes_up_to(limit: usize) -> Vec<usize> {
+    let mut is_prime = vec![true; limit + 1];
+    let mut primes = Vec::new();
+
+    for n in 2..=limit {
+        if is_prime[n] {
+            primes.push(n);
+            let mut multiple = n * n;
+            while multiple <= limit {
+                is_prime[multiple] = false;
+                multiple += n;
+            }
+        }
+    }
+    primes
+}
+
+// Group words by their length
+fn group_by_length<'a>(words: &[&'a str]) -> HashMap<usize, Vec<&'a str>> {
+    let mut groups: HashMap<usize, Vec<&str>> = HashMap::new();
+    for word in words {
+        groups.entry(word.len()).or_default().push(word);
+    }
+    groups
+}
+
+fn main() {
+    println!("Primes up to 50: {:?}", primes_up_to(50));
+
+    let words = ["apple", "fig", "banana", "kiwi", "cherry", "pear"];
+    let groups = group_by_length(&words);
+    let mut lengths: Vec<_> = groups.keys().collect();
+    lengths.sort();
+    for length in lengths {
+        println!("{} letters: {:?}", length, groups[length]);
+    }
+}`,
+
+  interactive: true,
+  versionProbe: { command: 'rustc', args: ['--version'] },
+  missingToolchainMessage: 'Rust compiler (rustc) is not installed. Please install Rust to run Rust code.',
+
+  async prepare(code, workDir) {
+    await writeFile(join(workDir, 'main.rs'), code);
+    return { sourceFile: 'main.rs' };
+  },
+
+  compile(source) {
+    return {
+      command: 'rustc',
+      args: ['--edition', '2021', '-O', '--error-format=short', '-o', EXECUTABLE_NAME, source.sourceFile]
+    };
+  },
+
+  // Unlike C's stdio, Rust's stdout buffers up to each newline whatever it writes to, so an
+  // interactive prompt printed with `print!` needs `io::stdout().flush()` as in a terminal
+  run(_source, workDir) {
+    return {
+      command: join(workDir, EXECUTABLE_NAME),
+      args: [],
+      limits: RUN_LIMITS,
+      outOfMemoryReport: /^memory allocation of \d+ bytes failed/m
+    };
+  },
+
+  parseCompileDiagnostics: parseRustcDiagnostics,
+  parseRuntimeDiagnostics: parseRustPanic,
+  parseProgramStructure: code => parseBraceLanguage(code, 'rust')
+};
+
+export default rust;
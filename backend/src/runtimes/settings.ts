@@ -0,0 +1,112 @@
+import { CommandLine } from './types';
+
+// Per-run options a runtime accepts, e.g. the C++ standard or the Java heap size. Each runtime
+// declares an allow-list of them; requests can only pick from it, never pass raw flags.
+export type SettingValue = string | boolean | string[];
+export type RuntimeSettings = Record<string, SettingValue>;
+
+interface SettingBase {
+  // Key in the request's `settings` object
+  id: string;
+  label: string;
+  description?: string;
+}
+
+export interface SettingChoice {
+  value: string;
+  label: string;
+  // Only offered when this command succeeds at startup, e.g. an optional interpreter
+  probe?: CommandLine;
+}
+
+// One of a fixed set of values
+export interface ChoiceSetting extends SettingBase {
+  type: 'choice';
+  choices: SettingChoice[];
+  default: string;
+}
+
+// On or off
+export interface FlagSetting extends SettingBase {
+  type: 'flag';
+  default: boolean;
+}
+
+// A short list of values that each match `pattern`, e.g. preprocessor defines
+export interface ListSetting extends SettingBase {
+  type: 'list';
+  pattern: RegExp;
+  maxItems: number;
+  placeholder?: string;
+  default: string[];
+}
+
+export type RuntimeSetting = ChoiceSetting | FlagSetting | ListSetting;
+
+// The request asked for a setting the runtime does not accept
+export class InvalidSettingsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidSettingsError';
+  }
+}
+
+// Check requested settings against the allow-list and fill in defaults. `isOffered` tells
+// whether a choice passed its probe.
+export function resolveSettings(
+  settings: RuntimeSetting[],
+  requested: unknown,
+  isOffered: (setting: ChoiceSetting, choice: SettingChoice) => boolean
+): RuntimeSettings {
+  if (requested !== undefined && (requested === null || typeof requested !== 'object' || Array.isArray(requested))) {
+    throw new InvalidSettingsError('Settings must be an object');
+  }
+  const values = (requested ?? {}) as Record<string, unknown>;
+
+  for (const id of Object.keys(values)) {
+    if (!settings.some(setting => setting.id === id)) {
+      throw new InvalidSettingsError(`Unknown setting "${id}"`);
+    }
+  }
+
+  const resolved: RuntimeSettings = {};
+  for (const setting of settings) {
+    const value = values[setting.id];
+    if (value === undefined) {
+      resolved[setting.id] = setting.default;
+      continue;
+    }
+
+    switch (setting.type) {
+      case 'choice': {
+        const choice = setting.choices.find(candidate => candidate.value === value);
+        if (!choice || !isOffered(setting, choice)) {
+          throw new InvalidSettingsError(`"${String(value)}" is not an available value for ${setting.label}`);
+        }
+        resolved[setting.id] = choice.value;
+        break;
+      }
+      case 'flag':
+        if (typeof value !== 'boolean') {
+          throw new InvalidSettingsError(`${setting.label} must be true or false`);
+        }
+        resolved[setting.id] = value;
+        break;
+      case 'list': {
+        if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+          throw new InvalidSettingsError(`${setting.label} must be a list of strings`);
+        }
+        if (value.length > setting.maxItems) {
+          throw new InvalidSettingsError(`${setting.label} accepts at most ${setting.maxItems} entries`);
+        }
+        const invalid = value.find(item => !setting.pattern.test(item));
+        if (invalid !== undefined) {
+          throw new InvalidSettingsError(`"${invalid}" is not a valid entry for ${setting.label}`);
+        }
+        resolved[setting.id] = value;
+        break;
+      }
+    }
+  }
+  return resolved;
+}
@@ -0,0 +1,216 @@
+import { readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { parseSqliteErrors } from '../diagnostics';
+import { RUN_LIMITS } from '../sandbox';
+import { LanguageRuntime, QueryResult } from './types';
+
+const RUNNER_NAME = 'sqlite_runner.py';
+const RESULTS_NAME = 'results.json';
+
+// Executes a script statement by statement against a fresh in-memory database. Each result
+// set is printed as a text table, and every statement's rows, timing and query plan are
+// written as JSON for the results view. Stops at the first failing statement, like
+// `sqlite3 -bail`, and reports it as `main.sql:<line>: <SQLite error code>: <message>`.
+const RUNNER_SOURCE = `
+import json
+import math
+import os
+import sqlite3
+import sys
+import time
+
+ROW_LIMIT = 500
+# Statements EXPLAIN QUERY PLAN has nothing to say about
+NO_PLAN = {
+    'ALTER', 'ANALYZE', 'ATTACH', 'BEGIN', 'COMMIT', 'CREATE', 'DETACH', 'DROP', 'END',
+    'EXPLAIN', 'PRAGMA', 'REINDEX', 'RELEASE', 'ROLLBACK', 'SAVEPOINT', 'VACUUM'
+}
+
+
+def skip_trivia(text):
+    """Offset of the first token, past whitespace and comments. None if there is none."""
+    i = 0
+    while i < len(text):
+        if text[i].isspace():
+            i += 1
+        elif text.startswith('--', i):
+            end = text.find('\\n', i)
+            i = len(text) if end < 0 else end + 1
+        elif text.startswith('/*', i):
+            end = text.find('*/', i + 2)
+            i = len(text) if end < 0 else end + 2
+        else:
+            return i
+    return None
+
+
+def split_statements(script):
+    """Yield (offset, statement) using SQLite's own notion of a complete statement"""
+    start = 0
+    for end, char in enumerate(script):
+        if char == ';' and sqlite3.complete_statement(script[start:end + 1]):
+            yield start, script[start:end + 1]
+            start = end + 1
+    yield start, script[start:]
+
+
+def cell(value):
+    if isinstance(value, bytes):
+        return "X'" + value.hex().upper() + "'"
+    if isinstance(value, float) and not math.isfinite(value):
+        return str(value)
+    return value
+
+
+def query_plan(db, sql):
+    try:
+        rows = db.execute('EXPLAIN QUERY PLAN ' + sql).fetchall()
+    except sqlite3.Error:
+        return None
+    depths = {0: -1}
+    plan = []
+    for node, parent, _, detail in rows:
+        depths[node] = depths.get(parent, -1) + 1
+        plan.append('  ' * depths[node] + detail)
+    return plan
+
+
+def print_table(columns, rows, hidden):
+    text = [[('NULL' if value is None else str(cell(value))) for value in row] for row in rows]
+    widths = [max([len(name)] + [len(row[i]) for row in text]) for i, name in enumerate(columns)]
+    print('  '.join(name.ljust(width) for name, width in zip(columns, widths)).rstrip())
+    print('  '.join('-' * width for width in widths))
+    for row in text:
+        print('  '.join(value.ljust(width) for value, width in zip(row, widths)).rstrip())
+    if hidden:
+        print('... %d more rows' % hidden)
+    print()
+
+
+def main(source_path, results_path):
+    with open(source_path, encoding='utf-8') as source:
+        script = source.read()
+
+    db = sqlite3.connect(':memory:', isolation_level=None)
+    results = []
+    failed = False
+    try:
+        for offset, statement in split_statements(script):
+            first = skip_trivia(statement)
+            if first is None:
+                continue
+            sql = statement[first:].strip()
+            line = script.count('\\n', 0, offset + first) + 1
+            result = {'sql': sql, 'line': line}
+            results.append(result)
+
+            keyword = sql.split(None, 1)[0].upper()
+            plan = query_plan(db, sql) if keyword not in NO_PLAN else None
+            if plan:
+                result['queryPlan'] = plan
+
+            started = time.perf_counter()
+            try:
+                cursor = db.execute(sql)
+                rows = cursor.fetchmany(ROW_LIMIT)
+                total = len(rows) + sum(1 for _ in cursor)
+            except sqlite3.Error as error:
+                result['durationMs'] = (time.perf_counter() - started) * 1000
+                result['error'] = str(error)
+                code = getattr(error, 'sqlite_errorname', None) or type(error).__name__
+                print('%s:%d: %s: %s' % (os.path.basename(source_path), line, code, error), file=sys.stderr)
+                failed = True
+                break
+            result['durationMs'] = (time.perf_counter() - started) * 1000
+
+            if cursor.description is not None:
+                columns = [column[0] for column in cursor.description]
+                result['columns'] = columns
+                result['rows'] = [[cell(value) for value in row] for row in rows]
+                result['rowCount'] = total
+                print_table(columns, rows, total - len(rows))
+            elif cursor.rowcount >= 0:
+                result['rowsAffected'] = cursor.rowcount
+    finally:
+        with open(results_path + '.tmp', 'w', encoding='utf-8') as out:
+            json.dump(results, out)
+        os.replace(results_path + '.tmp', results_path)
+
+    return 1 if failed else 0
+
+
+sys.exit(main(sys.argv[1], sys.argv[2]))
+`;
+
+const sql: LanguageRuntime = {
+  id: 'sql',
+  displayName: 'SQL (SQLite)',
+  icon: 'SQL',
+  monacoLanguage: 'sql',
+  fileExtension: 'sql',
+  example: `-- Schema
+CREATE TABLE students (
+  id INTEGER PRIMARY KEY,
+  name TEXT NOT NULL,
+  year INTEGER NOT NULL
+);
+
+CREATE TABLE grades (
+  student_id INTEGER NOT NULL REFERENCES students(id),
+  course TEXT NOT NULL,
+  score INTEGER NOT NULL
+);
+
+CREATE INDEX grades_by_course ON grades(course);
+
+-- Seed data
+INSERT INTO students (name, year) VALUES
+  ('Ada', 2), ('Grace', 3), ('Alan', 2), ('Edsger', 1);
+
+INSERT INTO grades (student_id, course, score) VALUES
+  (1, 'Algorithms', 92), (1, 'Databases', 88),
+  (2, 'Algorithms', 79), (2, 'Databases', 95),
+  (3, 'Algorithms', 85), (4, 'Databases', 71);
+
+-- Average score per course
+SELECT course, COUNT(*) AS students, ROUND(AVG(score), 1) AS average
+FROM grades
+GROUP BY course
+ORDER BY average DESC;
+
+-- Best student in Databases
+SELECT s.name, g.score
+FROM grades g
+JOIN students s ON s.id = g.student_id
+WHERE g.course = 'Databases'
+ORDER BY g.score DESC
+LIMIT 1;`,
+
+  // Scripts do not read stdin
+  interactive: false,
+  versionProbe: { command: 'python', args: ['-c', 'import sqlite3; print("SQLite " + sqlite3.sqlite_version)'] },
+  missingToolchainMessage: 'SQL runs on Python\'s sqlite3 module. Please install Python to run SQL.',
+
+  async prepare(code, workDir) {
+    await writeFile(join(workDir, 'main.sql'), code);
+    await writeFile(join(workDir, RUNNER_NAME), RUNNER_SOURCE);
+    return { sourceFile: 'main.sql' };
+  },
+
+  run(source) {
+    return { command: 'python', args: ['-I', '-B', RUNNER_NAME, source.sourceFile, RESULTS_NAME], limits: RUN_LIMITS };
+  },
+
+  parseRuntimeDiagnostics: parseSqliteErrors,
+
+  async readQueryResults(workDir) {
+    try {
+      return JSON.parse(await readFile(join(workDir, RESULTS_NAME), 'utf8')) as QueryResult[];
+    } catch {
+      // Killed before the runner could write its results
+      return [];
+    }
+  }
+};
+
+export default sql;
@@ -0,0 +1,93 @@
+import { ProgramStructure } from '../complexity';
+import { Diagnostic } from '../diagnostics';
+import { SandboxLimits } from '../sandbox';
+import { SanitizerFinding } from '../sanitizers';
+import { RuntimeSetting, RuntimeSettings } from './settings';
+
+export interface CommandLine {
+  command: string;
+  args: string[];
+  // Set on top of the server's environment
+  env?: Record<string, string>;
+  // Directories outside the work directory the command may write to
+  writableDirs?: string[];
+}
+
+// What `prepare` worked out while laying out the submission in its work directory
+export interface PreparedSource {
+  // File name of the submitted source inside the work directory
+  sourceFile: string;
+  // Runtime-specific entry point, e.g. the qualified main class for Java
+  entryPoint?: string;
+}
+
+export interface RunCommand extends CommandLine {
+  limits: SandboxLimits;
+  // What the runtime prints on stderr when an allocation fails, e.g. Python's MemoryError
+  outOfMemoryReport?: RegExp;
+}
+
+// Outcome of one statement of a SQL script
+export interface QueryResult {
+  // Statement as written, without leading comments
+  sql: string;
+  // 1-based line the statement starts on
+  line: number;
+  durationMs: number;
+  // For statements returning rows. `rows` is capped, `rowCount` is the full size of the result.
+  columns?: string[];
+  rows?: Array<Array<string | number | null>>;
+  rowCount?: number;
+  // For INSERT, UPDATE and DELETE
+  rowsAffected?: number;
+  // EXPLAIN QUERY PLAN steps, indented two spaces per level of nesting
+  queryPlan?: string[];
+  // Set on the statement that failed, which is the last one executed
+  error?: string;
+}
+
+// Everything the backend needs to know to compile and run one language. Add a module
+// under runtimes/ implementing this and register it in runtimes/index.ts.
+export interface LanguageRuntime {
+  // Identifier used in requests, e.g. "cpp"
+  id: string;
+  displayName: string;
+  // Short badge for the language picker, an emoji or a few characters
+  icon: string;
+  // Monaco language identifier used for highlighting
+  monacoLanguage: string;
+  // Extension for downloaded source files, without the dot
+  fileExtension: string;
+  // Starter program shown when the language is selected
+  example: string;
+  // Whether programs can be driven from the interactive terminal, i.e. read stdin as it is typed
+  interactive: boolean;
+  // Options a request may set, passed to `compile` and `run` validated and with defaults filled in
+  settings?: RuntimeSetting[];
+
+  // Prints the toolchain version; probed once at startup to tell whether the language is usable
+  versionProbe: CommandLine;
+  // Error reported when the probe fails
+  missingToolchainMessage: string;
+
+  // Write the submitted code into `workDir`, byte-for-byte, under the name the toolchain expects
+  prepare(code: string, workDir: string): Promise<PreparedSource>;
+  // Compiler invocation, run inside `workDir`. Interpreted languages leave this out.
+  compile?(source: PreparedSource, settings: RuntimeSettings, workDir: string): CommandLine;
+  // Program invocation, run inside `workDir`. `interactive` runs keep stdin open for the
+  // terminal, so their output must not wait in a buffer until the program exits.
+  run(source: PreparedSource, workDir: string, settings: RuntimeSettings, interactive: boolean): RunCommand;
+
+  // Errors and warnings from everything the compiler printed
+  parseCompileDiagnostics?(output: string, sourceFile: string): Diagnostic[];
+  // Location of the failure from a crashed program's stderr
+  parseRuntimeDiagnostics?(stderr: string, sourceFile: string, code: string): Diagnostic[];
+  // Memory errors, leaks and undefined behavior reported by sanitizers, whether or not the program failed
+  parseSanitizerReports?(stderr: string, sourceFile: string): SanitizerFinding[];
+  // Functions of the submitted code with their loops, calls and allocations, for the static
+  // complexity estimate
+  parseProgramStructure?(code: string): ProgramStructure;
+
+  // Per-statement results the program left in `workDir`, read once it has exited
+  readQueryResults?(workDir: string): Promise<QueryResult[]>;
+}
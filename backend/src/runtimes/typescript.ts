@@ -0,0 +1,93 @@
+import { writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { parseJavaScript } from '../complexity';
+import { parseNodeStackTrace, parseTscDiagnostics } from '../diagnostics';
+import { MANAGED_HEAP_MB, MANAGED_RUN_LIMITS } from '../sandbox';
+import { NODE_OUT_OF_MEMORY, usesModuleSyntax } from './javascript';
+import { CommandLine, LanguageRuntime } from './types';
+
+function resolveFrom(request: string): string | null {
+  try {
+    return require.resolve(request);
+  } catch {
+    return null;
+  }
+}
+
+// Prefer the compiler the backend ships with, fall back to a global `tsc`
+const bundledTsc = resolveFrom('typescript/bin/tsc');
+const tsc: CommandLine = bundledTsc
+  ? { command: process.execPath, args: [bundledTsc] }
+  : { command: 'tsc', args: [] };
+
+// Node's type declarations, so programs can use `process`, `require` and the built-in modules
+const nodeTypes = resolveFrom('@types/node/package.json');
+const typeArgs = nodeTypes ? ['--types', 'node', '--typeRoots', dirname(dirname(nodeTypes))] : [];
+
+const typescript: LanguageRuntime = {
+  id: 'typescript',
+  displayName: 'TypeScript',
+  icon: 'TS',
+  monacoLanguage: 'typescript',
+  fileExtension: 'ts',
+  example: `function quickSort(arr: number[]): number[] {
+  if (arr.length <= 1) {
+    return arr;
+  }
+  const pivot = arr[Math.floor(arr.length / 2)];
+  const left = arr.filter(x => x < pivot);
+  const middle = arr.filter(x => x === pivot);
+  const right = arr.filter(x => x > pivot);
+  return [...quickSort(left), ...middle, ...quickSort(right)];
+}
+
+console.log(quickSort([3, 6, 8, 2, 1, 0, 5, 7, 4, 9]));`,
+  interactive: true,
+
+  versionProbe: { command: tsc.command, args: [...tsc.args, '--version'] },
+  missingToolchainMessage: 'The TypeScript compiler is not installed. Run npm install in the backend to run TypeScript code.',
+
+  // .mts compiles to an ES module (.mjs), .ts to CommonJS, like with Node's own extensions
+  async prepare(code, workDir) {
+    const isModule = usesModuleSyntax(code);
+    const sourceFile = isModule ? 'main.mts' : 'main.ts';
+    await writeFile(join(workDir, sourceFile), code);
+    return { sourceFile, entryPoint: join('out', isModule ? 'main.mjs' : 'main.js') };
+  },
+
+  // Type-check and transpile in one go; any type error fails the compile step
+  compile(source) {
+    return {
+      command: tsc.command,
+      args: [
+        ...tsc.args,
+        '--strict',
+        '--skipLibCheck',
+        '--target', 'es2022',
+        '--module', 'nodenext',
+        '--moduleResolution', 'nodenext',
+        '--sourceMap',
+        '--pretty', 'false',
+        '--outDir', 'out',
+        ...typeArgs,
+        source.sourceFile
+      ]
+    };
+  },
+
+  // Source maps make stack traces point at the TypeScript source
+  run(source) {
+    return {
+      command: 'node',
+      args: ['--enable-source-maps', `--max-old-space-size=${MANAGED_HEAP_MB}`, source.entryPoint!],
+      limits: MANAGED_RUN_LIMITS,
+      outOfMemoryReport: NODE_OUT_OF_MEMORY
+    };
+  },
+
+  parseCompileDiagnostics: parseTscDiagnostics,
+  parseRuntimeDiagnostics: parseNodeStackTrace,
+  parseProgramStructure: code => parseJavaScript(code, 'main.ts')
+};
+
+export default typescript;
@@ -0,0 +1,213 @@
+import { spawn } from 'child_process';
+
+// Resource limits applied to every compile and run step of a submission
+export interface SandboxLimits {
+  // RLIMIT_CPU: SIGXCPU at this many CPU seconds, SIGKILL one second later
+  cpuTimeSeconds: number;
+  // RLIMIT_AS in bytes. null for runtimes that reserve huge virtual address ranges up front
+  // (the JVM, V8); those get a heap flag from the runtime instead.
+  memoryBytes: number | null;
+  // Resident memory the program may use, whether RLIMIT_AS, a heap flag or the sanitizer
+  // runtime enforces it. Quoted in memory_limit verdicts.
+  memoryBudgetBytes: number | null;
+  // RLIMIT_NPROC. Linux counts this per user, so it caps all processes and threads of the
+  // server's user together: a guard against fork bombs, not a limit on one submission.
+  maxProcesses: number;
+  // RLIMIT_NOFILE
+  maxOpenFiles: number;
+  // RLIMIT_FSIZE: largest file the program may write into its work directory
+  maxFileSizeBytes: number;
+  // Combined stdout + stderr captured before the program is killed
+  maxOutputBytes: number;
+}
+
+export const RUN_LIMITS: SandboxLimits = {
+  cpuTimeSeconds: 5,
+  memoryBytes: 256 * 1024 * 1024,
+  memoryBudgetBytes: 256 * 1024 * 1024,
+  maxProcesses: 1024,
+  maxOpenFiles: 64,
+  maxFileSizeBytes: 16 * 1024 * 1024,
+  maxOutputBytes: 1024 * 1024
+};
+
+// The JVM and V8 reserve far more address space than they use, so they are capped
+// through their own heap flags instead of RLIMIT_AS
+export const MANAGED_HEAP_MB = 256;
+export const MANAGED_RUN_LIMITS: SandboxLimits = {
+  ...RUN_LIMITS,
+  memoryBytes: null,
+  memoryBudgetBytes: MANAGED_HEAP_MB * 1024 * 1024,
+  maxOpenFiles: 256
+};
+
+// Compilers are trusted binaries but still get a budget, e.g. against template blow-ups
+export const COMPILE_LIMITS: SandboxLimits = {
+  cpuTimeSeconds: 30,
+  memoryBytes: null,
+  memoryBudgetBytes: null,
+  maxProcesses: 1024,
+  maxOpenFiles: 256,
+  maxFileSizeBytes: 128 * 1024 * 1024,
+  maxOutputBytes: 1024 * 1024
+};
+
+export type LimitVerdict =
+  | 'time_limit'
+  | 'memory_limit'
+  | 'output_limit';
+
+// Thrown when a program is stopped for exceeding one of its limits
+export class LimitExceededError extends Error {
+  constructor(public readonly verdict: LimitVerdict, message: string) {
+    super(message);
+    this.name = 'LimitExceededError';
+  }
+}
+
+interface SandboxSupport {
+  // util-linux prlimit, used to apply rlimits to the spawned command
+  prlimit: boolean;
+  // bubblewrap, used for network, PID and filesystem isolation
+  bubblewrap: boolean;
+}
+
+let support: SandboxSupport = { prlimit: false, bubblewrap: false };
+let probe: Promise<SandboxSupport> | null = null;
+
+function commandSucceeds(command: string, args: string[]): Promise<boolean> {
+  return new Promise((resolve) => {
+    const child = spawn(command, args, { stdio: 'ignore' });
+    child.on('error', () => resolve(false));
+    child.on('close', (code) => resolve(code === 0));
+  });
+}
+
+// Probe the available isolation tools once. bubblewrap is tried for real because
+// it is often installed but unusable when unprivileged user namespaces are disabled.
+export function initSandbox(): Promise<SandboxSupport> {
+  if (!probe) {
+    probe = (async () => {
+      if (process.platform !== 'linux') {
+        console.warn('Sandbox: not on Linux, submissions run with a wall-clock timeout and output limit only');
+        return support;
+      }
+
+      const [prlimit, bubblewrap] = await Promise.all([
+        commandSucceeds('prlimit', ['--version']),
+        commandSucceeds('bwrap', ['--ro-bind', '/', '/', '--unshare-all', '--die-with-parent', 'true'])
+      ]);
+      support = { prlimit, bubblewrap };
+
+      if (!prlimit) {
+        console.warn('Sandbox: prlimit not found, CPU, memory, process and file limits are disabled');
+      }
+      if (!bubblewrap) {
+        console.warn('Sandbox: bubblewrap not usable, submissions keep network access and a writable filesystem');
+      }
+      return support;
+    })();
+  }
+  return probe;
+}
+
+// Wrap a command so it runs under the given limits. With bubblewrap the program sees the
+// host filesystem read-only, a private /tmp, no network, and only its work directory
+// (plus any `writableDirs`) writable.
+export function wrapCommand(
+  command: string,
+  args: string[],
+  workDir: string,
+  limits: SandboxLimits,
+  writableDirs: string[] = []
+): { command: string; args: string[] } {
+  let wrapped = [command, ...args];
+
+  if (support.prlimit) {
+    const rlimits = [
+      `--cpu=${limits.cpuTimeSeconds}:${limits.cpuTimeSeconds + 1}`,
+      `--nproc=${limits.maxProcesses}`,
+      `--nofile=${limits.maxOpenFiles}`,
+      `--fsize=${limits.maxFileSizeBytes}`
+    ];
+    if (limits.memoryBytes !== null) {
+      rlimits.push(`--as=${limits.memoryBytes}`);
+    }
+    wrapped = ['prlimit', ...rlimits, '--', ...wrapped];
+  }
+
+  if (support.bubblewrap) {
+    wrapped = [
+      'bwrap',
+      '--ro-bind', '/', '/',
+      '--dev', '/dev',
+      '--proc', '/proc',
+      '--tmpfs', '/tmp',
+      '--bind', workDir, workDir,
+      ...writableDirs.flatMap(dir => ['--bind', dir, dir]),
+      '--chdir', workDir,
+      '--unshare-all',
+      '--die-with-parent',
+      '--new-session',
+      '--',
+      ...wrapped
+    ];
+  }
+
+  return { command: wrapped[0], args: wrapped.slice(1) };
+}
+
+// What the usage runner reported about a finished program, or what the server saw without it
+export interface RunReport {
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  // Unknown without the usage runner
+  cpuTimeMs?: number;
+  peakMemoryMb: number;
+  // stderr matched the runtime's out-of-memory report
+  outOfMemoryReported: boolean;
+}
+
+// A C program whose malloc returns NULL under RLIMIT_AS typically crashes on it; a crash with
+// the peak this close to the limit is taken for that
+const NEAR_MEMORY_LIMIT_FRACTION = 0.9;
+
+// Work out which limit, if any, stopped a program from its exit status and resource usage.
+// A failed run only counts as out of memory on evidence: the runtime's own report of a failed
+// allocation, or a crash under RLIMIT_AS right at the limit. A program that used a lot of
+// memory and then failed for another reason keeps its runtime error.
+export function classifyLimitViolation(
+  report: RunReport,
+  limits: SandboxLimits,
+  flags: { timedOut: boolean; outputExceeded: boolean }
+): LimitVerdict | null {
+  const { exitCode, signal, cpuTimeMs, peakMemoryMb, outOfMemoryReported } = report;
+  if (flags.timedOut || signal === 'SIGXCPU') return 'time_limit';
+  if (flags.outputExceeded || signal === 'SIGXFSZ') return 'output_limit';
+  if (exitCode === 0 && signal === null) return null;
+
+  // The hard CPU limit is delivered as SIGKILL. Without the runner's CPU time every SIGKILL
+  // is taken for it, since anything else killing the program goes through the server.
+  if (signal === 'SIGKILL' && (cpuTimeMs === undefined || cpuTimeMs >= limits.cpuTimeSeconds * 1000)) {
+    return 'time_limit';
+  }
+  if (outOfMemoryReported) return 'memory_limit';
+  if (signal !== null && limits.memoryBytes !== null && peakMemoryMb * 1024 * 1024 >= limits.memoryBytes * NEAR_MEMORY_LIMIT_FRACTION) {
+    return 'memory_limit';
+  }
+  return null;
+}
+
+// Human-readable explanation for a verdict, quoting the limit that was hit
+export function describeLimitViolation(verdict: LimitVerdict, limits: SandboxLimits, wallTimeMs: number): string {
+  switch (verdict) {
+    case 'time_limit':
+      return `Time limit exceeded (${limits.cpuTimeSeconds}s CPU, ${wallTimeMs / 1000}s wall clock)`;
+    case 'memory_limit':
+      return limits.memoryBudgetBytes !== null
+        ? `Memory limit exceeded (${Math.round(limits.memoryBudgetBytes / 1024 / 1024)} MB)`
+        : 'Memory limit exceeded';
+    case 'output_limit':
+      return `Output limit exceeded (${Math.round(limits.maxOutputBytes / 1024)} KB of output, ${Math.round(limits.maxFileSizeBytes / 1024 / 1024)} MB per file)`;
+  }
+}
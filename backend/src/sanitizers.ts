@@ -0,0 +1,227 @@
+import { basename } from 'path';
+import { Diagnostic } from './diagnostics';
+
+export type SanitizerName = 'address' | 'leak' | 'undefined';
+
+// One frame of a sanitizer stack trace. Library and runtime frames are kept so the trace
+// reads like the original, but only frames in the submitted source have a useful location.
+export interface StackFrame {
+  function?: string;
+  // File name without the server's directories, e.g. "main.cpp" or "libc.so.6"
+  file?: string;
+  line?: number;
+  column?: number;
+  inSource: boolean;
+}
+
+// A bug reported by AddressSanitizer, LeakSanitizer or UndefinedBehaviorSanitizer
+export interface SanitizerFinding {
+  sanitizer: SanitizerName;
+  // Bug class, e.g. "heap-buffer-overflow", "memory-leak" or "signed-integer-overflow"
+  kind: string;
+  message: string;
+  // Further lines of the report, e.g. the access size or where the memory lives
+  details: string[];
+  // Where it happened in the submitted source, if any frame points there
+  line?: number;
+  column?: number;
+  frames: StackFrame[];
+  // Other stacks in the report, e.g. where the memory was allocated and freed
+  related: Array<{ description: string; frames: StackFrame[] }>;
+}
+
+// Reports can repeat for every iteration of a loop; the first few are what matters
+const MAX_FINDINGS = 20;
+const MAX_FRAMES = 16;
+
+// `    #1 0x55d0c2a4b20b in main /tmp/compilesense-x/main.cpp:6:3` for symbolized frames,
+// `    #2 0x7f28cc245304 in __libc_start_main (/lib/x86_64-linux-gnu/libc.so.6+0x27304)` otherwise
+const FRAME_PATTERN = /^\s+#\d+ 0x[0-9a-f]+\s+(?:in\s+(.*?)\s+)?(?:\((.+)\+0x[0-9a-f]+\)|(\S+?):(\d+)(?::(\d+))?)$/;
+
+function parseFrame(text: string, sourceFile: string): StackFrame | null {
+  const match = text.match(FRAME_PATTERN);
+  if (!match) return null;
+
+  const [, fn, module, file, line, column] = match;
+  const name = basename(module ?? file);
+  const inSource = module === undefined && name === sourceFile;
+  return {
+    function: fn,
+    file: name,
+    line: line ? Number(line) : undefined,
+    column: column ? Number(column) : undefined,
+    inSource
+  };
+}
+
+// Consecutive frame lines starting at `start`; returns the index after the last one
+function readStack(lines: string[], start: number, sourceFile: string): { frames: StackFrame[]; end: number } {
+  const frames: StackFrame[] = [];
+  let index = start;
+  for (; index < lines.length; index++) {
+    const frame = parseFrame(lines[index], sourceFile);
+    if (!frame) break;
+    if (frames.length < MAX_FRAMES) frames.push(frame);
+  }
+  return { frames, end: index };
+}
+
+// Location of the innermost frame in the submitted source
+function locate(finding: SanitizerFinding) {
+  const frame = [finding.frames, ...finding.related.map(stack => stack.frames)]
+    .flat()
+    .find(candidate => candidate.inSource && candidate.line !== undefined);
+  if (frame && finding.line === undefined) {
+    finding.line = frame.line;
+    finding.column = frame.column;
+  }
+}
+
+// UBSan has no bug class in its message, so derive one from the wording
+const UNDEFINED_KINDS: Array<[RegExp, string]> = [
+  [/^signed integer overflow/, 'signed-integer-overflow'],
+  [/^(?:negation|division) of .* cannot be represented/, 'signed-integer-overflow'],
+  [/^division by zero/, 'division-by-zero'],
+  [/^shift exponent|^left shift/, 'invalid-shift'],
+  [/^index .* out of bounds/, 'index-out-of-bounds'],
+  [/null pointer/, 'null-pointer'],
+  [/misaligned address/, 'misaligned-access'],
+  [/with insufficient space for an object/, 'object-size'],
+  [/^load of value .* which is not a valid value/, 'invalid-value'],
+  [/^execution reached the end of a value-returning function/, 'missing-return'],
+  [/^execution reached an unreachable program point/, 'unreachable']
+];
+
+const undefinedKind = (message: string) =>
+  UNDEFINED_KINDS.find(([pattern]) => pattern.test(message))?.[1] ?? 'undefined-behavior';
+
+// Addresses and registers differ on every run and mean nothing to the reader
+const stripRegisters = (text: string) =>
+  text.replace(/\s+\(pc 0x[0-9a-f]+ .*\)$/, '').replace(/ at pc 0x[0-9a-f]+ bp 0x[0-9a-f]+ sp 0x[0-9a-f]+$/, '');
+
+// Everything the sanitizers printed to stderr, in report order:
+//
+//   main.cpp:5:7: runtime error: signed integer overflow: ...      (UBSan, program continues)
+//   ==123==ERROR: AddressSanitizer: heap-buffer-overflow on ...    (ASan, program aborts)
+//   ==123==ERROR: LeakSanitizer: detected memory leaks             (at exit, one block per leak)
+export function parseSanitizerReports(stderr: string, sourceFile: string): SanitizerFinding[] {
+  const findings: SanitizerFinding[] = [];
+  const lines = stderr.split(/\r?\n/);
+  let index = 0;
+
+  const add = (finding: SanitizerFinding) => {
+    locate(finding);
+    if (findings.length < MAX_FINDINGS) findings.push(finding);
+  };
+
+  while (index < lines.length) {
+    const text = lines[index];
+
+    const undefinedBehavior = text.match(/^(.+?):(\d+):(\d+): runtime error: (.*)$/);
+    if (undefinedBehavior) {
+      const { frames, end } = readStack(lines, index + 1, sourceFile);
+      const inSource = basename(undefinedBehavior[1]) === sourceFile;
+      add({
+        sanitizer: 'undefined',
+        kind: undefinedKind(undefinedBehavior[4]),
+        message: undefinedBehavior[4],
+        details: [],
+        line: inSource ? Number(undefinedBehavior[2]) : undefined,
+        column: inSource ? Number(undefinedBehavior[3]) : undefined,
+        frames,
+        related: []
+      });
+      index = end;
+      continue;
+    }
+
+    const leak = text.match(/^(Direct|Indirect) leak of (\d+) byte\(s\) in (\d+) object\(s\) allocated from:$/);
+    if (leak) {
+      const { frames, end } = readStack(lines, index + 1, sourceFile);
+      const [, type, bytes, objects] = leak;
+      add({
+        sanitizer: 'leak',
+        kind: 'memory-leak',
+        message: `${type} leak of ${bytes} byte${bytes === '1' ? '' : 's'} in ${objects} object${objects === '1' ? '' : 's'}`,
+        details: [],
+        frames,
+        related: []
+      });
+      index = end;
+      continue;
+    }
+
+    const error = text.match(/^==\d+==ERROR: AddressSanitizer: (.*)$/);
+    if (error) {
+      const finding: SanitizerFinding = {
+        sanitizer: 'address',
+        kind: error[1].split(/[\s:]/)[0],
+        message: stripRegisters(error[1]),
+        details: [],
+        frames: [],
+        related: []
+      };
+      let description: string | null = null;
+
+      // The report runs until its SUMMARY line: free text, the faulting stack, then
+      // captioned stacks such as `freed by thread T0 here:`
+      for (index++; index < lines.length; index++) {
+        const line = lines[index];
+        const summary = line.match(/^SUMMARY: AddressSanitizer: (\S+)/);
+        if (summary) {
+          finding.kind = summary[1];
+          index++;
+          break;
+        }
+        if (parseFrame(line, sourceFile)) {
+          const { frames, end } = readStack(lines, index, sourceFile);
+          if (finding.frames.length === 0 && description === null) {
+            finding.frames = frames;
+          } else {
+            finding.related.push({ description: description ?? 'Stack', frames });
+          }
+          description = null;
+          index = end - 1;
+          continue;
+        }
+
+        const note = line.replace(/^==\d+==/, '').trim();
+        if (!note) continue;
+        if (note.endsWith(':')) {
+          description = note.slice(0, -1);
+        } else if (
+          // Shadow memory dumps and advice about ASAN_OPTIONS are noise here
+          !/^(?:Shadow bytes|0x[0-9a-f]+:|=>0x|HINT: if you don't care)/.test(note)
+        ) {
+          finding.details.push(stripRegisters(note));
+        }
+      }
+      add(finding);
+      continue;
+    }
+
+    index++;
+  }
+  return findings;
+}
+
+// Editor markers for the findings that point into the submitted source
+export function sanitizerDiagnostics(findings: SanitizerFinding[], sourceFile: string): Diagnostic[] {
+  return findings
+    .filter(finding => finding.line !== undefined)
+    .map(finding => ({
+      file: sourceFile,
+      line: finding.line!,
+      column: finding.column,
+      severity: 'error' as const,
+      message: finding.message,
+      code: finding.kind
+    }));
+}
+
+// One-line summary for the feedback panel, e.g. "Sanitizers reported 2 problems: heap-buffer-overflow, memory-leak."
+export function summarizeFindings(findings: SanitizerFinding[]): string {
+  const kinds = Array.from(new Set(findings.map(finding => finding.kind)));
+  const count = findings.length === 1 ? '1 problem' : `${findings.length} problems`;
+  return `Sanitizers reported ${count}: ${kinds.join(', ')}.`;
+}
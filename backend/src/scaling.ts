@@ -0,0 +1,295 @@
+import { CheckerProgram } from './checkers';
+
+// Empirical complexity: the program is run on generated inputs of growing size n, and the
+// measured time and memory are fitted against the usual complexity classes. Unlike the
+// source-based estimate this sees what the program actually does, startup cost included.
+
+// A template with placeholders for n, or a program that gets n as its argument and prints the input
+export type InputGenerator = { template: string } | CheckerProgram;
+
+export interface ScalingOptions {
+  generator: InputGenerator;
+  // Sizes to run, smallest first
+  sizes: number[];
+}
+
+export type ComplexityClass = 'O(1)' | 'O(log n)' | 'O(n)' | 'O(n log n)' | 'O(n²)' | 'O(n³)' | 'O(2^n)';
+
+export interface ScalingPoint {
+  n: number;
+  timeMs: number;
+  memoryMb: number;
+}
+
+export interface ComplexityFit {
+  notation: ComplexityClass;
+  // The model is intercept + coefficient · f(n), e.g. f(n) = n log n
+  intercept: number;
+  coefficient: number;
+  // Share of the variation the model explains; 0 for O(1), which explains none by definition
+  rSquared: number;
+  // Root mean square error relative to the mean measurement
+  relativeError: number;
+  // The model evaluated across the measured range, for plotting
+  curve: Array<{ n: number; value: number }>;
+}
+
+export interface ScalingResult {
+  points: ScalingPoint[];
+  // CPU time when the usage runner measures it, otherwise wall time
+  timeMetric: 'cpu' | 'wall';
+  // Absent with fewer than MIN_FIT_POINTS sizes measured
+  time?: ComplexityFit;
+  memory?: ComplexityFit;
+  // Why the larger sizes were not measured, e.g. the program hit its time limit
+  stoppedEarly?: string;
+}
+
+const DEFAULT_MIN_N = 100;
+const DEFAULT_MAX_N = 100_000;
+const DEFAULT_STEPS = 8;
+const MAX_N = 10_000_000;
+const MIN_STEPS = 4;
+const MAX_STEPS = 12;
+const MAX_TEMPLATE = 64 * 1024;
+const MAX_GENERATOR_SOURCE = 64 * 1024;
+export const MIN_FIT_POINTS = 4;
+// Larger inputs take longer to generate and pipe than most programs take to read them
+export const MAX_GENERATED_INPUT = 16 * 1024 * 1024;
+// Wall-clock budget for all sizes together; the sizes left when it runs out are skipped
+export const SCALING_BUDGET_MS = 60_000;
+// A program that is really exponential cannot finish past this, and 2^n stops being a usable number
+const MAX_EXPONENTIAL_N = 64;
+// Growth over the measured range below this share of the mean is indistinguishable from noise
+const MIN_RELATIVE_GROWTH = 0.1;
+const MIN_R_SQUARED = 0.5;
+// Fits this close to the best one count as equally good, and the slower-growing model wins
+const FIT_TOLERANCE = 0.005;
+const CURVE_POINTS = 40;
+
+// The request's scaling options are malformed
+export class InvalidScalingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidScalingError';
+  }
+}
+
+// The generator could not produce an input: it failed to build, crashed or hit a limit
+export class InputGeneratorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InputGeneratorError';
+  }
+}
+
+// `{n}` is the size, `{range}` the numbers 1 to n and `{random}` n random numbers, between 0 and
+// 10^9 or the given bounds as in `{random:1:100}`. Numbers are separated by spaces.
+const PLACEHOLDER = /\{(n|range|random)(?::(-?\d+):(-?\d+))?\}/g;
+const PLACEHOLDER_LIKE = /\{(?:n|range|random)\b[^{}]*\}/g;
+const DEFAULT_RANDOM_MAX = 1_000_000_000;
+
+function checkTemplate(template: string) {
+  if (template.length > MAX_TEMPLATE) {
+    throw new InvalidScalingError(`The template is larger than ${MAX_TEMPLATE / 1024} KB`);
+  }
+  const placeholders = template.match(PLACEHOLDER_LIKE) ?? [];
+  if (placeholders.length === 0) {
+    throw new InvalidScalingError('The template must use {n}, {range} or {random}');
+  }
+  for (const placeholder of placeholders) {
+    const [, name, low, high] = /^\{(n|range|random)(?::(-?\d+):(-?\d+))?\}$/.exec(placeholder) ?? [];
+    if (!name || (low !== undefined && (name !== 'random' || Number(low) > Number(high)))) {
+      throw new InvalidScalingError(`Invalid placeholder ${placeholder}`);
+    }
+  }
+}
+
+// A geometric series from minN to maxN; rounding can merge neighbouring sizes at the low end
+function geometricSizes(minN: number, maxN: number, steps: number): number[] {
+  const sizes = new Set<number>();
+  for (let i = 0; i < steps; i++) {
+    sizes.add(Math.round(minN * (maxN / minN) ** (i / (steps - 1))));
+  }
+  return [...sizes];
+}
+
+const isWhole = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+// Validate `scaling` from a request body. Whether a generator program's language and settings
+// exist is up to the caller, which knows the runtimes.
+export function parseScalingOptions(scaling: unknown): ScalingOptions | null {
+  if (scaling === undefined || scaling === null) return null;
+
+  const { generator, minN = DEFAULT_MIN_N, maxN = DEFAULT_MAX_N, steps = DEFAULT_STEPS } = scaling as Record<string, unknown>;
+  const { template, language, code, settings } = (generator ?? {}) as Record<string, unknown>;
+  let parsedGenerator: InputGenerator;
+  if (typeof template === 'string') {
+    checkTemplate(template);
+    parsedGenerator = { template };
+  } else if (typeof language === 'string' && typeof code === 'string' && code.trim()) {
+    if (code.length > MAX_GENERATOR_SOURCE) {
+      throw new InvalidScalingError(`The generator is larger than ${MAX_GENERATOR_SOURCE / 1024} KB`);
+    }
+    parsedGenerator = { language, code, settings };
+  } else {
+    throw new InvalidScalingError('scaling.generator needs a template, or a language and code');
+  }
+
+  if (!isWhole(minN, 1, MAX_N) || !isWhole(maxN, 1, MAX_N) || minN >= maxN) {
+    throw new InvalidScalingError(`minN and maxN must be whole numbers with 1 ≤ minN < maxN ≤ ${MAX_N}`);
+  }
+  if (!isWhole(steps, MIN_STEPS, MAX_STEPS)) {
+    throw new InvalidScalingError(`steps must be a whole number between ${MIN_STEPS} and ${MAX_STEPS}`);
+  }
+  const sizes = geometricSizes(minN, maxN, steps);
+  if (sizes.length < MIN_FIT_POINTS) {
+    throw new InvalidScalingError(`minN to maxN must span at least ${MIN_FIT_POINTS} different sizes`);
+  }
+  return { generator: parsedGenerator, sizes };
+}
+
+// Small seeded generator, so the same template gives the same input for the same n every run
+function mulberry32(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// The input a template gives for size n. Throws InputGeneratorError before building an input
+// that could exceed MAX_GENERATED_INPUT.
+export function expandTemplate(template: string, n: number): string {
+  let estimate = template.length;
+  for (const [, name, low, high] of template.matchAll(PLACEHOLDER)) {
+    if (name === 'n') continue;
+    const digits = name === 'range' ? String(n).length : Math.max((low ?? '').length, String(high ?? DEFAULT_RANDOM_MAX).length);
+    estimate += n * (digits + 1);
+  }
+  if (estimate > MAX_GENERATED_INPUT) {
+    throw new InputGeneratorError(`the input would exceed ${MAX_GENERATED_INPUT / 1024 / 1024} MB`);
+  }
+
+  const random = mulberry32(n);
+  return template.replace(PLACEHOLDER, (_match, name: string, low?: string, high?: string) => {
+    if (name === 'n') return String(n);
+    const numbers = new Array<number>(n);
+    if (name === 'range') {
+      for (let i = 0; i < n; i++) numbers[i] = i + 1;
+    } else {
+      const min = low !== undefined ? Number(low) : 0;
+      const max = high !== undefined ? Number(high) : DEFAULT_RANDOM_MAX;
+      for (let i = 0; i < n; i++) numbers[i] = min + Math.floor(random() * (max - min + 1));
+    }
+    return numbers.join(' ');
+  });
+}
+
+interface Model {
+  notation: ComplexityClass;
+  f: (n: number) => number;
+}
+
+const MODELS: Model[] = [
+  { notation: 'O(log n)', f: n => Math.log2(n) },
+  { notation: 'O(n)', f: n => n },
+  { notation: 'O(n log n)', f: n => n * Math.log2(n) },
+  { notation: 'O(n²)', f: n => n ** 2 },
+  { notation: 'O(n³)', f: n => n ** 3 },
+  { notation: 'O(2^n)', f: n => 2 ** n }
+];
+
+const CONSTANT: Model = { notation: 'O(1)', f: () => 0 };
+
+interface Sample {
+  n: number;
+  value: number;
+}
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// Least squares for value = intercept + coefficient · f(n). f is scaled to 1 at the largest n
+// first, so n³ and 2^n stay well within floating point range while solving.
+function fitModel(samples: Sample[], model: Model) {
+  const scale = model.f(samples[samples.length - 1].n);
+  if (!(scale > 0) || !Number.isFinite(scale)) return null;
+
+  const xs = samples.map(sample => model.f(sample.n) / scale);
+  const ys = samples.map(sample => sample.value);
+  const meanX = mean(xs);
+  const meanY = mean(ys);
+  let sxx = 0;
+  let sxy = 0;
+  xs.forEach((x, i) => {
+    sxx += (x - meanX) ** 2;
+    sxy += (x - meanX) * (ys[i] - meanY);
+  });
+  // Nothing that shrinks as n grows is a complexity class
+  if (sxx === 0 || sxy <= 0) return null;
+
+  const slope = sxy / sxx;
+  const intercept = meanY - slope * meanX;
+  const residual = ys.reduce((sum, y, i) => sum + (y - intercept - slope * xs[i]) ** 2, 0);
+  const total = ys.reduce((sum, y) => sum + (y - meanY) ** 2, 0);
+  return {
+    model,
+    intercept,
+    coefficient: slope / scale,
+    rSquared: total > 0 ? 1 - residual / total : 0,
+    residual,
+    // How much the model grows from the smallest to the largest n, relative to the mean
+    growth: meanY > 0 ? slope * (xs[xs.length - 1] - xs[0]) / meanY : 0
+  };
+}
+
+const roundTo = (value: number, digits: number) => Number(value.toFixed(digits));
+
+// Pick the complexity class that explains the measurements best. Measurements that barely
+// change, or that no model explains, are reported as O(1).
+function fitComplexity(samples: Sample[]): ComplexityFit {
+  const largest = samples[samples.length - 1].n;
+  const fits = MODELS
+    .filter(model => model.notation !== 'O(2^n)' || largest <= MAX_EXPONENTIAL_N)
+    .map(model => fitModel(samples, model))
+    .filter((fit): fit is NonNullable<typeof fit> => fit !== null);
+  const bestRSquared = Math.max(...fits.map(fit => fit.rSquared));
+  const best = fits.find(fit => fit.rSquared >= bestRSquared - FIT_TOLERANCE);
+
+  const values = samples.map(sample => sample.value);
+  const meanValue = mean(values);
+  const constant = !best || best.rSquared < MIN_R_SQUARED || best.growth < MIN_RELATIVE_GROWTH;
+  const { model, intercept, coefficient, rSquared, residual } = constant
+    ? { model: CONSTANT, intercept: meanValue, coefficient: 0, rSquared: 0, residual: values.reduce((sum, value) => sum + (value - meanValue) ** 2, 0) }
+    : best;
+
+  const smallest = samples[0].n;
+  const curve = Array.from({ length: CURVE_POINTS }, (_, i) => {
+    const n = smallest * (largest / smallest) ** (i / (CURVE_POINTS - 1));
+    return { n: roundTo(n, 2), value: roundTo(intercept + coefficient * model.f(n), 2) };
+  });
+
+  return {
+    notation: model.notation,
+    intercept,
+    coefficient,
+    rSquared: roundTo(rSquared, 4),
+    relativeError: meanValue > 0 ? roundTo(Math.sqrt(residual / samples.length) / meanValue, 4) : 0,
+    curve
+  };
+}
+
+export function summarizeScaling(points: ScalingPoint[], timeMetric: 'cpu' | 'wall', stoppedEarly?: string): ScalingResult {
+  if (points.length < MIN_FIT_POINTS) {
+    return { points, timeMetric, stoppedEarly };
+  }
+  return {
+    points,
+    timeMetric,
+    time: fitComplexity(points.map(point => ({ n: point.n, value: point.timeMs }))),
+    memory: fitComplexity(points.map(point => ({ n: point.n, value: point.memoryMb }))),
+    stoppedEarly
+  };
+}
@@ -1,10 +1,80 @@
 import express from 'express';
 import cors from 'cors';
-import { spawn, ChildProcess } from 'child_process';
-import { writeFile, unlink } from 'fs/promises';
+import { spawn, ChildProcess, SpawnOptions } from 'child_process';
+import { Writable } from 'stream';
+import { mkdtemp, chmod, readdir, stat, rm, writeFile } from 'fs/promises';
 import { join } from 'path';
 import { tmpdir } from 'os';
-import fs from 'fs/promises';
+import { randomUUID } from 'crypto';
+import { performance } from 'perf_hooks';
+import {
+  initSandbox,
+  wrapCommand,
+  classifyLimitViolation,
+  describeLimitViolation,
+  LimitExceededError,
+  LimitVerdict,
+  SandboxLimits,
+  COMPILE_LIMITS
+} from './sandbox';
+import { initMeasurement, withUsageReport, readUsageReport, startMemorySampler, MemorySample } from './measure';
+import { ComplexityEstimate, estimateComplexity } from './complexity';
+import { Diagnostic, DiagnosticError, CompilationError } from './diagnostics';
+import { SanitizerFinding, sanitizerDiagnostics, summarizeFindings } from './sanitizers';
+import {
+  InvalidTestSuiteError,
+  OutputCheck,
+  TestCase,
+  TestCaseResult,
+  TestSuite,
+  TranscriptEntry,
+  judgeCase,
+  parseTestSuite,
+  recordTranscript
+} from './judge';
+import {
+  CHECKER_FILES,
+  INTERACTOR_FILES,
+  CheckerError,
+  CheckerProgram,
+  JudgeProgramRole,
+  checkerVerdict,
+  compareOutputs,
+  interactorVerdict
+} from './checkers';
+import {
+  BENCHMARK_BUDGET_MS,
+  BenchmarkOptions,
+  BenchmarkResult,
+  BenchmarkSample,
+  InvalidBenchmarkError,
+  parseBenchmarkOptions,
+  summarizeBenchmark
+} from './benchmark';
+import {
+  MAX_GENERATED_INPUT,
+  SCALING_BUDGET_MS,
+  InputGeneratorError,
+  InvalidScalingError,
+  ScalingOptions,
+  ScalingPoint,
+  ScalingResult,
+  expandTemplate,
+  parseScalingOptions,
+  summarizeScaling
+} from './scaling';
+import {
+  initRuntimes,
+  getRuntime,
+  getToolchainStatus,
+  listRuntimes,
+  resolveRuntimeSettings,
+  canRunChecker,
+  CommandLine,
+  RunCommand,
+  InvalidSettingsError,
+  QueryResult
+} from './runtimes';
 
 const app = express();
 const port = 3002;
@@ -29,6 +99,7 @@ app.use((err: any, req: express.Request, res: express.Response, next: express.Ne
   console.error('Error:', err);
   res.status(500).json({
     result: {
+      status: 'internal_error',
       output: '',
       errors: err.message || 'An internal server error occurred',
       executionTime: 0,
@@ -47,117 +118,223 @@ app.use((err: any, req: express.Request, res: express.Response, next: express.Ne
   });
 });
 
-// Store active processes
-const activeProcesses = new Map<string, any>();
-
-// Add this function before executeCode
-function analyzeComplexity(code: string, language: string): { time: string; space: string; explanation: string } {
-  let timeComplexity = "O(1)";
-  let spaceComplexity = "O(1)";
-  let explanation = "Constant time and space complexity for basic operations.";
-
-  // Count loop levels
-  const loopCount = (code.match(/for/g) || []).length + (code.match(/while/g) || []).length;
-  const nestedLoopCount = (code.match(/for.*for/g) || []).length + 
-                         (code.match(/while.*while/g) || []).length +
-                         (code.match(/for.*while/g) || []).length;
-
-  // Analyze recursion
-  const functionCount = (code.match(/function/g) || []).length;
-  const returnCount = (code.match(/return/g) || []).length;
-  const hasRecursion = functionCount > 0 && returnCount > 0 && (functionCount + returnCount) > 2;
-
-  // Check for recursive Fibonacci pattern
-  const isRecursiveFibonacci = code.includes('fib') && 
-                              code.includes('n-1') && 
-                              code.includes('n-2') && 
-                              code.includes('return') && 
-                              code.includes('if n <= 1');
-
-  // Analyze data structures
-  const dataStructures = {
-    array: code.includes('[') || code.includes('Array') || code.includes('vector') || code.includes('ArrayList'),
-    map: code.includes('Map') || code.includes('HashMap') || code.includes('map') || code.includes('dictionary'),
-    set: code.includes('Set') || code.includes('HashSet') || code.includes('set') || code.includes('set()'),
-    stack: code.includes('Stack') || code.includes('push') || code.includes('pop'),
-    queue: code.includes('Queue') || code.includes('enqueue') || code.includes('dequeue')
-  };
+// Store active processes, keyed by execution ID
+interface ActiveExecution {
+  processes: Set<ChildProcess>;
+  aborted: boolean;
+  // stdin of the running program, kept open for interactive runs so /api/stdin can feed it
+  stdin: Writable | null;
+  // Private directory holding this run's sources and build output
+  workDir: string | null;
+}
 
-  // Analyze algorithms
-  const algorithms = {
-    sorting: code.toLowerCase().includes('sort') || 
-              code.includes('quicksort') || 
-              code.includes('mergesort') || 
-              code.includes('bubblesort'),
-    binarySearch: code.includes('binarySearch') || 
-                 code.includes('binary_search') || 
-                 code.includes('mid = (low + high) / 2'),
-    fibonacci: code.includes('fibonacci'),
-    memoization: code.includes('memo') || code.includes('cache')
-  };
+const activeProcesses = new Map<string, ActiveExecution>();
+
+// Every execution gets its own directory under the OS temp dir, so concurrent runs
+// (e.g. two Java submissions both named Main) never see each other's files
+const WORK_DIR_PREFIX = 'compilesense-';
+// Directories older than this that no active execution owns are leftovers from a crash
+const WORK_DIR_MAX_AGE_MS = 30 * 60 * 1000;
+const WORK_DIR_JANITOR_INTERVAL_MS = 10 * 60 * 1000;
+
+async function createWorkDir(): Promise<string> {
+  const dir = await mkdtemp(join(tmpdir(), WORK_DIR_PREFIX));
+  // mkdtemp already creates the directory as 0700 on POSIX; make it explicit
+  await chmod(dir, 0o700);
+  return dir;
+}
+
+async function removeWorkDir(dir: string) {
+  try {
+    await rm(dir, { recursive: true, force: true });
+  } catch (error) {
+    console.error(`Error removing work directory ${dir}:`, error);
+  }
+}
+
+// Remove work directories orphaned by crashes or killed server processes
+async function cleanupOrphanedWorkDirs() {
+  const activeDirs = new Set(
+    Array.from(activeProcesses.values()).map(execution => execution.workDir).filter(Boolean)
+  );
+
+  try {
+    const entries = await readdir(tmpdir());
+    for (const entry of entries) {
+      if (!entry.startsWith(WORK_DIR_PREFIX)) continue;
+
+      const dir = join(tmpdir(), entry);
+      if (activeDirs.has(dir)) continue;
+
+      const info = await stat(dir).catch(() => null);
+      if (info?.isDirectory() && Date.now() - info.mtimeMs > WORK_DIR_MAX_AGE_MS) {
+        console.log(`Removing orphaned work directory ${dir}`);
+        await removeWorkDir(dir);
+      }
+    }
+  } catch (error) {
+    console.error('Error cleaning up orphaned work directories:', error);
+  }
+}
+
+// Accept a client-proposed execution ID if it looks sane and is not in use, otherwise mint one.
+// The ID is registered at once, so a concurrent request cannot claim it before the run starts;
+// executeCode and judgeCode take the entry over and remove it when they finish.
+function createExecutionId(requested?: unknown): string {
+  const executionId = typeof requested === 'string' && /^[\w-]{8,64}$/.test(requested) && !activeProcesses.has(requested)
+    ? requested
+    : randomUUID();
+  activeProcesses.set(executionId, createExecution());
+  return executionId;
+}
+
+function createExecution(): ActiveExecution {
+  return { processes: new Set(), aborted: false, stdin: null, workDir: null };
+}
 
-  // Determine time complexity
-  if (isRecursiveFibonacci && !algorithms.memoization) {
-    timeComplexity = "O(2^n)";
-    explanation = "Exponential time complexity due to recursive Fibonacci without memoization. Each call creates two new recursive calls.";
-  } else if (nestedLoopCount > 0) {
-    timeComplexity = "O(n²)";
-    explanation = "Quadratic time complexity due to nested loops.";
-  } else if (algorithms.sorting) {
-    timeComplexity = "O(n log n)";
-    explanation = "Log-linear time complexity due to sorting operation.";
-  } else if (algorithms.binarySearch) {
-    timeComplexity = "O(log n)";
-    explanation = "Logarithmic time complexity due to binary search.";
-  } else if (hasRecursion) {
-    timeComplexity = "O(n)";
-    explanation = "Linear time complexity for recursive operations.";
-  } else if (loopCount > 0) {
-    timeComplexity = "O(n)";
-    explanation = "Linear time complexity due to single loop.";
-  }
-
-  // Determine space complexity
-  const dataStructureCount = Object.values(dataStructures).filter(Boolean).length;
-  if (isRecursiveFibonacci && !algorithms.memoization) {
-    spaceComplexity = "O(n)";
-    explanation += " Linear space complexity due to recursion stack depth of n.";
-  } else if (dataStructureCount > 0) {
-    if (nestedLoopCount > 0) {
-      spaceComplexity = "O(n²)";
-      explanation += " Quadratic space complexity due to nested data structures.";
-    } else if (loopCount > 0) {
-      spaceComplexity = "O(n)";
-      explanation += " Linear space complexity for data structure storage.";
+// Kill a child and everything it spawned. On POSIX the child leads its own
+// process group (see spawnTracked), so signalling the negative PID reaches the whole tree.
+function killProcessTree(child: ChildProcess): boolean {
+  if (child.pid === undefined || child.exitCode !== null || child.signalCode !== null) {
+    return false;
+  }
+
+  try {
+    if (process.platform === 'win32') {
+      spawn('taskkill', ['/pid', String(child.pid), '/T', '/F']);
     } else {
-      spaceComplexity = "O(1)";
-      explanation += " Constant space complexity for single data structure.";
+      process.kill(-child.pid, 'SIGKILL');
     }
-  } else if (hasRecursion) {
-    spaceComplexity = "O(n)";
-    explanation += " Linear space complexity due to recursion stack.";
+    return true;
+  } catch (e) {
+    // Fall back to the direct child if the group is already gone
+    return child.kill('SIGKILL');
   }
+}
+
+// Spawn a compile or run step and register it under its execution so /api/abort can reach it.
+// With `limits` the command runs inside the sandbox, confined to the directory it runs in (the
+// execution's work directory unless `options.cwd` says otherwise, e.g. for a checker) and `writableDirs`.
+function spawnTracked(
+  executionId: string,
+  command: string,
+  args: string[] = [],
+  options: SpawnOptions = {},
+  limits?: SandboxLimits,
+  writableDirs: string[] = []
+): ChildProcess {
+  const execution = activeProcesses.get(executionId);
+  if (execution?.aborted) {
+    throw new Error('Execution aborted by user');
+  }
+
+  const sandboxDir = typeof options.cwd === 'string' ? options.cwd : execution?.workDir;
+  const sandboxed = limits && sandboxDir
+    ? wrapCommand(command, args, sandboxDir, limits, writableDirs)
+    : { command, args };
+
+  const child = spawn(sandboxed.command, sandboxed.args, {
+    ...options,
+    detached: process.platform !== 'win32'
+  });
 
-  return { time: timeComplexity, space: spaceComplexity, explanation };
+  if (execution) {
+    execution.processes.add(child);
+    child.on('close', () => execution.processes.delete(child));
+    child.on('error', () => execution.processes.delete(child));
+  }
+
+  return child;
 }
 
-// Add this function after analyzeComplexity
-function generateAISuggestions(code: string, language: string): Array<{
+// Feed the pre-filled input to a freshly spawned program. Non-interactive runs get EOF right away;
+// interactive runs keep stdin open and expose it to /api/stdin.
+function attachStdin(executionId: string, child: ChildProcess, input: string, interactive: boolean) {
+  if (!child.stdin) return;
+
+  // A program that exits without reading all of its input must not crash the server with EPIPE
+  child.stdin.on('error', () => {});
+
+  if (input) {
+    child.stdin.write(input);
+  }
+
+  if (interactive) {
+    const execution = activeProcesses.get(executionId);
+    if (execution) {
+      execution.stdin = child.stdin;
+      child.on('close', () => {
+        execution.stdin = null;
+      });
+    }
+  } else {
+    child.stdin.end();
+  }
+}
+
+// The server's environment with a step's own variables on top
+function stepEnv(env?: Record<string, string>): NodeJS.ProcessEnv | undefined {
+  return env ? { ...process.env, ...env } : undefined;
+}
+
+// Spawn a program's run step under the usage runner, which reports wall time, CPU time
+// and peak memory on a 4th stdio pipe (see measure.ts)
+function spawnMeasured(
+  executionId: string,
+  command: string,
+  args: string[],
+  options: SpawnOptions,
+  limits: SandboxLimits
+): ChildProcess {
+  const measured = withUsageReport(command, args);
+  return spawnTracked(executionId, measured.command, measured.args, {
+    ...options,
+    stdio: measured.measured ? ['pipe', 'pipe', 'pipe', 'pipe'] : undefined
+  }, limits);
+}
+
+// Kill every process registered under an execution. Returns how many were signalled.
+function abortExecution(executionId: string): number {
+  const execution = activeProcesses.get(executionId);
+  if (!execution) return 0;
+
+  execution.aborted = true;
+  let killed = 0;
+  for (const child of execution.processes) {
+    if (killProcessTree(child)) killed++;
+  }
+  return killed;
+}
+
+// Static Big-O estimate from the language's parser, per function and for the program as a whole.
+// Languages without a parser get none.
+function analyzeComplexity(code: string, language: string): ComplexityEstimate | undefined {
+  const parseProgramStructure = getRuntime(language)?.parseProgramStructure;
+  if (!parseProgramStructure) return undefined;
+
+  try {
+    return estimateComplexity(parseProgramStructure(code));
+  } catch (error) {
+    // The estimate is extra information; code the parser trips over must not fail the run
+    console.error('Complexity analysis failed:', error);
+    return undefined;
+  }
+}
+
+interface CodeSuggestion {
   type: string;
   title: string;
   description: string;
   lineNumbers: number[];
   severity: 'info' | 'warning' | 'critical';
-  improvementCode: string;
-}> {
-  const suggestions: Array<{
-    type: string;
-    title: string;
-    description: string;
-    lineNumbers: number[];
-    severity: 'info' | 'warning' | 'critical';
-    improvementCode: string;
-  }> = [];
+  improvementCode?: string;
+  // Pattern-based advice from this file, or a warning from the language's compiler
+  source: 'heuristic' | 'compiler';
+}
+
+// Add this function after analyzeComplexity
+function generateAISuggestions(code: string, language: string): CodeSuggestion[] {
+  const suggestions: Array<Omit<CodeSuggestion, 'source'>> = [];
 
   // Analyze code structure and patterns
   const lines = code.split('\n');
@@ -268,584 +445,1084 @@ clearInterval(intervalId);`
     });
   }
 
-  return suggestions;
+  return suggestions.map(suggestion => ({ ...suggestion, source: 'heuristic' }));
 }
 
-// Add this function after analyzeComplexity
-function trackMemoryUsage(process: any): Promise<number> {
-  return new Promise((resolve) => {
-    const memoryUsage = process.memoryUsage();
-    // Convert to MB for better readability
-    const memoryInMB = Math.round(memoryUsage.heapUsed / 1024 / 1024 * 100) / 100;
-    resolve(memoryInMB);
+// Warnings from a successful build, as suggestions next to the heuristic ones. Templates and
+// macros can repeat a warning, so each message is listed once per line.
+function compilerSuggestions(warnings: Diagnostic[]): CodeSuggestion[] {
+  const seen = new Set<string>();
+  return warnings.filter(warning => {
+    const key = `${warning.line}:${warning.message}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  }).map(warning => {
+    const text = `${warning.code ?? ''} ${warning.message}`;
+    return {
+      type: /unused|never (?:used|read)|shadow/i.test(text)
+        ? 'readability'
+        : /array-bounds|format|stringop|overflow|divzero|division by zero/i.test(text)
+          ? 'security'
+          : 'bestPractice',
+      title: warning.code ? `Compiler warning (${warning.code})` : 'Compiler warning',
+      description: warning.message,
+      lineNumbers: [warning.line],
+      severity: 'warning',
+      source: 'compiler'
+    };
   });
 }
 
-// Update the executeCode function with better error handling
-async function executeCode(code: string, language: string, input: string = ''): Promise<any> {
-  const tempDir = tmpdir();
-  const timestamp = Date.now();
-  const fileName = `code_${timestamp}`;
-  const filePath = join(tempDir, fileName);
-  let process: ChildProcess | null = null;
+// Progress callbacks used by the streaming endpoint to forward output while a program runs
+type ExecutionPhase = 'compiling' | 'running' | 'benchmarking' | 'scaling';
+type OutputType = 'output' | 'error';
+
+interface ExecutionHooks {
+  onPhase?: (phase: ExecutionPhase) => void;
+  onOutput?: (chunk: string, type: OutputType) => void;
+}
+
+// Outcome of an execution. Everything except `internal_error` is about the submitted program.
+type ExecutionStatus =
+  | 'ok'
+  | 'compile_error'
+  | 'runtime_error'
+  | LimitVerdict
+  | 'aborted'
+  | 'internal_error';
+
+// One-line summary shown in the feedback panel when a run did not succeed
+const STATUS_SUMMARIES: Record<Exclude<ExecutionStatus, 'ok'>, string> = {
+  compile_error: 'Compilation failed. Fix the reported errors and run again.',
+  runtime_error: 'The program crashed or exited with a non-zero code.',
+  time_limit: 'The program exceeded its time limit.',
+  memory_limit: 'The program exceeded its memory limit.',
+  output_limit: 'The program produced too much output.',
+  aborted: 'Execution was aborted.',
+  internal_error: 'Code execution failed.'
+};
+
+interface CompileOutcome {
+  success: boolean;
+  // Everything the compiler printed. Most report on stderr, tsc on stdout.
+  messages: string;
+  durationMs: number;
+}
+
+interface ExecutionOptions {
+  input?: string;
+  executionId?: string;
+  // Keep the program's stdin open after `input` so the user can type into it
+  interactive?: boolean;
+  // Requested runtime settings, checked against the runtime's allow-list
+  settings?: unknown;
+  // Run the program again this many times after a successful run and summarize the timings
+  benchmark?: BenchmarkOptions | null;
+  // Run the program on generated inputs of growing size and fit its complexity
+  scaling?: ScalingOptions | null;
+  hooks?: ExecutionHooks;
+}
+
+const EXECUTION_TIMEOUT_MS = 10000;
+// Interactive programs wait on a human, so they get a much longer wall clock
+const INTERACTIVE_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Run a compiler to completion, forwarding its messages to the client as they are printed
+function runCompiler(
+  executionId: string,
+  step: CommandLine,
+  cwd: string,
+  hooks: ExecutionHooks
+): Promise<CompileOutcome> {
+  const startedAt = performance.now();
+
+  return new Promise((resolve, reject) => {
+    const compiler = spawnTracked(
+      executionId,
+      step.command,
+      step.args,
+      { cwd, env: stepEnv(step.env) },
+      COMPILE_LIMITS,
+      step.writableDirs
+    );
+    let messages = '';
+    const forward = (data: Buffer) => {
+      messages += data.toString();
+      hooks.onOutput?.(data.toString(), 'error');
+    };
+    compiler.stdout!.on('data', forward);
+    compiler.stderr!.on('data', forward);
+    compiler.on('error', reject);
+    compiler.on('close', (code) => {
+      resolve({ success: code === 0, messages, durationMs: performance.now() - startedAt });
+    });
+  });
+}
+
+// Reject settings outside the runtime's allow-list before anything is run. Unknown
+// languages are left to executeCode.
+async function checkSettings(language: string, settings: unknown): Promise<string | null> {
+  await initRuntimes();
+  const runtime = getRuntime(language);
+  if (!runtime) return null;
 
   try {
-    // Check if required compilers are installed
-    if (language === 'java') {
-      try {
-        await new Promise((resolve, reject) => {
-          const checkJava = spawn('java', ['-version']);
-          checkJava.on('error', () => reject(new Error('Java is not installed. Please install Java to run Java code.')));
-          checkJava.on('close', (code) => {
-            if (code === 0) resolve(null);
-            else reject(new Error('Java is not installed. Please install Java to run Java code.'));
-          });
-        });
-      } catch (error) {
-        throw new Error('Java is not installed. Please install Java to run Java code.');
-      }
-    }
+    resolveRuntimeSettings(runtime, settings);
+    return null;
+  } catch (error) {
+    if (error instanceof InvalidSettingsError) return error.message;
+    throw error;
+  }
+}
 
-    if (language === 'cpp') {
-      try {
-        await new Promise((resolve, reject) => {
-          const checkGpp = spawn('g++', ['--version']);
-          checkGpp.on('error', () => reject(new Error('C++ compiler (g++) is not installed. Please install g++ to run C++ code.')));
-          checkGpp.on('close', (code) => {
-            if (code === 0) resolve(null);
-            else reject(new Error('C++ compiler (g++) is not installed. Please install g++ to run C++ code.'));
-          });
-        });
-      } catch (error) {
-        throw new Error('C++ compiler (g++) is not installed. Please install g++ to run C++ code.');
+interface RunOptions {
+  input: string;
+  // Keep stdin open after `input` so /api/stdin can feed the program
+  keepStdinOpen: boolean;
+  // Wall-clock budget; CPU time is capped by the run's sandbox limits
+  timeoutMs: number;
+  hooks: ExecutionHooks;
+  // Takes over the program's stdin instead of `input`, e.g. to connect it to an interactor
+  connect?: (child: ChildProcess) => void;
+}
+
+// What one run of the compiled program did
+interface RunOutcome {
+  output: string;
+  errors: string;
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  wallTimeMs: number;
+  // Unknown without the usage runner
+  cpuTimeMs?: number;
+  memoryMb: number;
+  memorySamples: MemorySample[];
+  // The limit that stopped the program, if any
+  verdict: LimitVerdict | null;
+}
+
+// Run the program once under its sandbox limits. Time and memory are measured from outside:
+// wall time, CPU time and peak RSS from the usage runner, plus a sampled memory series for charts.
+async function runProgram(executionId: string, run: RunCommand, workDir: string, options: RunOptions): Promise<RunOutcome> {
+  const { input, keepStdinOpen, timeoutMs, hooks, connect } = options;
+  const child = spawnMeasured(executionId, run.command, run.args, { cwd: workDir, env: stepEnv(run.env) }, run.limits);
+  const runStartedAt = performance.now();
+  const usageReport = readUsageReport(child);
+  const memorySampler = startMemorySampler(child);
+
+  let output = '';
+  let errors = '';
+  let outputBytes = 0;
+  let outputExceeded = false;
+  let timedOut = false;
+  let timer: NodeJS.Timeout | undefined;
+
+  // Stop the program once it has printed more than the sandbox allows
+  const withinOutputLimit = (data: Buffer): boolean => {
+    outputBytes += data.length;
+    if (outputBytes > run.limits.maxOutputBytes) {
+      if (!outputExceeded) {
+        outputExceeded = true;
+        killProcessTree(child);
       }
+      return false;
     }
+    return true;
+  };
 
-    // Write code to temporary file
-    await writeFile(filePath, code);
-
-    // Execute based on language
-    let startTime = Date.now();
-    let memoryUsage = 0;
-    let executionTime = 0;
-
-    switch (language) {
-      case 'javascript':
-        // For JavaScript, wrap the code in a try-catch block and add memory tracking
-        const wrappedCode = `
-          try {
-            const startTime = process.hrtime.bigint();
-            const startMemory = process.memoryUsage();
-            
-            ${code}
-            
-            const endTime = process.hrtime.bigint();
-            const endMemory = process.memoryUsage();
-            
-            // Calculate execution time in seconds
-            const executionTime = Number(endTime - startTime) / 1_000_000_000;
-            
-            // Calculate memory usage in MB
-            const memoryUsed = (endMemory.heapUsed - startMemory.heapUsed) / 1024 / 1024;
-            
-            console.log("Performance Metrics:");
-            console.log("Execution Time:", executionTime.toFixed(3), "s");
-            console.log("Memory Usage:", memoryUsed.toFixed(2), "MB");
-          } catch (error) {
-            console.error('Error:', error.message);
-            process.exit(1);
-          }
-        `;
-        await writeFile(filePath, wrappedCode);
-        process = spawn('node', [filePath]);
-        break;
-
-      case 'python':
-        // For Python, add memory tracking and execution time
-        const pythonCode = `
-import sys
-import os
-import time
-import gc
-
-def get_memory_usage():
-    # Force garbage collection
-    gc.collect()
-    # Get memory usage in MB
-    return os.getpid()  # Just return process ID for now
-
-try:
-    start_time = time.time()
-    start_memory = get_memory_usage()
-    
-    # User's code with proper indentation
-${code.split('\n').map(line => '    ' + line).join('\n')}
-    
-    end_time = time.time()
-    end_memory = get_memory_usage()
-    
-    execution_time = end_time - start_time
-    # For Windows, we'll use a simple memory estimate
-    memory_used = 0.0  # Memory tracking disabled for Windows compatibility
-    
-    print("Performance Metrics:")
-    print(f"Execution Time: {execution_time:.3f} s")
-    print(f"Memory Usage: {memory_used:.2f} MB")
-except Exception as e:
-    print(f'Error: {str(e)}', file=sys.stderr)
-    sys.exit(1)
-`;
-        await writeFile(filePath, pythonCode);
-        process = spawn('python', [filePath]);
-        break;
-
-      case 'java':
-        // Extract class name from code or use default
-        const classNameMatch = code.match(/public\s+class\s+(\w+)/);
-        const className = classNameMatch ? classNameMatch[1] : 'Main';
-        const javaFile = join(tempDir, `${className}.java`);
-        const javaClass = join(tempDir, `${className}.class`);
-        
-        // Create a complete Java program with timing in nanoseconds
-        const javaProgram = `
-public class ${className} {
-    public static void main(String[] args) {
-        // Start timing in nanoseconds
-        long startTime = System.nanoTime();
-        
-        try {
-            // Create a large array to sort
-            int[] arr = new int[10000];
-            for (int i = 0; i < arr.length; i++) {
-                arr[i] = (int)(Math.random() * 10000);
-            }
-            
-            System.out.println("Original array (first 10 elements):");
-            for (int i = 0; i < 10; i++) {
-                System.out.print(arr[i] + " ");
-            }
-            System.out.println("...");
-            
-            // Start sorting
-            System.out.println("\\nSorting array...");
-            quickSort(arr, 0, arr.length - 1);
-            
-            System.out.println("\\nSorted array (first 10 elements):");
-            for (int i = 0; i < 10; i++) {
-                System.out.print(arr[i] + " ");
-            }
-            System.out.println("...");
-            
-            // Force flush the output buffer
-            System.out.flush();
-            
-            // Sleep for 2500ms to ensure consistent execution time
-            Thread.sleep(2500);
-            
-        } catch (Exception e) {
-            System.err.println("Error: " + e.getMessage());
-            System.exit(1);
-        }
-        
-        // Calculate execution time in nanoseconds
-        long endTime = System.nanoTime();
-        long executionTimeNanos = endTime - startTime;
-        
-        // Print performance metrics
-        System.out.println("Performance Metrics:");
-        System.out.println("Execution Time: " + executionTimeNanos + " ns");
-        System.out.println("Memory Usage: 0.00 MB");
-    }
-    
-    private static void quickSort(int[] arr, int low, int high) {
-        if (low < high) {
-            int pi = partition(arr, low, high);
-            quickSort(arr, low, pi - 1);
-            quickSort(arr, pi + 1, high);
-        }
+  child.stdout?.on('data', (data: Buffer) => {
+    if (!withinOutputLimit(data)) return;
+    const text = data.toString();
+    output += text;
+    hooks.onOutput?.(text, 'output');
+  });
+
+  child.stderr?.on('data', (data: Buffer) => {
+    if (!withinOutputLimit(data)) return;
+    const text = data.toString();
+    errors += text;
+    hooks.onOutput?.(text, 'error');
+  });
+
+  try {
+    if (connect) {
+      // Same EPIPE guard as attachStdin
+      child.stdin?.on('error', () => {});
+      connect(child);
+    } else {
+      attachStdin(executionId, child, input, keepStdinOpen);
     }
-    
-    private static int partition(int[] arr, int low, int high) {
-        int pivot = arr[high];
-        int i = (low - 1);
-        
-        for (int j = low; j < high; j++) {
-            if (arr[j] <= pivot) {
-                i++;
-                int temp = arr[i];
-                arr[i] = arr[j];
-                arr[j] = temp;
-            }
-        }
-        
-        int temp = arr[i + 1];
-        arr[i + 1] = arr[high];
-        arr[high] = temp;
-        
-        return i + 1;
-    }
-}`;
-        
-        try {
-          // Write the Java file
-          await writeFile(javaFile, javaProgram);
-          
-          // Compile
-          await new Promise((resolve, reject) => {
-            const javac = spawn('javac', [javaFile]);
-            let error = '';
-            javac.stderr.on('data', (data) => error += data.toString());
-            javac.on('close', (code) => {
-              if (code === 0) resolve(null);
-              else reject(new Error(`Compilation failed: ${error}`));
-            });
-          });
 
-          // Run
-          const result = await new Promise((resolve, reject) => {
-            const java = spawn('java', ['-cp', tempDir, className]);
-            let output = '';
-            let error = '';
-            let executionTime = 0;
-            
-            java.stdout.on('data', (data) => {
-              const text = data.toString();
-              output += text;
-              
-              // Extract execution time in nanoseconds
-              const timeMatch = text.match(/Execution Time: (\d+) ns/);
-              if (timeMatch) {
-                executionTime = parseInt(timeMatch[1]);
-              }
-            });
-            
-            java.stderr.on('data', (data) => {
-              error += data.toString();
-            });
-            
-            java.on('close', (code) => {
-              if (code === 0) {
-                // Remove performance metrics from output
-                const cleanOutput = output.replace(/Performance Metrics:.*Memory Usage: [\d.]+ MB\n?/s, '').trim();
-                resolve({ output: cleanOutput, executionTime });
-              } else {
-                reject(new Error(`Execution failed: ${error}`));
-              }
-            });
-          });
+    // Past the wall clock the program is killed and its exit status no longer matters
+    const exit = await new Promise<{ exitCode: number | null; signal: NodeJS.Signals | null } | null>((resolve) => {
+      child.on('close', (exitCode: number | null, signal: NodeJS.Signals | null) => resolve({ exitCode, signal }));
+      timer = setTimeout(() => {
+        timedOut = true;
+        killProcessTree(child);
+        resolve(null);
+      }, timeoutMs);
+    });
+    clearTimeout(timer);
 
-          // Convert nanoseconds to seconds for display
-          const executionTimeInSeconds = (result as any).executionTime / 1_000_000_000.0;
-
-          return {
-            output: (result as any).output || 'No output generated',
-            error: null,
-            executionTime: executionTimeInSeconds,
-            memoryUsage: 0,
-            complexity: analyzeComplexity(code, language),
-            suggestions: generateAISuggestions(code, language)
-          };
-        } catch (error) {
-          return {
-            output: null,
-            error: error instanceof Error ? error.message : 'Java execution failed',
-            executionTime: 0,
-            memoryUsage: 0,
-            complexity: analyzeComplexity(code, language),
-            suggestions: generateAISuggestions(code, language)
-          };
-        } finally {
-          // Clean up files
-          try {
-            // Check if files exist before trying to delete them
-            const fileExists = await fs.access(javaFile).then(() => true).catch(() => false);
-            const classExists = await fs.access(javaClass).then(() => true).catch(() => false);
-            
-            if (fileExists) await unlink(javaFile);
-            if (classExists) await unlink(javaClass);
-          } catch (e) {
-            console.error('Cleanup error:', e);
-          }
-        }
+    const fallbackWallTimeMs = performance.now() - runStartedAt;
+    const usage = await usageReport;
+    const memorySamples = memorySampler.stop();
 
-      case 'cpp':
-        // For C++, add memory tracking and proper error handling
-        const cppCode = `
-#include <iostream>
-#include <chrono>
-#include <vector>
-#include <iomanip>
-
-using namespace std;
-
-// Performance tracking functions
-namespace Performance {
-    class Timer {
-    private:
-        chrono::high_resolution_clock::time_point start;
-    public:
-        Timer() {
-            start = chrono::high_resolution_clock::now();
-        }
-        
-        void stop() {
-            auto end = chrono::high_resolution_clock::now();
-            auto duration = chrono::duration_cast<chrono::milliseconds>(end - start);
-            double executionTime = duration.count() / 1000.0;
-            
-            cout << "Performance Metrics:" << endl;
-            cout << "Execution Time: " << fixed << setprecision(3) << executionTime << " s" << endl;
-            cout << "Memory Usage: 0.00 MB" << endl;
-        }
+    // The runner sees the program itself; the child we spawned may be a sandbox wrapper
+    // that turns a fatal signal into an exit code
+    const exitCode = usage ? usage.exitCode : exit?.exitCode ?? null;
+    const signal = usage ? usage.signal : exit?.signal ?? null;
+    const memoryMb = usage ? Math.round(usage.peakMemoryKb / 1024 * 100) / 100 : memorySampler.peakMb();
+
+    return {
+      output,
+      errors,
+      exitCode,
+      signal,
+      // Without the runner only the wall clock around the process is known, which includes
+      // sandbox start-up; CPU time is then unavailable
+      wallTimeMs: usage ? usage.wallTimeMs : fallbackWallTimeMs,
+      cpuTimeMs: usage?.cpuTimeMs,
+      memoryMb,
+      memorySamples,
+      verdict: classifyLimitViolation(
+        {
+          exitCode,
+          signal,
+          cpuTimeMs: usage?.cpuTimeMs,
+          peakMemoryMb: memoryMb,
+          outOfMemoryReported: run.outOfMemoryReport?.test(errors) ?? false
+        },
+        run.limits,
+        { timedOut, outputExceeded }
+      )
     };
+  } finally {
+    clearTimeout(timer);
+    memorySampler.stop();
+    killProcessTree(child);
+  }
 }
 
-${code}`;
-        const cppFile = `${filePath}.cpp`;
-        await writeFile(cppFile, cppCode);
-        
-        // Compile with proper flags for Windows
-        const cppCompileProcess = spawn('g++', [
-          cppFile,
-          '-o', filePath,
-          '-std=c++11',
-          '-Wall'
-        ]);
-        let compileError = '';
-        
-        await new Promise((resolve, reject) => {
-          cppCompileProcess.stderr.on('data', (data) => {
-            compileError += data.toString();
-          });
-          
-          cppCompileProcess.on('close', (code) => {
-            if (code === 0) resolve(null);
-            else reject(new Error(`C++ compilation failed: ${compileError}`));
-          });
-        });
-        
-        process = spawn(filePath);
-        break;
-
-      default:
-        throw new Error(`Unsupported language: ${language}`);
-    }
-
-    if (!process) {
-      throw new Error('Failed to create process');
-    }
-
-    // Handle process output
-    let output = '';
-    let errors = '';
-
-    if (process.stdout) {
-      process.stdout.on('data', (data: Buffer) => {
-        const text = data.toString();
-        output += text;
-        
-        // Extract execution time and memory usage
-        const timeMatch = text.match(/Execution Time: ([\d.]+) s/);
-        const memoryMatch = text.match(/Memory Usage: ([\d.]+) MB/);
-        
-        if (timeMatch) {
-          executionTime = parseFloat(timeMatch[1]);
-        }
-        if (memoryMatch) {
-          memoryUsage = parseFloat(memoryMatch[1]);
-        }
-      });
-    }
+// Re-run a program that already ran successfully: `warmupRuns` times unmeasured, then `runs`
+// measured times, all with the same input and without streaming their output. `check` throws
+// for a run that failed, which fails the execution. Once the budget is spent the remaining
+// runs are skipped, but at least one is always measured.
+async function runBenchmark(
+  executionId: string,
+  run: RunCommand,
+  workDir: string,
+  input: string,
+  { runs, warmupRuns }: BenchmarkOptions,
+  check: (outcome: RunOutcome, label: string) => void
+): Promise<BenchmarkResult> {
+  const startedAt = performance.now();
+  const overBudget = () => performance.now() - startedAt > BENCHMARK_BUDGET_MS;
+  const options: RunOptions = { input, keepStdinOpen: false, timeoutMs: EXECUTION_TIMEOUT_MS, hooks: {} };
 
-    if (process.stderr) {
-      process.stderr.on('data', (data: Buffer) => {
-        errors += data.toString();
-      });
+  for (let i = 1; i <= warmupRuns && !overBudget(); i++) {
+    check(await runProgram(executionId, run, workDir, options), `Warm-up run ${i}`);
+  }
+
+  const samples: BenchmarkSample[] = [];
+  for (let i = 1; i <= runs; i++) {
+    if (samples.length && overBudget()) {
+      return summarizeBenchmark(samples, warmupRuns, `Stopped after ${samples.length} of ${runs} runs, the ${BENCHMARK_BUDGET_MS / 1000} s budget was used up`);
     }
+    const outcome = await runProgram(executionId, run, workDir, options);
+    check(outcome, `Benchmark run ${i}`);
+    const round = (ms: number) => Math.round(ms * 100) / 100;
+    samples.push({
+      wallTimeMs: round(outcome.wallTimeMs),
+      cpuTimeMs: outcome.cpuTimeMs !== undefined ? round(outcome.cpuTimeMs) : undefined,
+      memoryMb: outcome.memoryMb
+    });
+  }
+  return summarizeBenchmark(samples, warmupRuns);
+}
 
-    // Handle input if provided
-    if (input && process.stdin) {
-      process.stdin.write(input);
-      process.stdin.end();
+// Why a generator run produced no input, or null if it did
+function generatorFailure(outcome: RunOutcome): string | null {
+  if (outcome.verdict === 'output_limit') {
+    return `the input exceeded ${MAX_GENERATED_INPUT / 1024 / 1024} MB`;
+  }
+  if (outcome.verdict) {
+    return `the generator was stopped by the ${outcome.verdict.replace(/_/g, ' ')}`;
+  }
+  if (outcome.exitCode !== 0 || outcome.signal) {
+    const reason = outcome.signal ? `was killed by ${outcome.signal}` : `exited with code ${outcome.exitCode}`;
+    return `the generator ${reason}${outcome.errors.trim() ? `:\n${outcome.errors.trim()}` : ''}`;
+  }
+  return null;
+}
+
+// Run a program that already ran successfully once per size with the generated input, smallest
+// first, and fit time and memory against the complexity classes. The first size the program
+// or the generator fails at, or running out of the budget, ends the series; a slow algorithm
+// hitting the time limit at large n is expected, not an error.
+async function runScaling(executionId: string, run: RunCommand, workDir: string, { generator, sizes }: ScalingOptions): Promise<ScalingResult> {
+  const startedAt = performance.now();
+  const options = (input: string): RunOptions => ({ input, keepStdinOpen: false, timeoutMs: EXECUTION_TIMEOUT_MS, hooks: {} });
+  const points: ScalingPoint[] = [];
+  let timeMetric: ScalingResult['timeMetric'] = 'cpu';
+  // Where a generator program is built and runs
+  let generatorDir: string | null = null;
+
+  // A killed process looks like any other failure; an abort must not end as a short series
+  const assertNotAborted = () => {
+    if (activeProcesses.get(executionId)?.aborted) {
+      throw new Error('Execution aborted by user');
     }
+  };
 
-    // Wait for process to complete with timeout
-    const timeout = 10000; // 10 seconds timeout
-    const executionPromise = new Promise((resolve, reject) => {
-      if (!process) {
-        reject(new Error('Process is null'));
-        return;
+  try {
+    let generate: (n: number) => Promise<string>;
+    if ('template' in generator) {
+      const { template } = generator;
+      generate = async (n) => expandTemplate(template, n);
+    } else {
+      const dir = generatorDir = await createWorkDir();
+      let built: RunCommand;
+      try {
+        built = await buildSuppliedProgram(executionId, generator, dir, 'generator');
+      } catch (error) {
+        if (!(error instanceof InputGeneratorError)) throw error;
+        assertNotAborted();
+        return summarizeScaling(points, timeMetric, error.message);
       }
+      generate = async (n) => {
+        const command = { ...built, args: [...built.args, String(n)], limits: { ...built.limits, maxOutputBytes: MAX_GENERATED_INPUT } };
+        const outcome = await runProgram(executionId, command, dir, options(''));
+        assertNotAborted();
+        const failure = generatorFailure(outcome);
+        if (failure) throw new InputGeneratorError(failure);
+        return outcome.output;
+      };
+    }
 
-      process.on('close', (code: number) => {
-        if (code === 0) {
-          resolve(null);
-        } else {
-          const errorMessage = errors || `Process exited with code ${code}`;
-          reject(new Error(errorMessage));
-        }
+    for (const n of sizes) {
+      if (points.length && performance.now() - startedAt > SCALING_BUDGET_MS) {
+        return summarizeScaling(points, timeMetric, `Stopped before n = ${n}, the ${SCALING_BUDGET_MS / 1000} s budget was used up`);
+      }
+      let input: string;
+      try {
+        input = await generate(n);
+      } catch (error) {
+        if (!(error instanceof InputGeneratorError)) throw error;
+        return summarizeScaling(points, timeMetric, `Stopped at n = ${n}: ${error.message}`);
+      }
+      const outcome = await runProgram(executionId, run, workDir, options(input));
+      assertNotAborted();
+      if (outcome.verdict) {
+        return summarizeScaling(points, timeMetric, `Stopped at n = ${n}: ${describeLimitViolation(outcome.verdict, run.limits, EXECUTION_TIMEOUT_MS)}`);
+      }
+      if (outcome.exitCode !== 0 || outcome.signal) {
+        const reason = outcome.signal ? `was killed by ${outcome.signal}` : `exited with code ${outcome.exitCode}`;
+        return summarizeScaling(points, timeMetric, `Stopped at n = ${n}: the program ${reason}`);
+      }
+      if (outcome.cpuTimeMs === undefined) timeMetric = 'wall';
+      points.push({
+        n,
+        timeMs: Math.round((outcome.cpuTimeMs ?? outcome.wallTimeMs) * 100) / 100,
+        memoryMb: outcome.memoryMb
       });
-    });
+    }
+    return summarizeScaling(points, timeMetric);
+  } finally {
+    if (generatorDir) {
+      await removeWorkDir(generatorDir);
+    }
+  }
+}
 
-    // Add timeout to the execution
-    const timeoutPromise = new Promise((_, reject) => {
-      setTimeout(() => {
-        if (process) {
-          process.kill();
-        }
-        reject(new Error('Execution timeout'));
-      }, timeout);
-    });
+// Map a failure from executeCode onto the status reported to the client
+function classifyFailure(error: unknown, aborted: boolean): ExecutionStatus {
+  if (aborted) return 'aborted';
+  if (error instanceof LimitExceededError) return error.verdict;
+  if (error instanceof CompilationError) return 'compile_error';
+  if (error instanceof DiagnosticError) return 'runtime_error';
+  return 'internal_error';
+}
 
-    try {
-      await Promise.race([executionPromise, timeoutPromise]);
-    } catch (error) {
-      console.error('Process execution error:', error);
-      throw error;
-    }
+// Run a submission. Failures of the submitted program (compile errors, crashes, limits, abort)
+// resolve to a result with the matching status; only problems on our side are thrown.
+async function executeCode(code: string, language: string, options: ExecutionOptions = {}): Promise<any> {
+  const { input = '', executionId = randomUUID(), interactive = false, settings: requestedSettings, benchmark, scaling, hooks = {} } = options;
+  // Compiler warnings for the submitted source
+  const diagnostics: Diagnostic[] = [];
 
-    // If execution time wasn't captured from the process output, use the total time
-    if (!executionTime) {
-      executionTime = (Date.now() - startTime) / 1000; // Convert to seconds
-    }
+  // Filled in as the execution progresses, so failed runs report what is known so far
+  let output = '';
+  let errors = '';
+  let exitCode: number | null = null;
+  let signal: NodeJS.Signals | null = null;
+  let compileTime: number | undefined;
+  let executionTime = 0;
+  let cpuTime: number | undefined;
+  let memoryUsage = 0;
+  let memorySamples: MemorySample[] = [];
+  let queries: QueryResult[] | undefined;
+  let sanitizerFindings: SanitizerFinding[] | undefined;
+  let benchmarkResult: BenchmarkResult | undefined;
+  let scalingResult: ScalingResult | undefined;
+  // Warnings from a build that succeeded, reported as suggestions
+  let compilerWarnings: Diagnostic[] = [];
+
+  // Reserved by createExecutionId, which also lets an abort before the run starts take effect
+  const execution = activeProcesses.get(executionId) ?? createExecution();
+  activeProcesses.set(executionId, execution);
 
-    // Analyze complexity
-    const complexity = analyzeComplexity(code, language);
-    const suggestions = generateAISuggestions(code, language);
+  const buildResult = (status: ExecutionStatus, failure?: string, failureDiagnostics: Diagnostic[] = diagnostics) => {
+    // Query plans stand in for the Big-O estimate on SQL runs
+    const complexity = queries ? undefined : analyzeComplexity(code, language);
+    const suggestions = [...compilerSuggestions(compilerWarnings), ...generateAISuggestions(code, language)];
 
     return {
-      output: output.replace(/Performance Metrics:.*Memory Usage: [\d.]+ MB\n?/s, '').trim(),
-      errors: errors || undefined,
+      status,
+      exitCode,
+      signal,
+      output: output.trim(),
+      errors: failure ?? (errors || undefined),
+      compileTime,
       executionTime,
+      cpuTime,
       memoryUsage,
+      memorySamples,
+      diagnostics: failureDiagnostics,
+      queries,
+      sanitizerFindings,
+      benchmark: benchmarkResult,
+      scaling: scalingResult,
       complexity,
       aiFeedback: {
         suggestions,
-        overallQuality: suggestions.length === 0 ? 10 : Math.max(1, 10 - suggestions.length),
-        summary: suggestions.length === 0 
-          ? "Code looks good! No major issues detected."
-          : `Code could be improved. Found ${suggestions.length} suggestion${suggestions.length > 1 ? 's' : ''}.`
+        // Undefined behavior lets a run "succeed", so sanitizer findings always count as failure
+        overallQuality: status !== 'ok' || sanitizerFindings ? 0 : suggestions.length === 0 ? 10 : Math.max(1, 10 - suggestions.length),
+        summary: sanitizerFindings && (status === 'ok' || status === 'runtime_error')
+          ? summarizeFindings(sanitizerFindings)
+          : status !== 'ok'
+          ? STATUS_SUMMARIES[status]
+          : suggestions.length === 0
+            ? "Code looks good! No major issues detected."
+            : `Code could be improved. Found ${suggestions.length} suggestion${suggestions.length > 1 ? 's' : ''}.`
+      }
+    };
+  };
+
+  try {
+    await Promise.all([initSandbox(), initMeasurement(), initRuntimes()]);
+    const workDir = await createWorkDir();
+    execution.workDir = workDir;
+
+    const runtime = getRuntime(language);
+    if (!runtime) {
+      throw new Error(`Unsupported language: ${language}`);
+    }
+    if (!getToolchainStatus(runtime.id).available) {
+      throw new Error(runtime.missingToolchainMessage);
+    }
+    const keepStdinOpen = interactive && runtime.interactive;
+    const settings = resolveRuntimeSettings(runtime, requestedSettings);
+
+    // Sources are written byte-for-byte as submitted, so line numbers in tracebacks and
+    // compiler errors match the editor; all metrics come from outside.
+    const source = await runtime.prepare(code, workDir);
+
+    if (runtime.compile) {
+      hooks.onPhase?.('compiling');
+      const compilation = await runCompiler(executionId, runtime.compile(source, settings, workDir), workDir, hooks);
+      compileTime = compilation.durationMs / 1000;
+      const compileDiagnostics = runtime.parseCompileDiagnostics?.(compilation.messages, source.sourceFile) ?? [];
+      if (!compilation.success) {
+        throw new CompilationError(`${runtime.displayName} compilation failed: ${compilation.messages}`, compileDiagnostics);
+      }
+      diagnostics.push(...compileDiagnostics);
+      compilerWarnings = compileDiagnostics.filter(diagnostic => diagnostic.severity === 'warning');
+    }
+
+    hooks.onPhase?.('running');
+    const run = runtime.run(source, workDir, settings, keepStdinOpen);
+    const timeout = keepStdinOpen ? INTERACTIVE_TIMEOUT_MS : EXECUTION_TIMEOUT_MS;
+    const outcome = await runProgram(executionId, run, workDir, { input, keepStdinOpen, timeoutMs: timeout, hooks });
+
+    ({ output, errors, exitCode, signal, memorySamples } = outcome);
+    executionTime = outcome.wallTimeMs / 1000;
+    cpuTime = outcome.cpuTimeMs !== undefined ? outcome.cpuTimeMs / 1000 : undefined;
+    memoryUsage = outcome.memoryMb;
+    queries = await runtime.readQueryResults?.(workDir);
+    const findings = runtime.parseSanitizerReports?.(errors, source.sourceFile) ?? [];
+    if (findings.length) {
+      sanitizerFindings = findings;
+      diagnostics.push(...sanitizerDiagnostics(findings, source.sourceFile));
+    }
+
+    // A run that hit a limit or did not exit cleanly fails the execution; `label` names
+    // which benchmark run it was
+    const checkOutcome = (outcome: RunOutcome, label?: string) => {
+      const prefix = label ? `${label}: ` : '';
+      if (outcome.verdict) {
+        throw new LimitExceededError(outcome.verdict, prefix + describeLimitViolation(outcome.verdict, run.limits, timeout));
+      }
+      if (outcome.exitCode !== 0 || outcome.signal) {
+        throw new DiagnosticError(
+          prefix + (outcome.errors || (outcome.signal ? `Process was killed by ${outcome.signal}` : `Process exited with code ${outcome.exitCode}`)),
+          [...diagnostics, ...(runtime.parseRuntimeDiagnostics?.(outcome.errors, source.sourceFile, code) ?? [])]
+        );
       }
     };
+    checkOutcome(outcome);
+
+    if (benchmark) {
+      hooks.onPhase?.('benchmarking');
+      benchmarkResult = await runBenchmark(executionId, run, workDir, input, benchmark, checkOutcome);
+    }
+    if (scaling) {
+      hooks.onPhase?.('scaling');
+      scalingResult = await runScaling(executionId, run, workDir, scaling);
+    }
+
+    return buildResult('ok');
   } catch (error) {
     console.error('Execution error:', error);
-    throw error;
+    const status = classifyFailure(error, execution.aborted);
+    if (status === 'internal_error') {
+      throw error;
+    }
+    if (status === 'aborted') {
+      return buildResult(status, 'Execution aborted by user');
+    }
+    return buildResult(
+      status,
+      (error as Error).message,
+      error instanceof DiagnosticError ? error.diagnostics : diagnostics
+    );
   } finally {
-    // Cleanup temporary files and kill process if still running
-    if (process) {
-      try {
-        process.kill();
-      } catch (e) {
-        console.error('Error killing process:', e);
+    activeProcesses.delete(executionId);
+
+    // Remove the whole work directory: sources, classes, binaries and anything the program wrote
+    if (execution.workDir) {
+      await removeWorkDir(execution.workDir);
+    }
+  }
+}
+
+// A program supplied with a request besides the submission
+type SuppliedProgramRole = JudgeProgramRole | 'generator';
+
+// Reject a checker, interactor or input generator we could not run before anything is compiled
+async function checkSuppliedProgram({ language, settings }: CheckerProgram, role: SuppliedProgramRole): Promise<string | null> {
+  await initRuntimes();
+  const runtime = getRuntime(language);
+  const name = role[0].toUpperCase() + role.slice(1);
+  if (!runtime || !canRunChecker(runtime)) {
+    return `${name}s cannot be written in ${language}`;
+  }
+  const settingsError = await checkSettings(language, settings);
+  return settingsError && `${name} settings: ${settingsError}`;
+}
+
+// Build a checker, interactor or input generator in its own work directory. Problems with it
+// are the request's fault, not the server's, so they are thrown as CheckerError, or as
+// InputGeneratorError for a generator.
+async function buildSuppliedProgram(executionId: string, program: CheckerProgram, workDir: string, role: SuppliedProgramRole): Promise<RunCommand> {
+  const Failure = role === 'generator' ? InputGeneratorError : CheckerError;
+  const runtime = getRuntime(program.language)!;
+  if (!getToolchainStatus(runtime.id).available) {
+    throw new Failure(runtime.missingToolchainMessage);
+  }
+  const settings = resolveRuntimeSettings(runtime, program.settings);
+  const source = await runtime.prepare(program.code, workDir);
+
+  if (runtime.compile) {
+    const compilation = await runCompiler(executionId, runtime.compile(source, settings, workDir), workDir, {});
+    if (!compilation.success) {
+      throw new Failure(`The ${role} failed to compile:\n${compilation.messages}`);
+    }
+  }
+  return runtime.run(source, workDir, settings, false);
+}
+
+// Write the files a checker or interactor reads next to it
+async function writeJudgeFiles(workDir: string, files: Record<string, string>) {
+  await Promise.all(Object.entries(files).map(([name, content]) => writeFile(join(workDir, name), content)));
+}
+
+// Run the program and the interactor side by side, each one's stdout feeding the other's stdin,
+// and record what they say. Both run under their own limits and the same wall clock; when one
+// exits the other sees end of input. `firstExit` tells who hung up on whom.
+async function runInteraction(
+  executionId: string,
+  program: { run: RunCommand; workDir: string },
+  interactor: { run: RunCommand; workDir: string },
+  timeoutMs: number
+) {
+  const transcript = recordTranscript();
+  const stdin: { program?: Writable | null; interactor?: Writable | null } = {};
+  let firstExit: 'program' | 'interactor' | null = null;
+
+  const side = (from: 'program' | 'interactor', to: 'program' | 'interactor'): RunOptions => ({
+    input: '',
+    keepStdinOpen: false,
+    timeoutMs,
+    hooks: {
+      onOutput: (text, type) => {
+        if (type !== 'output') return;
+        transcript.write(from, text);
+        stdin[to]?.write(text);
       }
+    },
+    connect: (child) => {
+      stdin[from] = child.stdin;
+      child.on('close', () => {
+        firstExit ??= from;
+        stdin[to]?.end();
+      });
     }
-    
-    try {
-      // Clean up files based on language
-      if (language === 'java') {
-        const javaFile = join(tempDir, 'Main.java');
-        const javaClass = join(tempDir, 'Main.class');
-        try {
-          await fs.access(javaFile);
-          await unlink(javaFile);
-        } catch (e) {
-          // File doesn't exist, ignore error
-        }
-        try {
-          await fs.access(javaClass);
-          await unlink(javaClass);
-        } catch (e) {
-          // File doesn't exist, ignore error
-        }
-      } else if (language === 'cpp') {
-        const cppFile = `${filePath}.cpp`;
-        try {
-          await fs.access(cppFile);
-          await unlink(cppFile);
-        } catch (e) {
-          // File doesn't exist, ignore error
-        }
-      } else {
-        try {
-          await fs.access(filePath);
-          await unlink(filePath);
-        } catch (e) {
-          // File doesn't exist, ignore error
+  });
+
+  const [programOutcome, interactorOutcome] = await Promise.all([
+    runProgram(executionId, program.run, program.workDir, side('program', 'interactor')),
+    runProgram(executionId, interactor.run, interactor.workDir, side('interactor', 'program'))
+  ]);
+  return { program: programOutcome, interactor: interactorOutcome, firstExit, ...transcript.finish() };
+}
+
+// One test case as run by the judge: how the program did, how to grade its output and, for
+// interactive problems, the dialogue
+interface CaseOutcome {
+  outcome: RunOutcome;
+  check: OutputCheck;
+  // Grade before looking at limits and crashes, see judgeCase
+  checkFirst?: boolean;
+  transcript?: TranscriptEntry[];
+  transcriptTruncated?: boolean;
+}
+
+// Compile once, then run the program on every test case of the suite. Compile errors, checker
+// failures and aborts are reported in the result; only problems on our side are thrown.
+async function judgeCode(code: string, language: string, suite: TestSuite, options: { executionId: string; settings?: unknown }) {
+  const { executionId, settings: requestedSettings } = options;
+  const cases: TestCaseResult[] = [];
+  let compileTime: number | undefined;
+  let diagnostics: Diagnostic[] = [];
+  // Where the checker or interactor is built and runs
+  let judgeDir: string | null = null;
+
+  // Reserved by createExecutionId, which also lets an abort before the run starts take effect
+  const execution = activeProcesses.get(executionId) ?? createExecution();
+  activeProcesses.set(executionId, execution);
+
+  const buildResult = (status: 'ok' | 'compile_error' | 'checker_error' | 'aborted', errors?: string) => ({
+    status,
+    errors,
+    compileTime,
+    diagnostics,
+    timeLimitMs: suite.timeLimitMs,
+    cases,
+    passed: cases.filter(result => result.verdict === 'AC').length
+  });
+
+  try {
+    await Promise.all([initSandbox(), initMeasurement(), initRuntimes()]);
+    const workDir = await createWorkDir();
+    execution.workDir = workDir;
+
+    const runtime = getRuntime(language);
+    if (!runtime) {
+      throw new Error(`Unsupported language: ${language}`);
+    }
+    if (!getToolchainStatus(runtime.id).available) {
+      throw new Error(runtime.missingToolchainMessage);
+    }
+    const settings = resolveRuntimeSettings(runtime, requestedSettings);
+    const source = await runtime.prepare(code, workDir);
+
+    if (runtime.compile) {
+      const compilation = await runCompiler(executionId, runtime.compile(source, settings, workDir), workDir, {});
+      compileTime = compilation.durationMs / 1000;
+      diagnostics = runtime.parseCompileDiagnostics?.(compilation.messages, source.sourceFile) ?? [];
+      if (!compilation.success) {
+        return buildResult(execution.aborted ? 'aborted' : 'compile_error', compilation.messages);
+      }
+    }
+
+    // The suite's time limit replaces the usual CPU budget; the wall clock allows for waiting on I/O
+    const run = runtime.run(source, workDir, settings, false);
+    const limited = { ...run, limits: { ...run.limits, cpuTimeSeconds: Math.ceil(suite.timeLimitMs / 1000) + 1 } };
+    const timeoutMs = suite.timeLimitMs * 2 + 1000;
+    const runAlone = (test: TestCase) => runProgram(executionId, limited, workDir, {
+      input: test.input,
+      keepStdinOpen: false,
+      timeoutMs,
+      hooks: {}
+    });
+
+    const { comparison } = suite;
+    let runCase: (test: TestCase) => Promise<CaseOutcome>;
+    if (comparison.mode === 'checker') {
+      const dir = judgeDir = await createWorkDir();
+      const checker = await buildSuppliedProgram(executionId, comparison.checker, dir, 'checker');
+      const [inputFile, expectedFile, actualFile] = CHECKER_FILES;
+      runCase = async (test) => ({
+        outcome: await runAlone(test),
+        check: async (_test, output) => {
+          await writeJudgeFiles(dir, { [inputFile]: test.input, [expectedFile]: test.expectedOutput, [actualFile]: output });
+          const outcome = await runProgram(executionId, { ...checker, args: [...checker.args, ...CHECKER_FILES] }, dir, {
+            input: '',
+            keepStdinOpen: false,
+            timeoutMs: EXECUTION_TIMEOUT_MS,
+            hooks: {}
+          });
+          return checkerVerdict({ ...outcome, limitVerdict: outcome.verdict });
         }
+      });
+    } else if (comparison.mode === 'interactor') {
+      const dir = judgeDir = await createWorkDir();
+      const interactor = await buildSuppliedProgram(executionId, comparison.interactor, dir, 'interactor');
+      const [inputFile, expectedFile] = INTERACTOR_FILES;
+      runCase = async (test) => {
+        await writeJudgeFiles(dir, { [inputFile]: test.input, [expectedFile]: test.expectedOutput });
+        const interaction = await runInteraction(
+          executionId,
+          { run: limited, workDir },
+          { run: { ...interactor, args: [...interactor.args, ...INTERACTOR_FILES] }, workDir: dir },
+          timeoutMs
+        );
+        return {
+          outcome: interaction.program,
+          check: async () => interactorVerdict({ ...interaction.interactor, limitVerdict: interaction.interactor.verdict }),
+          checkFirst: interaction.firstExit === 'interactor',
+          transcript: interaction.transcript,
+          transcriptTruncated: interaction.transcriptTruncated
+        };
+      };
+    } else {
+      runCase = async (test) => ({
+        outcome: await runAlone(test),
+        check: async (_test, output) => compareOutputs(comparison, test.expectedOutput, output)
+      });
+    }
+
+    for (const test of suite.tests) {
+      const { outcome, check, checkFirst, ...dialogue } = await runCase(test);
+      if (execution.aborted) break;
+
+      const result = await judgeCase(test, {
+        ...outcome,
+        timeMs: outcome.cpuTimeMs ?? outcome.wallTimeMs,
+        limitVerdict: outcome.verdict
+      }, suite.timeLimitMs, check, { checkFirst });
+      if (execution.aborted) break;
+      cases.push({ ...result, ...dialogue });
+    }
+
+    return buildResult(execution.aborted ? 'aborted' : 'ok');
+  } catch (error) {
+    if (execution.aborted) {
+      return buildResult('aborted');
+    }
+    if (error instanceof CheckerError) {
+      return buildResult('checker_error', error.message);
+    }
+    throw error;
+  } finally {
+    activeProcesses.delete(executionId);
+    if (execution.workDir) {
+      await removeWorkDir(execution.workDir);
+    }
+    if (judgeDir) {
+      await removeWorkDir(judgeDir);
+    }
+  }
+}
+
+// Shape of the response body when an execution could not produce a result
+function buildErrorResponse(
+  executionId: string | undefined,
+  message: string,
+  { explanation }: { explanation?: string } = {}
+) {
+  return {
+    executionId,
+    result: {
+      status: 'internal_error' as ExecutionStatus,
+      output: '',
+      errors: message,
+      executionTime: 0,
+      memoryUsage: 0,
+      complexity: {
+        time: "Unknown",
+        space: "Unknown",
+        explanation: explanation || "Could not determine complexity due to execution error"
       }
-    } catch (error) {
-      console.error('Error cleaning up files:', error);
+    },
+    aiFeedback: {
+      suggestions: [],
+      overallQuality: 0,
+      summary: explanation || `Code execution failed: ${message}`
     }
+  };
+}
+
+// Benchmark options of an execute request, or why they were rejected. A program waiting on
+// a human cannot be timed, so interactive runs are not benchmarked.
+function parseBenchmarkRequest(benchmark: unknown, interactive: boolean): BenchmarkOptions | null | string {
+  try {
+    const options = parseBenchmarkOptions(benchmark);
+    return options && interactive ? 'Interactive runs cannot be benchmarked' : options;
+  } catch (error) {
+    if (error instanceof InvalidBenchmarkError) return error.message;
+    throw error;
+  }
+}
+
+// Scaling options of an execute request, or why they were rejected
+async function parseScalingRequest(scaling: unknown, interactive: boolean): Promise<ScalingOptions | null | string> {
+  let options: ScalingOptions | null;
+  try {
+    options = parseScalingOptions(scaling);
+  } catch (error) {
+    if (error instanceof InvalidScalingError) return error.message;
+    throw error;
   }
+  if (!options) return null;
+  if (interactive) return 'Interactive runs cannot be measured at growing input sizes';
+  const { generator } = options;
+  return ('template' in generator ? null : await checkSuppliedProgram(generator, 'generator')) ?? options;
 }
 
 // Update the execute route with better error handling
 app.post('/api/execute', async (req, res) => {
-  const { code, language, input } = req.body;
-
-  if (!code || !language) {
-    return res.status(400).json({
-      result: {
-        output: '',
-        errors: 'Code and language are required',
-        executionTime: 0,
-        memoryUsage: 0,
-        complexity: {
-          time: "Unknown",
-          space: "Unknown",
-          explanation: "Invalid input parameters"
-        }
-      },
-      aiFeedback: {
-        suggestions: [],
-        overallQuality: 0,
-        summary: "Invalid input parameters"
-      }
-    });
-  }
+  const { code, language, input, interactive, settings } = req.body;
+  // Claimed once the request is valid, so rejected requests leave no entry behind
+  let executionId: string | undefined;
 
+  // Express 4 does not catch rejected handlers, so everything that can throw stays in here
   try {
+    if (!code || !language) {
+      return res.status(400).json(buildErrorResponse(undefined, 'Code and language are required', { explanation: 'Invalid input parameters' }));
+    }
+    if (input !== undefined && typeof input !== 'string') {
+      return res.status(400).json(buildErrorResponse(undefined, 'Input must be a string', { explanation: 'Invalid input parameters' }));
+    }
+    const settingsError = await checkSettings(language, settings);
+    if (settingsError) {
+      return res.status(400).json(buildErrorResponse(undefined, settingsError, { explanation: 'Invalid settings' }));
+    }
+    const benchmark = parseBenchmarkRequest(req.body.benchmark, interactive === true);
+    if (typeof benchmark === 'string') {
+      return res.status(400).json(buildErrorResponse(undefined, benchmark, { explanation: 'Invalid benchmark options' }));
+    }
+    const scaling = await parseScalingRequest(req.body.scaling, interactive === true);
+    if (typeof scaling === 'string') {
+      return res.status(400).json(buildErrorResponse(undefined, scaling, { explanation: 'Invalid scaling options' }));
+    }
+
+    executionId = createExecutionId(req.body.executionId);
     console.log(`Executing ${language} code...`);
-    const result = await executeCode(code, language, input);
+    const result = await executeCode(code, language, { input, executionId, interactive: interactive === true, settings, benchmark, scaling });
     console.log('Execution completed successfully');
     res.json({
+      executionId,
       result,
       aiFeedback: result.aiFeedback
     });
   } catch (error: unknown) {
     const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
     console.error('API Error:', errorMessage);
-    
-    // Provide more detailed error information
-    const errorResponse = {
-      result: {
-        output: '',
-        errors: errorMessage,
-        executionTime: 0,
-        memoryUsage: 0,
-        complexity: {
-          time: "Unknown",
-          space: "Unknown",
-          explanation: "Could not determine complexity due to execution error"
-        }
-      },
-      aiFeedback: {
-        suggestions: [],
-        overallQuality: 0,
-        summary: `Code execution failed: ${errorMessage}`
+    res.status(500).json(buildErrorResponse(executionId, errorMessage));
+  }
+});
+
+// Streaming variant of /api/execute using Server-Sent Events. Emits `start`, `phase`,
+// `output` ({ chunk, type }) and finally `complete` with the full execution response.
+app.post('/api/execute/stream', async (req, res) => {
+  const { code, language, input, interactive, settings } = req.body;
+
+  // Checked before the event stream starts, so failures still get a status code. Express 4
+  // does not catch rejected handlers, so anything thrown here is answered with a 500.
+  let benchmark: BenchmarkOptions | null;
+  let scaling: ScalingOptions | null;
+  try {
+    if (!code || !language) {
+      return res.status(400).json(buildErrorResponse(undefined, 'Code and language are required', { explanation: 'Invalid input parameters' }));
+    }
+    if (input !== undefined && typeof input !== 'string') {
+      return res.status(400).json(buildErrorResponse(undefined, 'Input must be a string', { explanation: 'Invalid input parameters' }));
+    }
+    const settingsError = await checkSettings(language, settings);
+    if (settingsError) {
+      return res.status(400).json(buildErrorResponse(undefined, settingsError, { explanation: 'Invalid settings' }));
+    }
+    const parsedBenchmark = parseBenchmarkRequest(req.body.benchmark, interactive === true);
+    if (typeof parsedBenchmark === 'string') {
+      return res.status(400).json(buildErrorResponse(undefined, parsedBenchmark, { explanation: 'Invalid benchmark options' }));
+    }
+    const parsedScaling = await parseScalingRequest(req.body.scaling, interactive === true);
+    if (typeof parsedScaling === 'string') {
+      return res.status(400).json(buildErrorResponse(undefined, parsedScaling, { explanation: 'Invalid scaling options' }));
+    }
+    benchmark = parsedBenchmark;
+    scaling = parsedScaling;
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    console.error('API Error:', errorMessage);
+    return res.status(500).json(buildErrorResponse(undefined, errorMessage));
+  }
+
+  const executionId = createExecutionId(req.body.executionId);
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive'
+  });
+  res.flushHeaders();
+
+  const sendEvent = (event: string, data: unknown) => {
+    if (!res.writableEnded) {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    }
+  };
+
+  // Kill the program if the client goes away before it finishes
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      abortExecution(executionId);
+    }
+  });
+
+  sendEvent('start', { executionId });
+
+  try {
+    console.log(`Streaming ${language} execution ${executionId}...`);
+    const result = await executeCode(code, language, {
+      input,
+      executionId,
+      interactive: interactive === true,
+      settings,
+      benchmark,
+      scaling,
+      hooks: {
+        onPhase: (phase) => sendEvent('phase', { phase }),
+        onOutput: (chunk, type) => sendEvent('output', { chunk, type })
       }
-    };
+    });
+    sendEvent('complete', {
+      executionId,
+      result,
+      aiFeedback: result.aiFeedback
+    });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    console.error('API Error:', errorMessage);
+    sendEvent('complete', buildErrorResponse(executionId, errorMessage));
+  } finally {
+    res.end();
+  }
+});
 
-    res.status(500).json(errorResponse);
+// Run a submission against a test suite: `tests` is a list of { name?, input, expectedOutput },
+// `timeLimitMs` the per-case limit and `comparison` how outputs are checked. Responds with a
+// verdict, time and memory per case.
+app.post('/api/judge', async (req, res) => {
+  const { code, language, settings, tests, timeLimitMs, comparison } = req.body;
+  // Claimed once the request is valid, so rejected requests leave no entry behind
+  let executionId: string | undefined;
+
+  // Express 4 does not catch rejected handlers, so everything that can throw stays in here
+  try {
+    if (!code || !language) {
+      return res.status(400).json(buildErrorResponse(undefined, 'Code and language are required', { explanation: 'Invalid input parameters' }));
+    }
+    const settingsError = await checkSettings(language, settings);
+    if (settingsError) {
+      return res.status(400).json(buildErrorResponse(undefined, settingsError, { explanation: 'Invalid settings' }));
+    }
+
+    let suite: TestSuite;
+    try {
+      suite = parseTestSuite(tests, timeLimitMs, comparison);
+    } catch (error) {
+      if (!(error instanceof InvalidTestSuiteError)) throw error;
+      return res.status(400).json(buildErrorResponse(undefined, error.message, { explanation: 'Invalid test suite' }));
+    }
+    const { comparison: parsed } = suite;
+    const checkerError = parsed.mode === 'checker' ? await checkSuppliedProgram(parsed.checker, 'checker')
+      : parsed.mode === 'interactor' ? await checkSuppliedProgram(parsed.interactor, 'interactor')
+      : null;
+    if (checkerError) {
+      return res.status(400).json(buildErrorResponse(undefined, checkerError, { explanation: 'Invalid test suite' }));
+    }
+
+    executionId = createExecutionId(req.body.executionId);
+    console.log(`Judging ${language} code against ${suite.tests.length} test case${suite.tests.length === 1 ? '' : 's'}...`);
+    const result = await judgeCode(code, language, suite, { executionId, settings });
+    res.json({ executionId, result });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    console.error('API Error:', errorMessage);
+    res.status(500).json(buildErrorResponse(executionId, errorMessage));
   }
 });
 
+// Registered language runtimes with their toolchain versions, probed once at startup,
+// and the details the editor needs to offer them
+app.get('/api/runtimes', async (req, res) => {
+  await initRuntimes();
+  res.json({ runtimes: listRuntimes() });
+});
+
 app.post('/api/abort', (req, res) => {
-  // Implement process abortion logic here
+  const { executionId } = req.body ?? {};
+
+  if (typeof executionId !== 'string' || !executionId) {
+    return res.status(400).json({ success: false, message: 'executionId is required' });
+  }
+
+  if (!activeProcesses.has(executionId)) {
+    return res.status(404).json({ success: false, message: 'No active execution with that ID' });
+  }
+
+  const killed = abortExecution(executionId);
+  console.log(`Aborted execution ${executionId} (${killed} process${killed === 1 ? '' : 'es'} killed)`);
+  res.json({ success: true, killed });
+});
+
+// Write to the stdin of an interactive execution, or close it with `eof: true`
+app.post('/api/stdin', (req, res) => {
+  const { executionId, data, eof } = req.body ?? {};
+
+  if (typeof executionId !== 'string' || !executionId) {
+    return res.status(400).json({ success: false, message: 'executionId is required' });
+  }
+
+  const stdin = activeProcesses.get(executionId)?.stdin;
+  if (!stdin || stdin.writableEnded) {
+    return res.status(404).json({ success: false, message: 'No running program is accepting input for that ID' });
+  }
+
+  if (typeof data === 'string' && data.length > 0) {
+    stdin.write(data);
+  }
+  if (eof === true) {
+    stdin.end();
+  }
+
   res.json({ success: true });
 });
 
 // Start server
 app.listen(port, () => {
   console.log(`Backend server running at http://localhost:${port}`);
-}); 
\ No newline at end of file
+});
+
+// Probe the sandbox tools and toolchains and build the usage runner up front so the first request does not pay for it
+initSandbox();
+initMeasurement();
+initRuntimes();
+
+// Sweep work directories left behind by previous crashes, then keep sweeping periodically
+cleanupOrphanedWorkDirs();
+setInterval(cleanupOrphanedWorkDirs, WORK_DIR_JANITOR_INTERVAL_MS).unref(); 
\ No newline at end of file
@@ -0,0 +1,50 @@
+import { InvalidBenchmarkError, parseBenchmarkOptions, summarize, summarizeBenchmark } from '../src/benchmark';
+
+describe('parseBenchmarkOptions', () => {
+  it('reads no benchmark, the defaults or the given counts', () => {
+    expect(parseBenchmarkOptions(undefined)).toBeNull();
+    expect(parseBenchmarkOptions(false)).toBeNull();
+    expect(parseBenchmarkOptions(true)).toEqual({ runs: 10, warmupRuns: 1 });
+    expect(parseBenchmarkOptions({ runs: 3 })).toEqual({ runs: 3, warmupRuns: 1 });
+    expect(parseBenchmarkOptions({ runs: 50, warmupRuns: 0 })).toEqual({ runs: 50, warmupRuns: 0 });
+  });
+
+  it.each([5, 'x', [], [3]])('rejects %p instead of running the defaults', (benchmark) => {
+    expect(() => parseBenchmarkOptions(benchmark)).toThrow(InvalidBenchmarkError);
+  });
+
+  it.each([{ runs: 0 }, { runs: 51 }, { runs: 2.5 }, { runs: '3' }, { warmupRuns: -1 }, { warmupRuns: 11 }])(
+    'rejects counts out of range: %p',
+    (benchmark) => {
+      expect(() => parseBenchmarkOptions(benchmark)).toThrow(InvalidBenchmarkError);
+    }
+  );
+});
+
+describe('summarize', () => {
+  it('computes order statistics with interpolated percentiles and the sample deviation', () => {
+    expect(summarize([4, 1, 3, 2])).toEqual({ min: 1, median: 2.5, mean: 2.5, p95: 3.85, stddev: 1.29 });
+  });
+
+  it('has no deviation for a single value', () => {
+    expect(summarize([7])).toEqual({ min: 7, median: 7, mean: 7, p95: 7, stddev: 0 });
+  });
+});
+
+describe('summarizeBenchmark', () => {
+  it('summarizes each metric and leaves out CPU time unless every run measured it', () => {
+    const samples = [
+      { wallTimeMs: 10, cpuTimeMs: 8, memoryMb: 5 },
+      { wallTimeMs: 12, cpuTimeMs: 9, memoryMb: 5 }
+    ];
+    const result = summarizeBenchmark(samples, 1);
+    expect(result).toMatchObject({ runs: 2, warmupRuns: 1, samples });
+    expect(result.wallTimeMs.mean).toBe(11);
+    expect(result.cpuTimeMs?.median).toBe(8.5);
+    expect(result.memoryMb.stddev).toBe(0);
+
+    const partial = summarizeBenchmark([{ wallTimeMs: 10, memoryMb: 5 }, samples[1]], 0, 'Stopped after 2 of 5 runs');
+    expect(partial.cpuTimeMs).toBeUndefined();
+    expect(partial.stoppedEarly).toBe('Stopped after 2 of 5 runs');
+  });
+});
@@ -0,0 +1,73 @@
+import { CheckerError, CheckerRun, checkerVerdict, compareOutputs, interactorVerdict } from '../src/checkers';
+
+describe('compareOutputs', () => {
+  it('compares lines ignoring trailing whitespace and trailing blank lines', () => {
+    expect(compareOutputs({ mode: 'lines' }, '1\n2\n', '1  \r\n2\n\n\n')).toEqual({ accepted: true });
+    expect(compareOutputs({ mode: 'lines' }, '1\n2', '1\n3')).toEqual({ accepted: false, message: 'Line 2 differs' });
+    expect(compareOutputs({ mode: 'lines' }, '1\n2', '1')).toEqual({ accepted: false, message: 'Output ended after 1 lines, expected 2' });
+    expect(compareOutputs({ mode: 'lines' }, '1', '1\n2')).toEqual({ accepted: false, message: 'Expected 1 lines, got more' });
+  });
+
+  it('collapses runs of whitespace within lines in whitespace mode', () => {
+    expect(compareOutputs({ mode: 'whitespace' }, '1 2 3', '  1\t2   3').accepted).toBe(true);
+    expect(compareOutputs({ mode: 'whitespace' }, '1 2\n3', '1 2 3').accepted).toBe(false);
+  });
+
+  it('ignores line structure in tokens mode', () => {
+    expect(compareOutputs({ mode: 'tokens' }, '1 2\n3', '1\n2 3\n').accepted).toBe(true);
+    expect(compareOutputs({ mode: 'tokens' }, '1 2 3', '1 2 4'))
+      .toEqual({ accepted: false, message: 'Token 3 differs: expected "3", got "4"' });
+    expect(compareOutputs({ mode: 'tokens' }, '1 2', '1 2 3'))
+      .toEqual({ accepted: false, message: 'Expected 2 tokens, got 3' });
+  });
+
+  it('accepts numbers within either tolerance in float mode', () => {
+    const float = { mode: 'float' as const, absoluteTolerance: 1e-6, relativeTolerance: 1e-3 };
+    expect(compareOutputs(float, '0.3333333', '0.33333335').accepted).toBe(true);
+    expect(compareOutputs(float, '1000000', '1000500').accepted).toBe(true);
+    expect(compareOutputs(float, '1000000', '1002000').accepted).toBe(false);
+    expect(compareOutputs(float, '1.0 yes', '1 yes').accepted).toBe(true);
+    // Words never get a tolerance
+    expect(compareOutputs(float, 'nan', 'NaN').accepted).toBe(false);
+  });
+
+  it('matches lines in any order, counting duplicates, in unordered mode', () => {
+    expect(compareOutputs({ mode: 'unordered' }, 'a\nb\nb', 'b\na\nb').accepted).toBe(true);
+    expect(compareOutputs({ mode: 'unordered' }, 'a\nb\nb', 'b\na\na'))
+      .toEqual({ accepted: false, message: 'Unexpected line "a"' });
+    expect(compareOutputs({ mode: 'unordered' }, 'a\nb', 'a'))
+      .toEqual({ accepted: false, message: 'Missing line "b"' });
+  });
+});
+
+const completed: CheckerRun = { output: '', errors: '', exitCode: 0, signal: null, limitVerdict: null };
+
+describe('checkerVerdict', () => {
+  it('reads AC or WA and the comment from stdout', () => {
+    expect(checkerVerdict({ ...completed, output: 'AC\n' })).toEqual({ accepted: true, message: undefined });
+    expect(checkerVerdict({ ...completed, output: 'WA sum is 7, expected 8\n' }))
+      .toEqual({ accepted: false, message: 'sum is 7, expected 8' });
+    expect(checkerVerdict({ ...completed, output: 'WA' })).toEqual({ accepted: false, message: 'Rejected by the checker' });
+  });
+
+  it('fails without a verdict, on a crash or on a limit', () => {
+    expect(() => checkerVerdict({ ...completed, output: 'looks fine' })).toThrow(CheckerError);
+    expect(() => checkerVerdict({ ...completed, output: 'AC', exitCode: 1, errors: 'Traceback' }))
+      .toThrow('The checker exited with code 1:\nTraceback');
+    expect(() => checkerVerdict({ ...completed, output: 'AC', limitVerdict: 'time_limit' }))
+      .toThrow('The checker was stopped by the time limit');
+  });
+});
+
+describe('interactorVerdict', () => {
+  it('takes the last verdict line from stderr and ignores other logging', () => {
+    const errors = 'asked 3\nWA too early\nasked 5\nAC found in 5 guesses\ndone\n';
+    expect(interactorVerdict({ ...completed, output: 'WA', errors }))
+      .toEqual({ accepted: true, message: 'found in 5 guesses' });
+  });
+
+  it('fails when stderr has no verdict', () => {
+    expect(() => interactorVerdict({ ...completed, output: 'AC', errors: 'debug only' }))
+      .toThrow('The interactor must print AC or WA on stderr');
+  });
+});
@@ -0,0 +1,211 @@
+import {
+  ProgramStructure,
+  counterBound,
+  estimateComplexity,
+  parseBraceLanguage,
+  parseJavaScript,
+  parsePython,
+  whileBound
+} from '../src/complexity';
+
+const complexityOf = (structure: ProgramStructure, name: string) =>
+  estimateComplexity(structure).functions.find(fn => fn.name === name);
+
+describe('recursion in Python', () => {
+  it('is exponential for two calls on a smaller input', () => {
+    const program = parsePython(`
+def fib(n):
+    if n < 2:
+        return n
+    return fib(n - 1) + fib(n - 2)
+
+print(fib(int(input())))
+`);
+    expect(complexityOf(program, 'fib')).toMatchObject({
+      time: 'O(2^n)',
+      space: 'O(n)',
+      explanation: 'O(2^n) time from 2 recursive calls on a smaller input (line 5). O(n) extra space from recursion depth (line 5).'
+    });
+  });
+
+  it('is linear when the results are cached', () => {
+    const program = parsePython(`
+from functools import lru_cache
+
+@lru_cache(maxsize=None)
+def fib(n):
+    if n < 2:
+        return n
+    return fib(n - 1) + fib(n - 2)
+`);
+    expect(complexityOf(program, 'fib')).toMatchObject({ time: 'O(n)', space: 'O(n)' });
+  });
+
+  it('is logarithmic for one call on half the input', () => {
+    const program = parsePython(`
+def power(x, n):
+    if n == 0:
+        return 1
+    half = power(x, n // 2)
+    return half * half * (x if n % 2 else 1)
+`);
+    expect(complexityOf(program, 'power')).toMatchObject({ time: 'O(log n)', space: 'O(log n)' });
+  });
+
+  it('is n log n for two calls on halves with linear work, as in merge sort', () => {
+    const program = parsePython(`
+def merge_sort(a):
+    if len(a) <= 1:
+        return a
+    mid = len(a) // 2
+    left = merge_sort(a[:mid])
+    right = merge_sort(a[mid:])
+    merged = []
+    for x in left + right:
+        merged.append(x)
+    return merged
+`);
+    expect(complexityOf(program, 'merge_sort')).toMatchObject({ time: 'O(n log n)' });
+  });
+
+  it('is linear for one call per child of a tree', () => {
+    const program = parsePython(`
+def size(node):
+    if node is None:
+        return 0
+    return 1 + size(node.left) + size(node.right)
+`);
+    expect(complexityOf(program, 'size')).toMatchObject({ time: 'O(n)', space: 'O(n)' });
+  });
+});
+
+describe('loops in Python', () => {
+  it('multiplies nested loops and reports the lines that drive the bound', () => {
+    const estimate = estimateComplexity(parsePython(`
+n = int(input())
+total = 0
+for i in range(n):
+    for j in range(n):
+        total += i * j
+print(total)
+`));
+    expect(estimate.time).toBe('O(n²)');
+    expect(estimate.explanation)
+      .toBe('O(n²) time from loop over the input (line 4), loop over the input (line 5). Constant extra space.');
+  });
+
+  it('counts a loop that halves its counter as logarithmic and a fixed range as constant', () => {
+    expect(estimateComplexity(parsePython(`
+n = int(input())
+while n > 0:
+    n //= 2
+`)).time).toBe('O(log n)');
+    expect(estimateComplexity(parsePython(`
+for i in range(10):
+    print(i)
+`)).time).toBe('O(1)');
+  });
+
+  it('adds the cost of library calls', () => {
+    expect(estimateComplexity(parsePython(`
+a = list(map(int, input().split()))
+a.sort()
+`)).time).toBe('O(n log n)');
+  });
+});
+
+describe('brace languages', () => {
+  it('splits quicksort at the pivot in C++', () => {
+    const program = parseBraceLanguage(`
+#include <vector>
+int partition(std::vector<int>& a, int lo, int hi) {
+    int pivot = a[hi], i = lo;
+    for (int j = lo; j < hi; j++) {
+        if (a[j] < pivot) std::swap(a[i++], a[j]);
+    }
+    std::swap(a[i], a[hi]);
+    return i;
+}
+
+void quicksort(std::vector<int>& a, int lo, int hi) {
+    if (lo >= hi) return;
+    int p = partition(a, lo, hi);
+    quicksort(a, lo, p - 1);
+    quicksort(a, p + 1, hi);
+}
+`, 'cpp');
+    expect(complexityOf(program, 'quicksort')).toMatchObject({ time: 'O(n log n)', space: 'O(log n)' });
+  });
+
+  it('finds binary search in a Java while loop', () => {
+    const program = parseBraceLanguage(`
+class Main {
+    static int find(int[] a, int x) {
+        int lo = 0, hi = a.length - 1;
+        while (lo <= hi) {
+            int mid = (lo + hi) / 2;
+            if (a[mid] < x) lo = mid + 1;
+            else hi = mid - 1;
+        }
+        return lo;
+    }
+}
+`, 'java');
+    expect(complexityOf(program, 'find')?.time).toBe('O(log n)');
+  });
+
+  it('takes main as the entry in Go', () => {
+    const estimate = estimateComplexity(parseBraceLanguage(`
+package main
+
+import "fmt"
+
+func main() {
+	var n int
+	fmt.Scan(&n)
+	total := 0
+	for i := 0; i < n; i++ {
+		for j := 1; j < n; j *= 2 {
+			total += j
+		}
+	}
+	fmt.Println(total)
+}
+`, 'go'));
+    expect(estimate.time).toBe('O(n log n)');
+  });
+});
+
+describe('JavaScript', () => {
+  it('analyzes function declarations and arrow functions', () => {
+    const program = parseJavaScript(`
+const pairs = (a) => {
+  let count = 0;
+  for (let i = 0; i < a.length; i++) {
+    for (let j = i + 1; j < a.length; j++) count++;
+  }
+  return count;
+};
+
+function fib(n) {
+  return n < 2 ? n : fib(n - 1) + fib(n - 2);
+}
+`, 'main.js');
+    expect(complexityOf(program, 'pairs')?.time).toBe('O(n²)');
+    expect(complexityOf(program, 'fib')?.time).toBe('O(2^n)');
+  });
+});
+
+describe('loop bounds', () => {
+  it('reads counted loops', () => {
+    expect(counterBound('i < n', 'i++', '')).toBe('linear');
+    expect(counterBound('i < n', 'i *= 2', '')).toBe('halving');
+    expect(counterBound('i < 26', 'i++', '')).toBe('constant');
+  });
+
+  it('reads condition loops', () => {
+    expect(whileBound('n > 0', 'n >>= 1;')).toBe('halving');
+    expect(whileBound('lo < hi', 'mid = (lo + hi) / 2; if (ok) hi = mid; else lo = mid + 1;')).toBe('halving');
+    expect(whileBound('i < n', 'i += 1')).toBe('linear');
+  });
+});
@@ -0,0 +1,119 @@
+import { CaseRun, InvalidTestSuiteError, OutputCheck, judgeCase, parseTestSuite, recordTranscript } from '../src/judge';
+
+const test = { name: 'Sample', input: '1 2\n', expectedOutput: '3\n' };
+
+const cleanRun: CaseRun = {
+  output: '3\n',
+  errors: '',
+  exitCode: 0,
+  signal: null,
+  timeMs: 12,
+  memoryMb: 4,
+  limitVerdict: null
+};
+
+const accept: OutputCheck = async () => ({ accepted: true });
+const reject: OutputCheck = async () => ({ accepted: false, message: 'Line 1 differs' });
+
+describe('parseTestSuite', () => {
+  it('fills in names, empty input, the default time limit and line comparison', () => {
+    const suite = parseTestSuite([{ expectedOutput: '3' }, { name: '  Big  ', input: '5', expectedOutput: '5' }], undefined);
+
+    expect(suite.tests).toEqual([
+      { name: 'Test 1', input: '', expectedOutput: '3' },
+      { name: 'Big', input: '5', expectedOutput: '5' }
+    ]);
+    expect(suite.timeLimitMs).toBe(2000);
+    expect(suite.comparison).toEqual({ mode: 'lines' });
+  });
+
+  it.each([
+    ['no tests', [], undefined, undefined],
+    ['tests that are not a list', 'tests', undefined, undefined],
+    ['a test without expected output', [{ input: '1' }], undefined, undefined],
+    ['a fractional time limit', [test], 150.5, undefined],
+    ['a time limit out of range', [test], 50, undefined],
+    ['an unknown comparison mode', [test], undefined, { mode: 'fuzzy' }],
+    ['a negative tolerance', [test], undefined, { mode: 'float', absoluteTolerance: -1 }],
+    ['a checker without code', [test], undefined, { mode: 'checker', checker: { language: 'python', code: ' ' } }]
+  ])('rejects %s', (_, tests, timeLimitMs, comparison) => {
+    expect(() => parseTestSuite(tests, timeLimitMs, comparison)).toThrow(InvalidTestSuiteError);
+  });
+
+  it('keeps the tolerances and programs of the comparison', () => {
+    expect(parseTestSuite([test], 1000, { mode: 'float', relativeTolerance: 0.01 }).comparison)
+      .toEqual({ mode: 'float', absoluteTolerance: 1e-6, relativeTolerance: 0.01 });
+    expect(parseTestSuite([test], 1000, { mode: 'interactor', interactor: { language: 'python', code: 'print()' } }).comparison)
+      .toEqual({ mode: 'interactor', interactor: { language: 'python', code: 'print()', settings: undefined } });
+  });
+});
+
+describe('judgeCase', () => {
+  it('accepts a clean run whose output passes the check', async () => {
+    const result = await judgeCase(test, cleanRun, 1000, accept);
+    expect(result).toMatchObject({ name: 'Sample', verdict: 'AC', timeMs: 12, memoryMb: 4, output: '3\n' });
+  });
+
+  it('reports the check message on a wrong answer', async () => {
+    expect(await judgeCase(test, cleanRun, 1000, reject)).toMatchObject({ verdict: 'WA', message: 'Line 1 differs' });
+  });
+
+  it('gives TLE for a run over the time limit even if its output is right', async () => {
+    expect((await judgeCase(test, { ...cleanRun, timeMs: 1500 }, 1000, accept)).verdict).toBe('TLE');
+    expect((await judgeCase(test, { ...cleanRun, limitVerdict: 'time_limit' }, 1000, accept)).verdict).toBe('TLE');
+  });
+
+  it('gives MLE for the memory limit and RE for other limits and crashes', async () => {
+    expect((await judgeCase(test, { ...cleanRun, limitVerdict: 'memory_limit' }, 1000, accept)).verdict).toBe('MLE');
+    expect(await judgeCase(test, { ...cleanRun, limitVerdict: 'output_limit' }, 1000, accept))
+      .toMatchObject({ verdict: 'RE', message: 'Stopped by the output limit' });
+    expect(await judgeCase(test, { ...cleanRun, exitCode: 3 }, 1000, accept))
+      .toMatchObject({ verdict: 'RE', message: 'Exited with code 3' });
+    expect(await judgeCase(test, { ...cleanRun, exitCode: null, signal: 'SIGSEGV' }, 1000, accept))
+      .toMatchObject({ verdict: 'RE', message: 'Killed by SIGSEGV' });
+  });
+
+  it('does not check the output of a crashed run', async () => {
+    const check = jest.fn(accept);
+    await judgeCase(test, { ...cleanRun, exitCode: 1 }, 1000, check);
+    expect(check).not.toHaveBeenCalled();
+  });
+
+  it('lets a rejection checked first win over a crash', async () => {
+    const result = await judgeCase(test, { ...cleanRun, exitCode: 1 }, 1000, reject, { checkFirst: true });
+    expect(result).toMatchObject({ verdict: 'WA', message: 'Line 1 differs' });
+  });
+
+  it('truncates long output', async () => {
+    const result = await judgeCase(test, { ...cleanRun, output: 'x'.repeat(70 * 1024) }, 1000, accept);
+    expect(result.output).toHaveLength(64 * 1024);
+    expect(result.outputTruncated).toBe(true);
+  });
+});
+
+describe('recordTranscript', () => {
+  it('joins lines split across chunks and keeps unfinished lines at the end', () => {
+    const transcript = recordTranscript();
+    transcript.write('interactor', '5\n');
+    transcript.write('program', 'gue');
+    transcript.write('program', 'ss 3\r\nguess 4');
+    transcript.write('interactor', 'higher\n');
+
+    const { transcript: entries, transcriptTruncated } = transcript.finish();
+    expect(entries.map(({ from, text }) => [from, text])).toEqual([
+      ['interactor', '5'],
+      ['program', 'guess 3'],
+      ['interactor', 'higher'],
+      ['program', 'guess 4']
+    ]);
+    expect(transcriptTruncated).toBeUndefined();
+  });
+
+  it('stops recording after 1000 lines', () => {
+    const transcript = recordTranscript();
+    transcript.write('program', 'line\n'.repeat(1001));
+    const { transcript: entries, transcriptTruncated } = transcript.finish();
+    expect(entries).toHaveLength(1000);
+    expect(transcriptTruncated).toBe(true);
+  });
+});
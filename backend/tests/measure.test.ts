@@ -0,0 +1,29 @@
+import { spawn } from 'child_process';
+import { readFile } from 'fs/promises';
+import { initMeasurement, isWrapperProcess, readUsageReport, withUsageReport } from '../src/measure';
+
+const processName = async (pid: number) =>
+  (await readFile(`/proc/${pid}/status`, 'utf8')).match(/^Name:\s+(.*)$/m)?.[1];
+
+describe('isWrapperProcess', () => {
+  it('recognizes the wrappers but not the program', () => {
+    expect(isWrapperProcess('prlimit')).toBe(true);
+    expect(isWrapperProcess('bwrap')).toBe(true);
+    expect(isWrapperProcess('python3')).toBe(false);
+  });
+
+  const linux = process.platform === 'linux' ? it : it.skip;
+
+  linux('recognizes the usage runner by the name the kernel reports for it', async () => {
+    if (!(await initMeasurement())) return;
+
+    const { command, args } = withUsageReport('sleep', ['0.2']);
+    const child = spawn(command, args, { stdio: ['ignore', 'ignore', 'ignore', 'pipe'] });
+    const report = readUsageReport(child);
+    try {
+      expect(isWrapperProcess((await processName(child.pid!))!)).toBe(true);
+    } finally {
+      await report;
+    }
+  });
+});
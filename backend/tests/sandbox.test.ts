@@ -0,0 +1,76 @@
+import { RUN_LIMITS, RunReport, classifyLimitViolation } from '../src/sandbox';
+import c from '../src/runtimes/c';
+import cpp from '../src/runtimes/cpp';
+import go from '../src/runtimes/go';
+import java from '../src/runtimes/java';
+import javascript from '../src/runtimes/javascript';
+import python from '../src/runtimes/python';
+import rust from '../src/runtimes/rust';
+import { LanguageRuntime } from '../src/runtimes/types';
+
+const source = { sourceFile: 'main', entryPoint: 'Main' };
+const noFlags = { timedOut: false, outputExceeded: false };
+
+// Classify a failed run of `runtime` from what it printed on stderr
+function classify(
+  runtime: LanguageRuntime,
+  stderr: string,
+  report: Partial<RunReport>,
+  settings: Record<string, string | boolean> = {}
+) {
+  const run = runtime.run(source, '/tmp', { interpreter: 'python3', optimize: false, heapMb: '256', ...settings }, false);
+  return classifyLimitViolation({
+    exitCode: 1,
+    signal: null,
+    cpuTimeMs: 100,
+    peakMemoryMb: 10,
+    outOfMemoryReported: run.outOfMemoryReport?.test(stderr) ?? false,
+    ...report
+  }, run.limits, noFlags);
+}
+
+describe('classifyLimitViolation', () => {
+  it('keeps a runtime error after a large but legal allocation', () => {
+    const traceback = 'Traceback (most recent call last):\n  File "main.py", line 3, in <module>\n    d["missing"]\nKeyError: \'missing\'\n';
+    expect(classify(python, traceback, { peakMemoryMb: 150 })).toBeNull();
+
+    // A JVM's baseline footprint alone is above a 64 MB heap
+    const exception = 'Exception in thread "main" java.lang.IllegalStateException: bad input\n\tat Main.main(Main.java:5)\n';
+    expect(classify(java, exception, { peakMemoryMb: 90 }, { heapMb: '64' })).toBeNull();
+  });
+
+  it.each([
+    ['Python', python, 'Traceback (most recent call last):\n  File "main.py", line 2, in <module>\nMemoryError\n', 1],
+    ['Java', java, 'Terminating due to java.lang.OutOfMemoryError: Java heap space\n', 3],
+    ['Node', javascript, 'FATAL ERROR: Reached heap limit Allocation failed - JavaScript heap out of memory\n', 134],
+    ['C++', cpp, "terminate called after throwing an instance of 'std::bad_alloc'\n  what():  std::bad_alloc\n", 134],
+    ['Go', go, 'runtime: out of memory: cannot allocate 16777216-byte block (255557632 in use)\nfatal error: out of memory\n', 2],
+    ['Rust', rust, 'memory allocation of 16777216 bytes failed\n', 134]
+  ])('takes the %s runtime\'s report of a failed allocation', (_, runtime, stderr, exitCode) => {
+    expect(classify(runtime, stderr, { exitCode, peakMemoryMb: 120 })).toBe('memory_limit');
+  });
+
+  it('takes the sanitizer\'s report of the exhausted memory limit', () => {
+    const report = '==1==ERROR: AddressSanitizer: specified RSS limit exceeded, currently set to soft_rss_limit_mb=256\n';
+    expect(classify(cpp, report, { peakMemoryMb: 260 }, { sanitizers: true })).toBe('memory_limit');
+    expect(classify(cpp, '==1==ERROR: AddressSanitizer: heap-buffer-overflow\n', { peakMemoryMb: 260 }, { sanitizers: true })).toBeNull();
+  });
+
+  it('takes a crash right at the address-space limit for a refused allocation', () => {
+    const crash = { exitCode: null, signal: 'SIGSEGV' as const };
+    expect(classify(c, '', { ...crash, peakMemoryMb: 245 })).toBe('memory_limit');
+    expect(classify(c, '', { ...crash, peakMemoryMb: 150 })).toBeNull();
+    // The JVM runs without RLIMIT_AS, so a crash says nothing about its memory
+    expect(classify(java, '', { ...crash, peakMemoryMb: 300 })).toBeNull();
+  });
+
+  it('ignores memory reports from runs that succeeded', () => {
+    expect(classify(python, 'MemoryError\n', { exitCode: 0 })).toBeNull();
+  });
+
+  it('puts the time and output limits first', () => {
+    const report: RunReport = { exitCode: null, signal: 'SIGKILL', cpuTimeMs: 6000, peakMemoryMb: 250, outOfMemoryReported: true };
+    expect(classifyLimitViolation(report, RUN_LIMITS, noFlags)).toBe('time_limit');
+    expect(classifyLimitViolation({ ...report, signal: 'SIGXFSZ' }, RUN_LIMITS, noFlags)).toBe('output_limit');
+  });
+});
@@ -0,0 +1,96 @@
+import {
+  InputGeneratorError,
+  InvalidScalingError,
+  ScalingPoint,
+  expandTemplate,
+  parseScalingOptions,
+  summarizeScaling
+} from '../src/scaling';
+
+describe('parseScalingOptions', () => {
+  it('turns minN, maxN and steps into a geometric series of sizes', () => {
+    expect(parseScalingOptions({ generator: { template: '{n}\n{range}' }, minN: 10, maxN: 10_000, steps: 4 }))
+      .toEqual({ generator: { template: '{n}\n{range}' }, sizes: [10, 100, 1000, 10_000] });
+  });
+
+  it('accepts a generator program', () => {
+    const { generator } = parseScalingOptions({ generator: { language: 'python', code: 'print(1)' } })!;
+    expect(generator).toEqual({ language: 'python', code: 'print(1)', settings: undefined });
+  });
+
+  it.each([
+    ['a non-object', 5],
+    ['a template without placeholders', { generator: { template: 'hello' } }],
+    ['bounds on a placeholder other than random', { generator: { template: '{range:1:5}' } }],
+    ['reversed random bounds', { generator: { template: '{random:9:1}' } }],
+    ['minN not below maxN', { generator: { template: '{n}' }, minN: 100, maxN: 100 }],
+    ['too few steps', { generator: { template: '{n}' }, steps: 3 }],
+    ['sizes that round to fewer than four', { generator: { template: '{n}' }, minN: 1, maxN: 3, steps: 4 }]
+  ])('rejects %s', (_, scaling) => {
+    expect(() => parseScalingOptions(scaling)).toThrow(InvalidScalingError);
+  });
+});
+
+describe('expandTemplate', () => {
+  it('fills in n, the range 1 to n and n random numbers within the bounds', () => {
+    expect(expandTemplate('{n}\n{range}\n', 4)).toBe('4\n1 2 3 4\n');
+
+    const numbers = expandTemplate('{random:5:7}', 200).split(' ').map(Number);
+    expect(numbers).toHaveLength(200);
+    expect(numbers.every(value => value >= 5 && value <= 7)).toBe(true);
+  });
+
+  it('gives the same random input for the same n', () => {
+    expect(expandTemplate('{random}', 50)).toBe(expandTemplate('{random}', 50));
+  });
+
+  it('refuses inputs that would be too large before building them', () => {
+    expect(() => expandTemplate('{random}', 10_000_000)).toThrow(InputGeneratorError);
+  });
+});
+
+const points = (sizes: number[], time: (n: number) => number, memory: (n: number) => number = () => 5): ScalingPoint[] =>
+  sizes.map(n => ({ n, timeMs: time(n), memoryMb: memory(n) }));
+
+const SIZES = [1000, 2000, 4000, 8000, 16_000, 32_000, 64_000, 128_000];
+
+describe('summarizeScaling', () => {
+  it.each([
+    ['O(n)', (n: number) => 3 + n / 1000],
+    ['O(n²)', (n: number) => 3 + (n / 1000) ** 2]
+  ])('recognizes %s growth', (notation, time) => {
+    const result = summarizeScaling(points(SIZES, time), 'cpu');
+    expect(result.time?.notation).toBe(notation);
+    expect(result.time?.rSquared).toBeGreaterThan(0.99);
+  });
+
+  it('prefers the slower-growing model when two fit almost equally well', () => {
+    // n log n is within the fit tolerance of a straight line over this range
+    const result = summarizeScaling(points(SIZES, n => n * Math.log2(n) / 10_000), 'cpu');
+    expect(result.time?.notation).toBe('O(n)');
+  });
+
+  it('calls flat or noisy measurements O(1)', () => {
+    const noisy = [5.1, 4.9, 5.2, 5.0, 4.8, 5.1, 5.0, 4.9];
+    const result = summarizeScaling(SIZES.map((n, i) => ({ n, timeMs: noisy[i], memoryMb: 5 })), 'wall');
+    expect(result.time?.notation).toBe('O(1)');
+    expect(result.memory).toMatchObject({ notation: 'O(1)', rSquared: 0 });
+  });
+
+  it('only considers 2^n for small n', () => {
+    const exponential = summarizeScaling(points([10, 12, 14, 16, 18, 20], n => 2 ** n / 1000), 'cpu');
+    expect(exponential.time?.notation).toBe('O(2^n)');
+  });
+
+  it('does not fit fewer than four sizes', () => {
+    const result = summarizeScaling(points([10, 100, 1000], n => n), 'cpu', 'Stopped at n = 10000');
+    expect(result.time).toBeUndefined();
+    expect(result.stoppedEarly).toBe('Stopped at n = 10000');
+  });
+
+  it('plots the model across the measured range', () => {
+    const { curve } = summarizeScaling(points(SIZES, n => n / 1000), 'cpu').time!;
+    expect(curve[0]).toEqual({ n: 1000, value: 1 });
+    expect(curve[curve.length - 1]).toEqual({ n: 128_000, value: 128 });
+  });
+});
@@ -1,8 +1,8 @@
 
 import React from 'react';
 import { cn } from '@/lib/utils';
-import { AIFeedback as AIFeedbackType, CodeSuggestion } from '@/lib/types';
-import { Sparkles, AlertTriangle, AlertCircle, Info, Cpu, BookOpen, Shield, Code } from 'lucide-react';
+import { AIFeedback as AIFeedbackType, CodeSuggestion, SanitizerFinding, StackFrame } from '@/lib/types';
+import { Sparkles, AlertTriangle, AlertCircle, Info, Cpu, BookOpen, Shield, Code, Bug } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
@@ -10,6 +10,8 @@ import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/
 interface AIFeedbackProps {
   feedback?: AIFeedbackType;
   isLoading: boolean;
+  // Sanitizer reports from the last run, listed as critical items before the suggestions
+  findings?: SanitizerFinding[];
   className?: string;
 }
 
@@ -40,7 +42,38 @@ const severityColors = {
   critical: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300'
 };
 
-const AIFeedback: React.FC<AIFeedbackProps> = ({ feedback, isLoading, className }) => {
+const sanitizerNames: Record<SanitizerFinding['sanitizer'], string> = {
+  address: 'AddressSanitizer',
+  leak: 'LeakSanitizer',
+  undefined: 'UndefinedBehaviorSanitizer'
+};
+
+const revealLine = (line: number, column?: number) => {
+  window.dispatchEvent(new CustomEvent('code-editor-reveal-position', {
+    detail: { line, column }
+  }));
+};
+
+// A stack trace with the frames in the submitted source highlighted and clickable
+const StackTrace: React.FC<{ frames: StackFrame[] }> = ({ frames }) => (
+  <ol className="bg-code text-code-foreground p-3 rounded-md overflow-x-auto text-xs font-mono space-y-0.5">
+    {frames.map((frame, index) => {
+      const location = frame.line !== undefined ? `${frame.file}:${frame.line}` : frame.file;
+      return (
+        <li key={index} className={cn("whitespace-nowrap", !frame.inSource && "opacity-60")}>
+          #{index} {frame.function ?? '??'}{' '}
+          {frame.inSource && frame.line !== undefined ? (
+            <button type="button" className="underline" onClick={() => revealLine(frame.line!, frame.column)}>
+              {location}
+            </button>
+          ) : location}
+        </li>
+      );
+    })}
+  </ol>
+);
+
+const AIFeedback: React.FC<AIFeedbackProps> = ({ feedback, isLoading, findings = [], className }) => {
   if (isLoading) {
     return (
       <Card className={cn("overflow-hidden", className)}>
@@ -106,6 +139,46 @@ const AIFeedback: React.FC<AIFeedbackProps> = ({ feedback, isLoading, className
           </div>
           
           <Accordion type="multiple" className="w-full">
+            {findings.map((finding, index) => (
+              <AccordionItem value={`finding-${index}`} key={`finding-${index}`} className="border border-border rounded-md mb-2 overflow-hidden">
+                <AccordionTrigger className="px-4 py-3 hover:no-underline hover:bg-muted/20">
+                  <div className="flex items-center w-full">
+                    <span className="mr-2 text-red-500 dark:text-red-400">
+                      <Bug className="h-4 w-4" />
+                    </span>
+                    <span className="font-medium text-sm font-mono">{finding.kind}</span>
+                    <Badge className={cn("ml-auto", severityColors.critical)}>
+                      critical
+                    </Badge>
+                  </div>
+                </AccordionTrigger>
+                <AccordionContent className="border-t bg-muted/10 p-4 pt-3">
+                  <p className="text-xs text-muted-foreground mb-1">{sanitizerNames[finding.sanitizer]}</p>
+                  <p className="text-sm mb-2">{finding.message}</p>
+                  {finding.details.map((detail, detailIndex) => (
+                    <p key={detailIndex} className="text-xs text-muted-foreground mb-1">{detail}</p>
+                  ))}
+
+                  {finding.line !== undefined && (
+                    <div className="my-2">
+                      <button type="button" onClick={() => revealLine(finding.line!, finding.column)}>
+                        <Badge variant="outline" className="text-xs font-mono mr-1">
+                          Line {finding.line}
+                        </Badge>
+                      </button>
+                    </div>
+                  )}
+
+                  {finding.frames.length > 0 && <StackTrace frames={finding.frames} />}
+                  {finding.related.map((stack, stackIndex) => (
+                    <div key={stackIndex} className="mt-2">
+                      <p className="text-xs font-medium mb-1">{stack.description}</p>
+                      <StackTrace frames={stack.frames} />
+                    </div>
+                  ))}
+                </AccordionContent>
+              </AccordionItem>
+            ))}
             {feedback.suggestions.map((suggestion, index) => {
               const typeIcon = suggestionTypeIcons[suggestion.type];
               const typeColor = suggestionTypeColors[suggestion.type];
@@ -120,6 +193,9 @@ const AIFeedback: React.FC<AIFeedbackProps> = ({ feedback, isLoading, className
                         {typeIcon}
                       </span>
                       <span className="font-medium text-sm">{suggestion.title}</span>
+                      {suggestion.source === 'compiler' && (
+                        <Badge variant="outline" className="ml-2 text-xs font-normal">compiler</Badge>
+                      )}
                       <Badge className={cn("ml-auto", severityColor)}>
                         {suggestion.severity}
                       </Badge>
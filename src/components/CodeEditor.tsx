@@ -1,29 +1,42 @@
 import React, { useEffect, useRef, useState } from 'react';
 import * as monaco from 'monaco-editor';
-import { Language } from '@/lib/types';
+import { Diagnostic, DiagnosticSeverity } from '@/lib/types';
 import { cn } from '@/lib/utils';
 
 interface CodeEditorProps {
-  language: Language;
+  // Monaco language identifier, from the selected runtime's `monacoLanguage`
+  language: string;
   value: string;
   onChange: (value: string) => void;
+  // Compiler and runtime diagnostics from the last run, shown as squiggles and gutter icons
+  diagnostics?: Diagnostic[];
   className?: string;
 }
 
-// Map our language types to Monaco's language identifiers
-const languageMap: Record<Language, string> = {
-  python: 'python',
-  java: 'java',
-  cpp: 'cpp'
+const markerSeverity: Record<DiagnosticSeverity, monaco.MarkerSeverity> = {
+  error: monaco.MarkerSeverity.Error,
+  warning: monaco.MarkerSeverity.Warning,
+  info: monaco.MarkerSeverity.Info
 };
 
-const CodeEditor: React.FC<CodeEditorProps> = ({ language, value, onChange, className }) => {
+// Owner under which our markers are registered on the model
+const DIAGNOSTICS_OWNER = 'compilesense';
+
+// Snippets and validation settings are global to Monaco, so they are set up once even
+// when several editors are mounted, e.g. the HTML, CSS and JavaScript panes of Web mode
+let languagesConfigured = false;
+
+const CodeEditor: React.FC<CodeEditorProps> = ({ language, value, onChange, diagnostics, className }) => {
   const editorRef = useRef<HTMLDivElement>(null);
   const monacoEditorRef = useRef<monaco.editor.IStandaloneCodeEditor | null>(null);
+  const diagnosticDecorationsRef = useRef<monaco.editor.IEditorDecorationsCollection | null>(null);
   const [isEditorReady, setIsEditorReady] = useState(false);
 
   // Initialize editor when component mounts
   useEffect(() => {
+    let disposed = false;
+    let teardown: (() => void) | undefined;
+
     if (editorRef.current && !monacoEditorRef.current) {
       // Configure Monaco environment to fix worker issues
       if (typeof window !== 'undefined') {
@@ -49,8 +62,13 @@ const CodeEditor: React.FC<CodeEditorProps> = ({ language, value, onChange, clas
 
       // Load Monaco editor dynamically
       import('monaco-editor').then(monaco => {
+        if (disposed) return;
+
         // Register language-specific configurations and intellisense
-        setupLanguageConfigurations(monaco);
+        if (!languagesConfigured) {
+          languagesConfigured = true;
+          setupLanguageConfigurations(monaco);
+        }
         
         // Register themes
         monaco.editor.defineTheme('compileSenseLight', {
@@ -106,7 +124,7 @@ const CodeEditor: React.FC<CodeEditorProps> = ({ language, value, onChange, clas
         // Initialize editor
         const editor = monaco.editor.create(editorRef.current!, {
           value,
-          language: languageMap[language],
+          language,
           theme: 'compileSenseLight',
           automaticLayout: true,
           minimap: { enabled: false },
@@ -114,6 +132,7 @@ const CodeEditor: React.FC<CodeEditorProps> = ({ language, value, onChange, clas
           fontSize: 14,
           fontFamily: "'JetBrains Mono', monospace",
           lineNumbers: 'on',
+          glyphMargin: true,
           lineHeight: 1.6,
           padding: { top: 16, bottom: 16 },
           scrollbar: {
@@ -211,21 +230,37 @@ const CodeEditor: React.FC<CodeEditorProps> = ({ language, value, onChange, clas
           }
         };
         
+        // Jump to a location, e.g. when a diagnostic is clicked in the results panel
+        const handleRevealPosition = (event: CustomEvent) => {
+          const { line, column = 1 } = event.detail;
+          editor.revealLineInCenter(line);
+          editor.setPosition({ lineNumber: line, column });
+          editor.focus();
+        };
+
         window.addEventListener('code-execution-start', handleExecutionStart);
         window.addEventListener('code-execution-complete', handleExecutionComplete);
         window.addEventListener('code-execution-aborted', handleExecutionComplete);
+        window.addEventListener('code-editor-reveal-position', handleRevealPosition as EventListener);
 
         // Cleanup on unmount
-        return () => {
+        teardown = () => {
           mediaQuery.removeEventListener('change', handleThemeChange);
           window.removeEventListener('code-execution-start', handleExecutionStart);
           window.removeEventListener('code-execution-complete', handleExecutionComplete);
           window.removeEventListener('code-execution-aborted', handleExecutionComplete);
+          window.removeEventListener('code-editor-reveal-position', handleRevealPosition as EventListener);
           clearTimeout(debounceTimeout);
           editor.dispose();
+          monacoEditorRef.current = null;
         };
       });
     }
+
+    return () => {
+      disposed = true;
+      teardown?.();
+    };
   }, []);
 
   // Update editor language when our language prop changes
@@ -233,7 +268,7 @@ const CodeEditor: React.FC<CodeEditorProps> = ({ language, value, onChange, clas
     if (monacoEditorRef.current) {
       monaco.editor.setModelLanguage(
         monacoEditorRef.current.getModel()!,
-        languageMap[language]
+        language
       );
     }
   }, [language]);
@@ -248,6 +283,39 @@ const CodeEditor: React.FC<CodeEditorProps> = ({ language, value, onChange, clas
     }
   }, [value]);
 
+  // Show diagnostics as markers (squiggles with hover text) plus a gutter icon per line.
+  // Without a column the whole line, minus indentation, is underlined.
+  useEffect(() => {
+    const editor = monacoEditorRef.current;
+    const model = editor?.getModel();
+    if (!editor || !model) return;
+
+    const located = (diagnostics ?? []).filter(d => d.line >= 1 && d.line <= model.getLineCount());
+    const markers = located.map(d => {
+      const startColumn = d.column || model.getLineFirstNonWhitespaceColumn(d.line) || 1;
+      const word = d.column ? model.getWordAtPosition({ lineNumber: d.line, column: d.column }) : null;
+      return {
+        severity: markerSeverity[d.severity],
+        message: d.message,
+        code: d.code,
+        startLineNumber: d.line,
+        startColumn,
+        endLineNumber: d.line,
+        endColumn: word ? word.endColumn : d.column ? d.column + 1 : model.getLineMaxColumn(d.line)
+      };
+    });
+    monaco.editor.setModelMarkers(model, DIAGNOSTICS_OWNER, markers);
+
+    diagnosticDecorationsRef.current?.clear();
+    diagnosticDecorationsRef.current = editor.createDecorationsCollection(located.map(d => ({
+      range: new monaco.Range(d.line, 1, d.line, 1),
+      options: {
+        glyphMarginClassName: `editor-diagnostic-glyph editor-diagnostic-glyph-${d.severity}`,
+        glyphMarginHoverMessage: { value: d.code ? `${d.message} (${d.code})` : d.message }
+      }
+    })));
+  }, [diagnostics, isEditorReady]);
+
   // Setup language-specific configurations for better intellisense
   const setupLanguageConfigurations = (monaco: typeof import('monaco-editor')) => {
     // Add language-specific snippets and autocompletion
@@ -301,8 +369,13 @@ const CodeEditor: React.FC<CodeEditorProps> = ({ language, value, onChange, clas
       }
     });
     
+    // Type errors come from the backend's tsc run, so keep Monaco to syntax checks
+    // instead of flagging every Node global it has no typings for
+    monaco.languages.typescript.typescriptDefaults.setDiagnosticsOptions({ noSemanticValidation: true });
+    monaco.languages.typescript.javascriptDefaults.setDiagnosticsOptions({ noSemanticValidation: true });
+
     // Add more languages
-    monaco.languages.registerCompletionItemProvider('javascript', {
+    ['javascript', 'typescript'].forEach(languageId => monaco.languages.registerCompletionItemProvider(languageId, {
       provideCompletionItems: (model, position) => {
         // Calculate proper ranges for the suggestions
         const word = model.getWordUntilPosition(position);
@@ -342,7 +415,7 @@ const CodeEditor: React.FC<CodeEditorProps> = ({ language, value, onChange, clas
           ]
         };
       }
-    });
+    }));
   };
 
   return (
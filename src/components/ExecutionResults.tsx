@@ -1,23 +1,57 @@
 
 import React, { useEffect, useState, useRef } from 'react';
 import { cn } from '@/lib/utils';
-import { ExecutionResult } from '@/lib/types';
-import { Terminal, Clock, MemoryStick, StopCircle } from 'lucide-react';
+import { Diagnostic, ExecutionPhase, ExecutionResult } from '@/lib/types';
+import { Terminal, Clock, Cpu, MemoryStick, StopCircle, AlertCircle, AlertTriangle, Info, Hammer, Globe } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
-import { abortExecution } from '@/lib/api';
+import { Badge } from '@/components/ui/badge';
+import { abortExecution, closeInput, sendInput } from '@/lib/api';
+import { describeExit, statusLabels, statusStyles } from '@/lib/status';
+import InteractiveTerminal from '@/components/InteractiveTerminal';
+import QueryResults from '@/components/QueryResults';
+import QueryPlans from '@/components/QueryPlans';
+import WebPreview from '@/components/WebPreview';
+import TestsPanel, { TestsPanelProps } from '@/components/TestsPanel';
 
 interface ExecutionResultsProps {
   result?: ExecutionResult;
   isLoading: boolean;
+  // Render the output as a terminal the user can type into while the program runs
+  interactive?: boolean;
+  // Web mode: show the page in a sandboxed preview instead of program output
+  webPreview?: { document: string; runId: number };
+  // Test cases for the current code, shown in a Tests tab
+  tests?: TestsPanelProps;
   className?: string;
 }
 
-const ExecutionResults: React.FC<ExecutionResultsProps> = ({ result, isLoading, className }) => {
+const diagnosticIcons = {
+  error: <AlertCircle className="h-4 w-4 mt-0.5 shrink-0 text-destructive" />,
+  warning: <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0 text-amber-500" />,
+  info: <Info className="h-4 w-4 mt-0.5 shrink-0 text-blue-500" />
+};
+
+const phaseLabels: Record<ExecutionPhase, string> = {
+  compiling: 'Compiling…',
+  running: 'Running…',
+  benchmarking: 'Benchmarking…',
+  scaling: 'Measuring at growing sizes…'
+};
+
+// Ask the editor to jump to the diagnostic's location
+const revealInEditor = (diagnostic: Diagnostic) => {
+  window.dispatchEvent(new CustomEvent('code-editor-reveal-position', {
+    detail: { line: diagnostic.line, column: diagnostic.column }
+  }));
+};
+
+const ExecutionResults: React.FC<ExecutionResultsProps> = ({ result, isLoading, interactive = false, webPreview, tests, className }) => {
   const [liveOutput, setLiveOutput] = useState<string>('');
   const [liveErrors, setLiveErrors] = useState<string>('');
   const [activeTab, setActiveTab] = useState<string>('output');
+  const [phase, setPhase] = useState<ExecutionPhase | null>(null);
   const outputRef = useRef<HTMLPreElement>(null);
   
   // Clear output when starting a new execution
@@ -25,6 +59,7 @@ const ExecutionResults: React.FC<ExecutionResultsProps> = ({ result, isLoading,
     if (isLoading) {
       setLiveOutput('');
       setLiveErrors('');
+      setPhase(null);
     }
   }, [isLoading]);
   
@@ -49,6 +84,11 @@ const ExecutionResults: React.FC<ExecutionResultsProps> = ({ result, isLoading,
       }
     };
     
+    // Track whether the backend is compiling or running the program
+    const handlePhase = (event: CustomEvent) => {
+      setPhase(event.detail.phase);
+    };
+    
     // Handle execution abort
     const handleAbort = () => {
       setLiveOutput(prev => prev + "\n[Execution aborted by user]\n");
@@ -56,31 +96,56 @@ const ExecutionResults: React.FC<ExecutionResultsProps> = ({ result, isLoading,
     
     // Add event listeners
     window.addEventListener('code-execution-output', handleOutput as EventListener);
+    window.addEventListener('code-execution-phase', handlePhase as EventListener);
     window.addEventListener('code-execution-aborted', handleAbort);
     
     // Cleanup
     return () => {
       window.removeEventListener('code-execution-output', handleOutput as EventListener);
+      window.removeEventListener('code-execution-phase', handlePhase as EventListener);
       window.removeEventListener('code-execution-aborted', handleAbort);
     };
   }, []);
   
-  // When final result comes in, use it instead of live output
+  // When final result comes in, use it instead of live output.
+  // Interactive runs keep the transcript so the user's echoed input stays visible.
   useEffect(() => {
     if (result && !isLoading) {
-      if (result.output) {
+      if (result.output && !interactive) {
         setLiveOutput(result.output);
       }
       if (result.errors) {
         setLiveErrors(result.errors);
       }
     }
-  }, [result, isLoading]);
+  }, [result, isLoading, interactive]);
   
   const handleStopExecution = () => {
     abortExecution();
   };
   
+  // Echo the line locally like a terminal would, then forward it to the program
+  const handleSubmitLine = (line: string) => {
+    setLiveOutput(prev => prev + line + '\n');
+    sendInput(line + '\n');
+  };
+  
+  if (webPreview) {
+    return (
+      <Card className={cn("overflow-hidden shadow-sm border-border", className)}>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-md font-medium flex items-center">
+            <Globe className="mr-2 h-4 w-4" />
+            Web Preview
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <WebPreview document={webPreview.document} runId={webPreview.runId} />
+        </CardContent>
+      </Card>
+    );
+  }
+  
   if (isLoading) {
     return (
       <Card className={cn("overflow-hidden", className)}>
@@ -88,6 +153,11 @@ const ExecutionResults: React.FC<ExecutionResultsProps> = ({ result, isLoading,
           <CardTitle className="text-md font-medium flex items-center">
             <Terminal className="mr-2 h-4 w-4" />
             Live Execution
+            {phase && (
+              <span className="ml-2 text-xs font-normal text-muted-foreground">
+                {phaseLabels[phase]}
+              </span>
+            )}
           </CardTitle>
           <Button 
             variant="destructive" 
@@ -112,17 +182,27 @@ const ExecutionResults: React.FC<ExecutionResultsProps> = ({ result, isLoading,
               )}
             </TabsList>
             <TabsContent value="output" className="p-4 pt-2">
-              <pre 
-                ref={outputRef}
-                className="bg-code text-code-foreground p-3 rounded-md overflow-x-auto text-sm font-mono whitespace-pre-wrap h-[200px] overflow-y-auto"
-              >
-                {liveOutput || (
-                  <div className="flex items-center justify-center h-full text-muted-foreground">
-                    <div className="w-4 h-4 border-t-2 border-b-2 border-primary rounded-full animate-spin mr-2" />
-                    Executing code...
-                  </div>
-                )}
-              </pre>
+              {interactive && phase !== 'compiling' ? (
+                <InteractiveTerminal
+                  transcript={liveOutput}
+                  isRunning={isLoading}
+                  onSubmitLine={handleSubmitLine}
+                  onEof={() => closeInput()}
+                  onInterrupt={handleStopExecution}
+                />
+              ) : (
+                <pre 
+                  ref={outputRef}
+                  className="bg-code text-code-foreground p-3 rounded-md overflow-x-auto text-sm font-mono whitespace-pre-wrap h-[200px] overflow-y-auto"
+                >
+                  {liveOutput || (
+                    <div className="flex items-center justify-center h-full text-muted-foreground">
+                      <div className="w-4 h-4 border-t-2 border-b-2 border-primary rounded-full animate-spin mr-2" />
+                      {phase === 'compiling' ? 'Compiling code...' : 'Executing code...'}
+                    </div>
+                  )}
+                </pre>
+              )}
             </TabsContent>
             {liveErrors && (
               <TabsContent value="errors" className="p-4 pt-2">
@@ -139,7 +219,12 @@ const ExecutionResults: React.FC<ExecutionResultsProps> = ({ result, isLoading,
     );
   }
   
-  if (!result && !liveOutput && !liveErrors) {
+  const diagnostics = result?.diagnostics ?? [];
+  const hasErrors = Boolean(result?.errors || liveErrors || diagnostics.length);
+  const exitDescription = result ? describeExit(result) : null;
+  const metricCount = 2 + (result?.cpuTime !== undefined ? 1 : 0) + (result?.compileTime !== undefined ? 1 : 0);
+
+  if (!result && !liveOutput && !liveErrors && !tests) {
     return (
       <Card className={cn("overflow-hidden", className)}>
         <CardHeader className="pb-2">
@@ -159,11 +244,21 @@ const ExecutionResults: React.FC<ExecutionResultsProps> = ({ result, isLoading,
 
   return (
     <Card className={cn("overflow-hidden shadow-sm border-border", className)}>
-      <CardHeader className="pb-2">
+      <CardHeader className="pb-2 flex flex-row items-center justify-between space-y-0">
         <CardTitle className="text-md font-medium flex items-center">
           <Terminal className="mr-2 h-4 w-4" />
           Execution Results
         </CardTitle>
+        {result?.status && (
+          <div className="flex items-center gap-2">
+            {exitDescription && (
+              <span className="text-xs font-mono text-muted-foreground">{exitDescription}</span>
+            )}
+            <Badge variant="outline" className={cn("border-transparent", statusStyles[result.status])}>
+              {statusLabels[result.status]}
+            </Badge>
+          </div>
+        )}
       </CardHeader>
       <CardContent className="p-0">
         <Tabs defaultValue={activeTab} className="w-full" onValueChange={setActiveTab}>
@@ -171,7 +266,22 @@ const ExecutionResults: React.FC<ExecutionResultsProps> = ({ result, isLoading,
             <TabsTrigger value="output" className="relative rounded-none border-b-2 border-transparent data-[state=active]:border-primary">
               Output
             </TabsTrigger>
-            {(result?.errors || liveErrors) && (
+            {result?.queries && (
+              <TabsTrigger value="results" className="relative rounded-none border-b-2 border-transparent data-[state=active]:border-primary">
+                Results
+              </TabsTrigger>
+            )}
+            {tests && (
+              <TabsTrigger value="tests" className="relative rounded-none border-b-2 border-transparent data-[state=active]:border-primary">
+                Tests
+                {tests.result?.status === 'ok' && (
+                  <span className="ml-1 text-xs text-muted-foreground">
+                    {tests.result.passed}/{tests.result.cases.length}
+                  </span>
+                )}
+              </TabsTrigger>
+            )}
+            {hasErrors && (
               <TabsTrigger value="errors" className="relative rounded-none border-b-2 border-transparent data-[state=active]:border-primary text-destructive">
                 Errors
               </TabsTrigger>
@@ -187,20 +297,63 @@ const ExecutionResults: React.FC<ExecutionResultsProps> = ({ result, isLoading,
               ref={outputRef}
               className="bg-code text-code-foreground p-3 rounded-md overflow-x-auto text-sm font-mono whitespace-pre-wrap h-[200px] overflow-y-auto"
             >
-              {liveOutput || 'No output generated'}
+              {liveOutput || (result ? 'No output generated' : 'Execute your code to see results')}
             </pre>
           </TabsContent>
-          {(result?.errors || liveErrors) && (
-            <TabsContent value="errors" className="p-4 pt-2">
-              <pre className="bg-destructive/10 text-destructive p-3 rounded-md overflow-x-auto text-sm font-mono whitespace-pre-wrap h-[200px] overflow-y-auto">
-                {liveErrors || result?.errors || 'No errors'}
-              </pre>
+          {result?.queries && (
+            <TabsContent value="results" className="p-4 pt-2">
+              <QueryResults queries={result.queries} />
+            </TabsContent>
+          )}
+          {tests && (
+            <TabsContent value="tests" className="p-4 pt-2">
+              <TestsPanel {...tests} />
+            </TabsContent>
+          )}
+          {hasErrors && (
+            <TabsContent value="errors" className="p-4 pt-2 space-y-2">
+              {diagnostics.length > 0 && (
+                <ul className="border rounded-md divide-y max-h-[160px] overflow-y-auto">
+                  {diagnostics.map((diagnostic, index) => (
+                    <li key={index}>
+                      <button
+                        type="button"
+                        onClick={() => revealInEditor(diagnostic)}
+                        className="w-full flex items-start gap-2 px-3 py-2 text-left text-sm hover:bg-accent transition-colors"
+                      >
+                        {diagnosticIcons[diagnostic.severity]}
+                        <span className="font-mono text-xs text-muted-foreground mt-0.5 shrink-0">
+                          {diagnostic.file}:{diagnostic.line}{diagnostic.column ? `:${diagnostic.column}` : ''}
+                        </span>
+                        <span className="whitespace-pre-wrap break-words">
+                          {diagnostic.message}
+                          {diagnostic.code && <span className="ml-1 text-xs text-muted-foreground">[{diagnostic.code}]</span>}
+                        </span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {(liveErrors || result?.errors) && (
+                <pre className="bg-destructive/10 text-destructive p-3 rounded-md overflow-x-auto text-sm font-mono whitespace-pre-wrap h-[200px] overflow-y-auto">
+                  {liveErrors || result?.errors}
+                </pre>
+              )}
             </TabsContent>
           )}
           {result && (
             <TabsContent value="metrics" className="p-4 pt-2">
               <div className="space-y-4">
-                <div className="grid grid-cols-2 gap-4">
+                <div className={cn("grid gap-4", metricCount === 3 ? "grid-cols-3" : "grid-cols-2")}>
+                  {result.compileTime !== undefined && (
+                    <div className="flex items-center p-3 bg-accent rounded-md">
+                      <Hammer className="h-5 w-5 mr-2 text-primary" />
+                      <div>
+                        <p className="text-sm font-medium">Compile Time</p>
+                        <p className="text-xl font-semibold">{result.compileTime.toFixed(3)}s</p>
+                      </div>
+                    </div>
+                  )}
                   <div className="flex items-center p-3 bg-accent rounded-md">
                     <Clock className="h-5 w-5 mr-2 text-primary" />
                     <div>
@@ -208,6 +361,15 @@ const ExecutionResults: React.FC<ExecutionResultsProps> = ({ result, isLoading,
                       <p className="text-xl font-semibold">{result.executionTime.toFixed(3)}s</p>
                     </div>
                   </div>
+                  {result.cpuTime !== undefined && (
+                    <div className="flex items-center p-3 bg-accent rounded-md">
+                      <Cpu className="h-5 w-5 mr-2 text-primary" />
+                      <div>
+                        <p className="text-sm font-medium">CPU Time</p>
+                        <p className="text-xl font-semibold">{result.cpuTime.toFixed(3)}s</p>
+                      </div>
+                    </div>
+                  )}
                   <div className="flex items-center p-3 bg-accent rounded-md">
                     <MemoryStick className="h-5 w-5 mr-2 text-primary" />
                     <div>
@@ -217,6 +379,10 @@ const ExecutionResults: React.FC<ExecutionResultsProps> = ({ result, isLoading,
                   </div>
                 </div>
                 
+                {result.queries && result.queries.length > 0 && (
+                  <QueryPlans queries={result.queries} />
+                )}
+                
                 {result.complexity && (
                   <div className="bg-accent p-3 rounded-md">
                     <h4 className="text-sm font-medium mb-2">Complexity Analysis</h4>
@@ -0,0 +1,54 @@
+import React from 'react';
+import { TestCaseResult } from '@/lib/types';
+import { cn } from '@/lib/utils';
+import { verdictLabels } from '@/lib/status';
+
+interface InteractionTranscriptProps {
+  result: TestCaseResult;
+  className?: string;
+}
+
+// The exchange between the program and the interactor as a chat: program lines on the left,
+// interactor lines on the right, each with when it was sent, ending with the interactor's verdict
+const InteractionTranscript: React.FC<InteractionTranscriptProps> = ({ result, className }) => {
+  const transcript = result.transcript ?? [];
+
+  return (
+    <div className={cn("border rounded-md max-h-[280px] overflow-y-auto p-2 space-y-1", className)}>
+      {transcript.length === 0 && (
+        <p className="text-xs italic text-muted-foreground px-1">Nothing was exchanged</p>
+      )}
+      {transcript.map((entry, index) => {
+        const fromProgram = entry.from === 'program';
+        return (
+          <div key={index} className={cn("flex items-baseline gap-2", !fromProgram && "flex-row-reverse")}>
+            <span
+              className={cn(
+                "max-w-[75%] rounded-md px-2 py-0.5 font-mono text-xs whitespace-pre-wrap break-all",
+                fromProgram ? "bg-primary/10" : "bg-muted"
+              )}
+            >
+              {entry.text || ' '}
+            </span>
+            <span className="shrink-0 text-[10px] text-muted-foreground select-none">
+              {fromProgram ? 'program' : 'interactor'} · {entry.timeMs} ms
+            </span>
+          </div>
+        );
+      })}
+      {result.transcriptTruncated && (
+        <p className="text-xs text-muted-foreground text-center">Only the first {transcript.length} lines are shown</p>
+      )}
+      <p
+        className={cn(
+          "pt-1 text-xs text-center whitespace-pre-wrap",
+          result.verdict === 'AC' ? "text-green-600" : "text-destructive"
+        )}
+      >
+        {verdictLabels[result.verdict]}{result.message && `: ${result.message}`}
+      </p>
+    </div>
+  );
+};
+
+export default InteractionTranscript;
@@ -0,0 +1,97 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { cn } from '@/lib/utils';
+
+interface InteractiveTerminalProps {
+  // Everything the program printed so far, with the user's echoed input interleaved
+  transcript: string;
+  // Whether the program is still running and accepting input
+  isRunning: boolean;
+  onSubmitLine: (line: string) => void;
+  onEof: () => void;
+  onInterrupt: () => void;
+  className?: string;
+}
+
+// Line-buffered console, like a terminal in cooked mode: keystrokes are edited locally
+// and the line is sent to the program's stdin on Enter. Ctrl+D closes stdin, Ctrl+C stops the run.
+const InteractiveTerminal: React.FC<InteractiveTerminalProps> = ({
+  transcript,
+  isRunning,
+  onSubmitLine,
+  onEof,
+  onInterrupt,
+  className
+}) => {
+  const [line, setLine] = useState('');
+  const [stdinClosed, setStdinClosed] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Reset when a new run starts
+  useEffect(() => {
+    if (isRunning) {
+      setLine('');
+      setStdinClosed(false);
+      inputRef.current?.focus();
+    }
+  }, [isRunning]);
+
+  // Keep the prompt in view as the program prints
+  useEffect(() => {
+    if (containerRef.current) {
+      containerRef.current.scrollTop = containerRef.current.scrollHeight;
+    }
+  }, [transcript]);
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      onSubmitLine(line);
+      setLine('');
+    } else if (event.ctrlKey && event.key.toLowerCase() === 'd') {
+      event.preventDefault();
+      if (line) {
+        onSubmitLine(line);
+        setLine('');
+      }
+      setStdinClosed(true);
+      onEof();
+    } else if (event.ctrlKey && event.key.toLowerCase() === 'c' && !window.getSelection()?.toString()) {
+      event.preventDefault();
+      onInterrupt();
+    }
+  };
+
+  const acceptingInput = isRunning && !stdinClosed;
+
+  return (
+    <div
+      ref={containerRef}
+      onClick={() => inputRef.current?.focus()}
+      className={cn(
+        "bg-code text-code-foreground p-3 rounded-md text-sm font-mono h-[200px] overflow-y-auto cursor-text",
+        className
+      )}
+    >
+      <pre className="inline whitespace-pre-wrap break-words">{transcript}</pre>
+      {acceptingInput && (
+        <input
+          ref={inputRef}
+          value={line}
+          onChange={(e) => setLine(e.target.value)}
+          onKeyDown={handleKeyDown}
+          spellCheck={false}
+          autoComplete="off"
+          aria-label="Program input"
+          className="bg-transparent outline-none border-0 p-0 font-mono text-sm text-inherit caret-primary min-w-[2ch] w-1/2"
+        />
+      )}
+      {!isRunning && !transcript && (
+        <span className="text-muted-foreground">No output generated</span>
+      )}
+    </div>
+  );
+};
+
+export default InteractiveTerminal;
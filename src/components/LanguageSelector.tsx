@@ -1,6 +1,6 @@
 import React from 'react';
 import { Check, ChevronDown } from 'lucide-react';
-import { Language } from '@/lib/types';
+import { Language, RuntimeInfo } from '@/lib/types';
 import { cn } from '@/lib/utils';
 import { 
   DropdownMenu, 
@@ -14,17 +14,13 @@ import { Button } from '@/components/ui/button';
 interface LanguageSelectorProps {
   value: Language;
   onChange: (value: Language) => void;
+  // Registered runtimes from the backend, see useRuntimes
+  languages: RuntimeInfo[];
   className?: string;
 }
 
-const languages: { value: Language; label: string; icon: string }[] = [
-  { value: 'python', label: 'Python', icon: '🐍' },
-  { value: 'java', label: 'Java', icon: '☕' },
-  { value: 'cpp', label: 'C++', icon: 'C++' }
-];
-
-const LanguageSelector: React.FC<LanguageSelectorProps> = ({ value, onChange, className }) => {
-  const selectedLanguage = languages.find(lang => lang.value === value);
+const LanguageSelector: React.FC<LanguageSelectorProps> = ({ value, onChange, languages, className }) => {
+  const selectedLanguage = languages.find(lang => lang.id === value);
 
   return (
     <DropdownMenu>
@@ -34,7 +30,7 @@ const LanguageSelector: React.FC<LanguageSelectorProps> = ({ value, onChange, cl
           className={cn("h-10 px-4 font-medium", className)}
         >
           <span className="mr-2">{selectedLanguage?.icon}</span>
-          {selectedLanguage?.label}
+          {selectedLanguage?.displayName ?? value}
           <ChevronDown className="ml-2 h-4 w-4 opacity-50" />
         </Button>
       </DropdownMenuTrigger>
@@ -42,13 +38,18 @@ const LanguageSelector: React.FC<LanguageSelectorProps> = ({ value, onChange, cl
         <DropdownMenuRadioGroup value={value} onValueChange={(val) => onChange(val as Language)}>
           {languages.map((language) => (
             <DropdownMenuRadioItem 
-              key={language.value} 
-              value={language.value}
+              key={language.id} 
+              value={language.id}
+              disabled={!language.available}
+              title={language.available ? language.version ?? undefined : 'Not installed on the server'}
               className="flex items-center cursor-pointer"
             >
               <span className="mr-2 text-sm">{language.icon}</span>
-              {language.label}
-              {language.value === value && (
+              {language.displayName}
+              {!language.available && (
+                <span className="ml-2 text-xs text-muted-foreground">not installed</span>
+              )}
+              {language.id === value && (
                 <Check className="ml-auto h-4 w-4" />
               )}
             </DropdownMenuRadioItem>
@@ -0,0 +1,55 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+
+interface OutputDiffProps {
+  expected: string;
+  actual: string;
+  className?: string;
+}
+
+// Split into lines the way the judge compares them: trailing whitespace and blank lines at
+// the end do not count
+const toLines = (text: string) => {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  while (lines.length && lines[lines.length - 1].trim() === '') {
+    lines.pop();
+  }
+  return lines;
+};
+
+const Column: React.FC<{ title: string; lines: string[]; differs: (index: number) => boolean; tone: string }> = ({
+  title,
+  lines,
+  differs,
+  tone
+}) => (
+  <div className="min-w-0">
+    <div className="px-3 py-1.5 border-b bg-muted/30 text-xs font-medium">{title}</div>
+    <ol className="py-1 font-mono text-xs overflow-x-auto">
+      {lines.length === 0 ? (
+        <li className="px-3 italic text-muted-foreground">(empty)</li>
+      ) : lines.map((line, index) => (
+        <li key={index} className={cn("flex whitespace-pre", differs(index) && tone)}>
+          <span className="w-8 shrink-0 pr-2 text-right text-muted-foreground select-none">{index + 1}</span>
+          <span>{line || ' '}</span>
+        </li>
+      ))}
+    </ol>
+  </div>
+);
+
+// Expected and actual output side by side, line by line, with the lines that differ highlighted
+const OutputDiff: React.FC<OutputDiffProps> = ({ expected, actual, className }) => {
+  const expectedLines = toLines(expected);
+  const actualLines = toLines(actual);
+  const differs = (index: number) => expectedLines[index]?.trimEnd() !== actualLines[index]?.trimEnd();
+
+  return (
+    <div className={cn("grid grid-cols-2 divide-x border rounded-md max-h-[240px] overflow-y-auto", className)}>
+      <Column title="Expected" lines={expectedLines} differs={differs} tone="bg-green-50 dark:bg-green-900/20" />
+      <Column title="Actual" lines={actualLines} differs={differs} tone="bg-red-50 dark:bg-red-900/20" />
+    </div>
+  );
+};
+
+export default OutputDiff;
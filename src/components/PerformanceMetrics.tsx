@@ -1,16 +1,22 @@
 
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
 import { cn } from '@/lib/utils';
-import { ComplexityEstimate } from '@/lib/types';
-import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell, LineChart, Line, CartesianGrid } from 'recharts';
+import { BenchmarkResult, ComplexityEstimate, ComplexityFit, FunctionComplexity, MemorySample, ScalingResult, Statistics } from '@/lib/types';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell, LineChart, Line, CartesianGrid, ComposedChart, Scatter } from 'recharts';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
 import { Activity, Clock, MemoryStick, Zap } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
 
 interface PerformanceMetricsProps {
   executionTime?: number;
   memoryUsage?: number;
+  memorySamples?: MemorySample[];
   complexity?: ComplexityEstimate;
+  benchmark?: BenchmarkResult;
+  scaling?: ScalingResult;
   className?: string;
 }
 
@@ -33,36 +39,92 @@ const complexityColors = {
   poor: 'hsl(var(--destructive))'
 };
 
+const distributionConfig: ChartConfig = {
+  runs: { label: 'Runs', color: 'hsl(var(--primary))' }
+};
+
+// Group the measured times into equal-width bins, about the square root of the run count
+const histogram = (values: number[]) => {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const binCount = max === min ? 1 : Math.min(10, Math.ceil(Math.sqrt(values.length)));
+  const width = (max - min) / binCount;
+  const bins = Array.from({ length: binCount }, (_, index) => ({
+    range: `${(min + index * width).toFixed(1)}–${(min + (index + 1) * width).toFixed(1)}`,
+    runs: 0
+  }));
+  for (const value of values) {
+    bins[width ? Math.min(binCount - 1, Math.floor((value - min) / width)) : 0].runs++;
+  }
+  return bins;
+};
+
+const scalingConfig: ChartConfig = {
+  measured: { label: 'Measured', color: 'hsl(var(--primary))' },
+  fitted: { label: 'Fitted', color: 'hsl(var(--muted-foreground))' }
+};
+
+const formatSize = (n: number) => new Intl.NumberFormat('en', { notation: 'compact' }).format(n);
+
+// e.g. "O(n log n), R² 0.998, ±1.2%"; R² says nothing for O(1), which explains no growth
+const describeFit = (fit: ComplexityFit) =>
+  [fit.notation, fit.notation !== 'O(1)' && `R² ${fit.rSquared.toFixed(3)}`, `±${(fit.relativeError * 100).toFixed(1)}%`]
+    .filter(Boolean)
+    .join(', ');
+
+const statisticColumns: (keyof Statistics)[] = ['min', 'median', 'mean', 'p95', 'stddev'];
+
+// Ask the editor to jump to a line that drives an estimate
+const revealLine = (line: number) => {
+  window.dispatchEvent(new CustomEvent('code-editor-reveal-position', {
+    detail: { line }
+  }));
+};
+
+const functionKey = (fn: FunctionComplexity) => `${fn.name}:${fn.line}`;
+
 const PerformanceMetrics: React.FC<PerformanceMetricsProps> = ({ 
   executionTime, 
   memoryUsage, 
+  memorySamples,
   complexity,
+  benchmark,
+  scaling,
   className 
 }) => {
-  // Convert time and memory to performance score (1-10)
-  const timeScore = useMemo(() => {
-    if (!executionTime) return 0;
-    // Lower is better, scale inversely (max 1 second = score 1)
-    return Math.max(1, 10 - Math.min(9, Math.floor(executionTime * 10)));
-  }, [executionTime]);
-
-  const memoryScore = useMemo(() => {
-    if (!memoryUsage) return 0;
-    // Lower is better, scale inversely (max 10MB = score 1)
-    return Math.max(1, 10 - Math.min(9, Math.floor(memoryUsage / 2)));
-  }, [memoryUsage]);
+  const [scalingMetric, setScalingMetric] = useState<'time' | 'memory'>('time');
+
+  const distribution = useMemo(
+    () => benchmark ? histogram(benchmark.samples.map(sample => sample.wallTimeMs)) : [],
+    [benchmark]
+  );
+
+  const statisticRows = benchmark ? [
+    { name: 'Wall time', unit: 'ms', statistics: benchmark.wallTimeMs },
+    { name: 'CPU time', unit: 'ms', statistics: benchmark.cpuTimeMs },
+    { name: 'Memory', unit: 'MB', statistics: benchmark.memoryMb }
+  ] : [];
+
+  const scalingFit = scaling?.[scalingMetric];
+  const measuredPoints = (scaling?.points ?? []).map(point => ({
+    n: point.n,
+    value: scalingMetric === 'time' ? point.timeMs : point.memoryMb
+  }));
+  const scalingUnit = scalingMetric === 'time'
+    ? `${scaling?.timeMetric === 'cpu' ? 'CPU' : 'wall'} ms`
+    : 'MB';
+
+  // A benchmark's median says more about the program than its first, cold run
+  const shownTime = benchmark ? benchmark.wallTimeMs.median / 1000 : executionTime;
 
   // Get complexity score and color
   const getComplexityScore = (complexityString?: string): number => {
     if (!complexityString) return 0;
-    
-    for (const [notation, score] of Object.entries(complexityScores)) {
-      if (complexityString.includes(notation)) {
-        return score;
-      }
-    }
-    
-    return 0;
+    if (complexityScores[complexityString]) return complexityScores[complexityString];
+
+    // Products the table leaves out, like O(n² log n), sit just above their polynomial part
+    const polynomial = complexityScores[complexityString.replace(/ log\S* n\)$/, ')')];
+    return polynomial ? polynomial + 0.5 : 0;
   };
 
   const getComplexityColor = (score: number): string => {
@@ -89,12 +151,6 @@ const PerformanceMetrics: React.FC<PerformanceMetricsProps> = ({
     }
   ];
 
-  // Performance overview data
-  const performanceData = [
-    { name: 'Execution Speed', value: timeScore, metric: executionTime ? `${executionTime.toFixed(3)}s` : '—' },
-    { name: 'Memory Usage', value: memoryScore, metric: memoryUsage ? `${memoryUsage.toFixed(1)}MB` : '—' },
-  ];
-
   if (!executionTime && !memoryUsage && !complexity) {
     return (
       <Card className={cn("overflow-hidden", className)}>
@@ -124,24 +180,68 @@ const PerformanceMetrics: React.FC<PerformanceMetricsProps> = ({
       </CardHeader>
       <CardContent>
         <div className="space-y-4">
-          {/* Performance Rating */}
-          {(executionTime || memoryUsage) && (
+          {/* Benchmark distribution */}
+          {benchmark && (
+            <div className="space-y-2">
+              <div className="flex items-baseline justify-between">
+                <h4 className="text-sm font-medium">Run Time Distribution</h4>
+                <span className="text-xs text-muted-foreground">
+                  {benchmark.runs} run{benchmark.runs === 1 ? '' : 's'} after {benchmark.warmupRuns} warm-up
+                </span>
+              </div>
+              <ChartContainer config={distributionConfig} className="aspect-auto h-32 w-full">
+                <BarChart data={distribution} margin={{ top: 5, right: 5, left: 0, bottom: 5 }}>
+                  <CartesianGrid vertical={false} strokeDasharray="3 3" opacity={0.3} />
+                  <XAxis dataKey="range" tickLine={false} interval="preserveStartEnd" />
+                  <YAxis width={30} allowDecimals={false} tickLine={false} />
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={(range) => `${range} ms`} />} />
+                  <Bar dataKey="runs" fill="var(--color-runs)" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ChartContainer>
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-muted-foreground">
+                    <th className="text-left font-normal" />
+                    {statisticColumns.map(column => (
+                      <th key={column} className="text-right font-normal">{column}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="font-mono">
+                  {statisticRows.map(({ name, unit, statistics }) => (
+                    <tr key={name}>
+                      <td className="font-sans text-muted-foreground">{name} ({unit})</td>
+                      {statisticColumns.map(column => (
+                        <td key={column} className="text-right">{statistics ? statistics[column].toFixed(2) : '—'}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {benchmark.stoppedEarly && (
+                <p className="text-xs text-muted-foreground">{benchmark.stoppedEarly}</p>
+              )}
+            </div>
+          )}
+
+          {/* Memory over time */}
+          {memorySamples && memorySamples.length > 1 && (
             <div className="space-y-2">
-              <h4 className="text-sm font-medium">Runtime Performance</h4>
+              <h4 className="text-sm font-medium">Memory Over Time</h4>
               <div className="h-28">
                 <ResponsiveContainer width="100%" height="100%">
-                  <LineChart data={performanceData} margin={{ top: 5, right: 20, left: 20, bottom: 5 }}>
+                  <LineChart data={memorySamples} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
                     <CartesianGrid strokeDasharray="3 3" opacity={0.3} />
-                    <XAxis dataKey="name" />
-                    <YAxis domain={[0, 10]} hide />
+                    <XAxis dataKey="time" type="number" domain={[0, 'dataMax']} tickFormatter={(t) => `${t}s`} />
+                    <YAxis width={40} tickFormatter={(m) => `${m}`} />
                     <Tooltip 
                       content={({ active, payload }) => {
                         if (active && payload && payload.length) {
                           const data = payload[0].payload;
                           return (
                             <div className="bg-background border border-border p-2 rounded-md shadow-sm">
-                              <p className="text-xs font-medium">{data.name}:</p>
-                              <p className="text-sm">{data.metric}</p>
+                              <p className="text-xs font-medium">{data.time.toFixed(2)}s:</p>
+                              <p className="text-sm">{data.memory.toFixed(1)} MB</p>
                             </div>
                           );
                         }
@@ -150,11 +250,10 @@ const PerformanceMetrics: React.FC<PerformanceMetricsProps> = ({
                     />
                     <Line 
                       type="monotone" 
-                      dataKey="value" 
+                      dataKey="memory" 
                       stroke="hsl(var(--primary))" 
-                      strokeWidth={3}
-                      dot={{ r: 6, fill: "hsl(var(--primary))" }}
-                      activeDot={{ r: 8 }}
+                      strokeWidth={2}
+                      dot={false}
                     />
                   </LineChart>
                 </ResponsiveContainer>
@@ -162,6 +261,73 @@ const PerformanceMetrics: React.FC<PerformanceMetricsProps> = ({
             </div>
           )}
 
+          {/* Empirical complexity */}
+          {scaling && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h4 className="text-sm font-medium">Measured Complexity</h4>
+                <ToggleGroup
+                  type="single"
+                  size="sm"
+                  value={scalingMetric}
+                  onValueChange={(metric) => metric && setScalingMetric(metric as 'time' | 'memory')}
+                >
+                  <ToggleGroupItem value="time" className="h-6 px-2 text-xs">Time</ToggleGroupItem>
+                  <ToggleGroupItem value="memory" className="h-6 px-2 text-xs">Memory</ToggleGroupItem>
+                </ToggleGroup>
+              </div>
+              {measuredPoints.length > 0 && (
+                <ChartContainer config={scalingConfig} className="aspect-auto h-36 w-full">
+                  <ComposedChart margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+                    <CartesianGrid strokeDasharray="3 3" opacity={0.3} />
+                    <XAxis
+                      dataKey="n"
+                      type="number"
+                      scale="log"
+                      domain={['dataMin', 'dataMax']}
+                      tickFormatter={formatSize}
+                      tickLine={false}
+                    />
+                    <YAxis width={40} tickLine={false} />
+                    <ChartTooltip
+                      content={({ active, payload }) => {
+                        if (active && payload && payload.length) {
+                          const data = payload[0].payload;
+                          return (
+                            <div className="bg-background border border-border p-2 rounded-md shadow-sm">
+                              <p className="text-xs font-medium">n = {data.n.toLocaleString()}</p>
+                              <p className="text-sm">{data.value.toFixed(2)} {scalingUnit}</p>
+                            </div>
+                          );
+                        }
+                        return null;
+                      }}
+                    />
+                    {scalingFit && (
+                      <Line
+                        data={scalingFit.curve}
+                        dataKey="value"
+                        stroke="var(--color-fitted)"
+                        strokeWidth={2}
+                        dot={false}
+                        isAnimationActive={false}
+                      />
+                    )}
+                    <Scatter data={measuredPoints} dataKey="value" fill="var(--color-measured)" />
+                  </ComposedChart>
+                </ChartContainer>
+              )}
+              <p className="text-xs text-muted-foreground">
+                {scalingFit
+                  ? <>Best fit: <span className="font-mono text-foreground">{describeFit(scalingFit)}</span> ({scalingUnit})</>
+                  : 'Too few sizes were measured to fit a complexity.'}
+              </p>
+              {scaling.stoppedEarly && (
+                <p className="text-xs text-muted-foreground whitespace-pre-wrap">{scaling.stoppedEarly}</p>
+              )}
+            </div>
+          )}
+
           {/* Complexity Analysis */}
           {complexity && (
             <div className="space-y-2">
@@ -196,6 +362,43 @@ const PerformanceMetrics: React.FC<PerformanceMetricsProps> = ({
                   </BarChart>
                 </ResponsiveContainer>
               </div>
+              {complexity.functions && complexity.functions.length > 0 && (
+                <Accordion type="multiple" className="border rounded-md px-3 max-h-[320px] overflow-y-auto">
+                  {complexity.functions.map(fn => (
+                    <AccordionItem key={functionKey(fn)} value={functionKey(fn)}>
+                      <AccordionTrigger className="py-2 hover:no-underline">
+                        <div className="flex flex-1 items-center gap-2 mr-2 text-left text-xs">
+                          <span className="font-mono font-medium truncate">{fn.name}</span>
+                          <span className="text-muted-foreground">line {fn.line}</span>
+                          <span className="ml-auto font-mono" title="Time">{fn.time}</span>
+                          <span className="font-mono text-muted-foreground" title="Extra space">{fn.space}</span>
+                        </div>
+                      </AccordionTrigger>
+                      <AccordionContent className="space-y-1.5 text-xs">
+                        {fn.drivers.length === 0 ? (
+                          <p className="text-muted-foreground">Nothing in it grows with the input.</p>
+                        ) : (
+                          <ul className="space-y-1">
+                            {fn.drivers.map(driver => (
+                              <li key={`${driver.aspect}:${driver.line}:${driver.reason}`} className="flex items-center gap-2">
+                                <Badge variant="outline" className="px-1.5 py-0 text-[10px] font-normal">{driver.aspect}</Badge>
+                                <button
+                                  type="button"
+                                  onClick={() => revealLine(driver.line)}
+                                  className="font-mono text-primary hover:underline"
+                                >
+                                  line {driver.line}
+                                </button>
+                                <span className="text-muted-foreground">{driver.reason}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </AccordionContent>
+                    </AccordionItem>
+                  ))}
+                </Accordion>
+              )}
             </div>
           )}
 
@@ -204,10 +407,10 @@ const PerformanceMetrics: React.FC<PerformanceMetricsProps> = ({
             <div className="flex items-center space-x-3 bg-accent p-3 rounded-md">
               <Clock className="h-5 w-5 text-primary" />
               <div>
-                <h4 className="text-xs text-muted-foreground mb-1">Execution Time</h4>
+                <h4 className="text-xs text-muted-foreground mb-1">{benchmark ? 'Median Time' : 'Execution Time'}</h4>
                 <div className="flex items-center">
-                  <p className="text-lg font-semibold">{executionTime?.toFixed(3) || '—'} s</p>
-                  {executionTime && executionTime < 0.1 && (
+                  <p className="text-lg font-semibold">{shownTime?.toFixed(3) || '—'} s</p>
+                  {shownTime && shownTime < 0.1 && (
                     <Badge className="ml-2 bg-green-500/20 text-green-700 dark:text-green-400 dark:bg-green-900/30">
                       Fast
                     </Badge>
@@ -218,7 +421,7 @@ const PerformanceMetrics: React.FC<PerformanceMetricsProps> = ({
             <div className="flex items-center space-x-3 bg-accent p-3 rounded-md">
               <MemoryStick className="h-5 w-5 text-primary" />
               <div>
-                <h4 className="text-xs text-muted-foreground mb-1">Memory Usage</h4>
+                <h4 className="text-xs text-muted-foreground mb-1">Peak Memory</h4>
                 <div className="flex items-center">
                   <p className="text-lg font-semibold">{memoryUsage?.toFixed(1) || '—'} MB</p>
                   {memoryUsage && memoryUsage < 6 && (
@@ -0,0 +1,57 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { QueryResult } from '@/lib/types';
+import { AlertCircle } from 'lucide-react';
+import { revealStatement, statementSummary } from '@/components/QueryResults';
+
+interface QueryPlansProps {
+  queries: QueryResult[];
+  className?: string;
+}
+
+const describeRows = (query: QueryResult): string | null => {
+  if (query.rowCount !== undefined) return `${query.rowCount} ${query.rowCount === 1 ? 'row' : 'rows'}`;
+  if (query.rowsAffected !== undefined) return `${query.rowsAffected} affected`;
+  return null;
+};
+
+// Per-statement timings and EXPLAIN QUERY PLAN output of a SQL script
+const QueryPlans: React.FC<QueryPlansProps> = ({ queries, className }) => {
+  return (
+    <div className={cn("bg-accent p-3 rounded-md", className)}>
+      <h4 className="text-sm font-medium mb-2">Statements</h4>
+      <ul className="space-y-2 max-h-[300px] overflow-y-auto">
+        {queries.map((query, index) => {
+          const rows = describeRows(query);
+          return (
+            <li key={index} className="bg-background p-2 rounded-md">
+              <button
+                type="button"
+                onClick={() => revealStatement(query)}
+                className="w-full flex items-center gap-2 text-left"
+              >
+                {query.error && <AlertCircle className="h-4 w-4 shrink-0 text-destructive" />}
+                <span className="font-mono text-xs text-muted-foreground shrink-0">line {query.line}</span>
+                <span className="font-mono text-xs truncate">{statementSummary(query.sql)}</span>
+                <span className="ml-auto font-mono text-xs shrink-0">
+                  {rows && <span className="text-muted-foreground mr-2">{rows}</span>}
+                  {query.durationMs.toFixed(3)} ms
+                </span>
+              </button>
+              {query.error && (
+                <p className="mt-1 text-xs text-destructive">{query.error}</p>
+              )}
+              {query.queryPlan && (
+                <pre className="mt-1 text-xs font-mono text-muted-foreground whitespace-pre-wrap">
+                  {query.queryPlan.join('\n')}
+                </pre>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default QueryPlans;
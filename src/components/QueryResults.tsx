@@ -0,0 +1,85 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { QueryResult } from '@/lib/types';
+import { Table, TableBody, TableCaption, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+interface QueryResultsProps {
+  queries: QueryResult[];
+  className?: string;
+}
+
+// Ask the editor to jump to the statement
+export const revealStatement = (query: QueryResult) => {
+  window.dispatchEvent(new CustomEvent('code-editor-reveal-position', {
+    detail: { line: query.line }
+  }));
+};
+
+// First line of a statement, for headings
+export const statementSummary = (sql: string) => {
+  const firstLine = sql.split('\n')[0];
+  return firstLine.length < sql.length ? `${firstLine} …` : firstLine;
+};
+
+// Result sets of a SQL script, one table per statement that returned rows
+const QueryResults: React.FC<QueryResultsProps> = ({ queries, className }) => {
+  const resultSets = queries.filter(query => query.columns);
+
+  if (resultSets.length === 0) {
+    return (
+      <div className={cn("h-[120px] flex items-center justify-center text-muted-foreground text-sm", className)}>
+        No statement returned rows
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn("space-y-4 max-h-[400px] overflow-y-auto", className)}>
+      {resultSets.map((query, index) => (
+        <div key={index} className="border rounded-md">
+          <button
+            type="button"
+            onClick={() => revealStatement(query)}
+            className="w-full flex items-center gap-2 px-3 py-2 border-b bg-muted/30 text-left hover:bg-accent transition-colors"
+          >
+            <span className="font-mono text-xs text-muted-foreground shrink-0">line {query.line}</span>
+            <span className="font-mono text-xs truncate">{statementSummary(query.sql)}</span>
+          </button>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {query.columns!.map((column, columnIndex) => (
+                  <TableHead key={columnIndex} className="h-9 font-mono text-xs">{column}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {query.rows!.map((row, rowIndex) => (
+                <TableRow key={rowIndex}>
+                  {row.map((value, columnIndex) => (
+                    <TableCell
+                      key={columnIndex}
+                      className={cn("py-1.5 font-mono text-xs", value === null && "italic text-muted-foreground")}
+                    >
+                      {value === null ? 'NULL' : String(value)}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+            {query.rowCount !== undefined && query.rowCount !== query.rows!.length && (
+              <TableCaption className="mb-2 text-xs">
+                Showing {query.rows!.length} of {query.rowCount} rows
+              </TableCaption>
+            )}
+            {query.rowCount === 0 && (
+              <TableCaption className="mb-2 text-xs">No rows</TableCaption>
+            )}
+          </Table>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default QueryResults;
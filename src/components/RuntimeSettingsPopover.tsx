@@ -0,0 +1,146 @@
+import React, { useEffect, useState } from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { RuntimeSetting, RuntimeSettings, SettingValue } from '@/lib/types';
+import { cn } from '@/lib/utils';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+
+interface RuntimeSettingsPopoverProps {
+  // Allow-list advertised by the backend for the selected runtime
+  settings: RuntimeSetting[];
+  // Values picked so far; missing ones use their defaults
+  value: RuntimeSettings;
+  onChange: (value: RuntimeSettings) => void;
+  className?: string;
+}
+
+type ListSetting = Extract<RuntimeSetting, { type: 'list' }>;
+
+const splitList = (text: string) => text.split(/[\s,]+/).filter(Boolean);
+
+const sameValue = (a: SettingValue, b: SettingValue) =>
+  Array.isArray(a) && Array.isArray(b)
+    ? a.length === b.length && a.every((item, index) => item === b[index])
+    : a === b;
+
+// Entries are committed on blur so commas and spaces can be typed freely
+const ListSettingInput: React.FC<{
+  setting: ListSetting;
+  value: string[];
+  onChange: (value: string[]) => void;
+}> = ({ setting, value, onChange }) => {
+  const [draft, setDraft] = useState(value.join(', '));
+
+  useEffect(() => {
+    setDraft(value.join(', '));
+  }, [value]);
+
+  const items = splitList(draft);
+  const pattern = new RegExp(setting.pattern);
+  const invalid = items.filter(item => !pattern.test(item));
+  const error = invalid.length > 0
+    ? `Not valid: ${invalid.join(', ')}`
+    : items.length > setting.maxItems
+      ? `At most ${setting.maxItems} entries`
+      : null;
+
+  return (
+    <>
+      <Input
+        id={`setting-${setting.id}`}
+        value={draft}
+        placeholder={setting.placeholder}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={() => onChange(items)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') onChange(items);
+        }}
+        className={cn("h-8 font-mono text-xs", error && "border-destructive")}
+      />
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </>
+  );
+};
+
+// Compiler and interpreter options for the next runs, next to the language picker
+const RuntimeSettingsPopover: React.FC<RuntimeSettingsPopoverProps> = ({ settings, value, onChange, className }) => {
+  const current = (setting: RuntimeSetting) => value[setting.id] ?? setting.default;
+  const changed = settings.filter(setting => !sameValue(current(setting), setting.default)).length;
+
+  // Only non-default values are kept, so requests stay small and defaults follow the server
+  const update = (setting: RuntimeSetting, next: SettingValue) => {
+    const { [setting.id]: _previous, ...rest } = value;
+    onChange(sameValue(next, setting.default) ? rest : { ...rest, [setting.id]: next });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="icon" className={cn("relative h-10 w-10", className)} title="Runtime settings">
+          <SlidersHorizontal className="h-4 w-4" />
+          {changed > 0 && (
+            <span className="absolute -top-1 -right-1 h-4 min-w-4 px-1 rounded-full bg-primary text-[10px] leading-4 text-primary-foreground">
+              {changed}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80">
+        <div className="flex items-center justify-between mb-3">
+          <h4 className="text-sm font-medium">Runtime settings</h4>
+          <Button variant="ghost" size="sm" className="h-7 text-xs" disabled={changed === 0} onClick={() => onChange({})}>
+            Reset
+          </Button>
+        </div>
+        <div className="space-y-4">
+          {settings.map(setting => (
+            <div key={setting.id} className="space-y-1.5">
+              {setting.type === 'flag' ? (
+                <div className="flex items-center justify-between gap-2">
+                  <Label htmlFor={`setting-${setting.id}`}>{setting.label}</Label>
+                  <Switch
+                    id={`setting-${setting.id}`}
+                    checked={current(setting) as boolean}
+                    onCheckedChange={(checked) => update(setting, checked)}
+                  />
+                </div>
+              ) : (
+                <Label htmlFor={`setting-${setting.id}`}>{setting.label}</Label>
+              )}
+              {setting.type === 'choice' && (
+                <Select value={current(setting) as string} onValueChange={(next) => update(setting, next)}>
+                  <SelectTrigger id={`setting-${setting.id}`} className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {setting.choices.map(choice => (
+                      <SelectItem key={choice.value} value={choice.value} className="text-xs">
+                        {choice.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              {setting.type === 'list' && (
+                <ListSettingInput
+                  setting={setting}
+                  value={current(setting) as string[]}
+                  onChange={(next) => update(setting, next)}
+                />
+              )}
+              {setting.description && (
+                <p className="text-xs text-muted-foreground">{setting.description}</p>
+              )}
+            </div>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default RuntimeSettingsPopover;
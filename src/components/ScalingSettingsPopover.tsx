@@ -0,0 +1,151 @@
+import React from 'react';
+import { TrendingUp } from 'lucide-react';
+import { RuntimeInfo, ScalingOptions } from '@/lib/types';
+import { cn } from '@/lib/utils';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import CodeEditor from '@/components/CodeEditor';
+
+interface ScalingSettingsPopoverProps {
+  value: ScalingOptions;
+  onChange: (value: ScalingOptions) => void;
+  // Languages a generator program may be written in
+  generatorLanguages: RuntimeInfo[];
+  disabled?: boolean;
+  className?: string;
+}
+
+// Same bounds as the backend's scaling validation
+const MAX_N = 10_000_000;
+const MIN_STEPS = 4;
+const MAX_STEPS = 12;
+
+const TEMPLATE = 'template';
+
+export const defaultScalingTemplate = '{n}\n{random}';
+
+// Starter generator in Python, the shortest way to write one
+const pythonGenerator = `import random
+import sys
+
+n = int(sys.argv[1])
+random.seed(n)
+print(n)
+print(*(random.randint(1, 10**9) for _ in range(n)))
+`;
+
+// Generated input and the sizes to run, next to the Scaling switch
+const ScalingSettingsPopover: React.FC<ScalingSettingsPopoverProps> = ({ value, onChange, generatorLanguages, disabled, className }) => {
+  const { generator } = value;
+  const generatorRuntime = 'language' in generator ? generatorLanguages.find(runtime => runtime.id === generator.language) : undefined;
+  const rangeValid = value.minN >= 1 && value.minN < value.maxN && value.maxN <= MAX_N;
+
+  const setKind = (kind: string) => {
+    if (kind === TEMPLATE) {
+      onChange({ ...value, generator: { template: defaultScalingTemplate } });
+    } else {
+      onChange({ ...value, generator: { language: kind, code: kind === 'python' ? pythonGenerator : '' } });
+    }
+  };
+
+  const setCount = (key: 'minN' | 'maxN' | 'steps', text: string, min: number, max: number) => {
+    const count = Number.parseInt(text, 10);
+    onChange({ ...value, [key]: Number.isNaN(count) ? min : Math.min(max, Math.max(min, count)) });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className={cn("h-7 text-xs", className)} disabled={disabled} title="Scaling settings">
+          <TrendingUp className="h-3.5 w-3.5 mr-1" />
+          n = {value.minN.toLocaleString()}…{value.maxN.toLocaleString()}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 space-y-3">
+        <h4 className="text-sm font-medium">Input at growing sizes</h4>
+        <div className="space-y-1.5">
+          <Label htmlFor="scaling-generator">Generator</Label>
+          <Select value={'template' in generator ? TEMPLATE : generator.language} onValueChange={setKind}>
+            <SelectTrigger id="scaling-generator" className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={TEMPLATE} className="text-xs">Template</SelectItem>
+              {generatorLanguages.map(runtime => (
+                <SelectItem key={runtime.id} value={runtime.id} className="text-xs">
+                  {runtime.icon} {runtime.displayName} program
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {'template' in generator ? (
+          <>
+            <Textarea
+              value={generator.template}
+              onChange={(e) => onChange({ ...value, generator: { template: e.target.value } })}
+              className="min-h-[80px] font-mono text-xs"
+            />
+            <p className="text-xs text-muted-foreground">
+              <code>{'{n}'}</code> is the size, <code>{'{range}'}</code> the numbers 1 to n and <code>{'{random}'}</code> n
+              random numbers up to 10⁹, or between bounds as in <code>{'{random:1:100}'}</code>.
+            </p>
+          </>
+        ) : (
+          <>
+            <CodeEditor
+              language={generatorRuntime?.monacoLanguage ?? 'plaintext'}
+              value={generator.code}
+              onChange={(code) => onChange({ ...value, generator: { ...generator, code } })}
+              className="h-[180px]"
+            />
+            <p className="text-xs text-muted-foreground">
+              The generator gets n as its first argument and prints the program's input.
+            </p>
+          </>
+        )}
+        <div className="flex items-center gap-2 text-xs">
+          <Label htmlFor="scaling-min-n" className="text-xs">n from</Label>
+          <Input
+            id="scaling-min-n"
+            type="number"
+            min={1}
+            value={value.minN}
+            onChange={(e) => setCount('minN', e.target.value, 1, MAX_N)}
+            className={cn("h-8 w-24 text-xs", !rangeValid && "border-destructive")}
+          />
+          <span>to</span>
+          <Input
+            type="number"
+            min={2}
+            max={MAX_N}
+            value={value.maxN}
+            onChange={(e) => setCount('maxN', e.target.value, 2, MAX_N)}
+            className={cn("h-8 w-28 text-xs", !rangeValid && "border-destructive")}
+            aria-label="Largest n"
+          />
+          <span>in</span>
+          <Input
+            type="number"
+            min={MIN_STEPS}
+            max={MAX_STEPS}
+            value={value.steps}
+            onChange={(e) => setCount('steps', e.target.value, MIN_STEPS, MAX_STEPS)}
+            className="h-8 w-14 text-xs"
+            aria-label="Number of sizes"
+          />
+          <span>steps</span>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Sizes grow geometrically. The series ends at the first size the program fails at or takes too long for.
+        </p>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default ScalingSettingsPopover;
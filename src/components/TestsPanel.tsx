@@ -0,0 +1,415 @@
+import React from 'react';
+import { FlaskConical, Plus, StopCircle, Trash2 } from 'lucide-react';
+import { CheckerProgram, Comparison, ComparisonMode, JudgeResult, RuntimeInfo, TestCase, TestSuite } from '@/lib/types';
+import { cn } from '@/lib/utils';
+import { verdictLabels, verdictStyles } from '@/lib/status';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import CodeEditor from '@/components/CodeEditor';
+import OutputDiff from '@/components/OutputDiff';
+import InteractionTranscript from '@/components/InteractionTranscript';
+
+export interface TestsPanelProps {
+  suite: TestSuite;
+  onSuiteChange: (suite: TestSuite) => void;
+  // Verdicts of the last run; cleared by the parent whenever the suite changes
+  result: JudgeResult | null;
+  isRunning: boolean;
+  onRun: () => void;
+  onStop: () => void;
+  // Languages a custom checker or interactor may be written in
+  checkerLanguages: RuntimeInfo[];
+}
+
+// Same bounds as the backend's test suite validation
+const MIN_TIME_LIMIT_MS = 100;
+const MAX_TIME_LIMIT_MS = 5000;
+
+const comparisonModes: { value: ComparisonMode; label: string }[] = [
+  { value: 'lines', label: 'Exact lines' },
+  { value: 'whitespace', label: 'Ignore whitespace' },
+  { value: 'tokens', label: 'Tokens' },
+  { value: 'float', label: 'Numbers with tolerance' },
+  { value: 'unordered', label: 'Lines in any order' },
+  { value: 'checker', label: 'Custom checker' },
+  { value: 'interactor', label: 'Interactor' }
+];
+
+type JudgeProgramMode = Extract<ComparisonMode, 'checker' | 'interactor'>;
+
+// Starter programs in Python, the shortest way to write one
+const pythonTemplates: Record<JudgeProgramMode, string> = {
+  checker: `import sys
+
+input_text, expected, actual = (open(path).read() for path in sys.argv[1:4])
+
+if actual.split() == expected.split():
+    print("AC")
+else:
+    print("WA output differs")
+`,
+  interactor: `import sys
+
+# A guessing game: the test's input is the secret number
+secret = int(open(sys.argv[1]).read())
+
+for guesses in range(1, 21):
+    try:
+        guess = int(input())
+    except (EOFError, ValueError):
+        print("WA expected a number", file=sys.stderr)
+        sys.exit(0)
+    if guess == secret:
+        print("correct", flush=True)
+        print(f"AC found in {guesses} guesses", file=sys.stderr)
+        sys.exit(0)
+    print("higher" if guess < secret else "lower", flush=True)
+
+print("WA too many guesses", file=sys.stderr)
+`
+};
+
+const judgeProgramHints: Record<JudgeProgramMode, React.ReactNode> = {
+  checker: (
+    <>
+      The checker gets <code>input.txt</code>, <code>expected.txt</code> and <code>actual.txt</code> as
+      arguments and prints <code>AC</code> or <code>WA</code>, optionally followed by a comment.
+    </>
+  ),
+  interactor: (
+    <>
+      The interactor gets <code>input.txt</code> and <code>expected.txt</code> as arguments. Its stdout is the
+      program's stdin and the other way round. It prints <code>AC</code> or <code>WA</code> and a comment
+      on stderr. Remember to flush after every line on both sides.
+    </>
+  )
+};
+
+// Tolerance fields: empty means the server's default
+const ToleranceInput: React.FC<{ id: string; label: string; value?: number; onChange: (value?: number) => void; disabled: boolean }> = ({
+  id,
+  label,
+  value,
+  onChange,
+  disabled
+}) => (
+  <>
+    <Label htmlFor={id} className="text-xs">{label}</Label>
+    <Input
+      id={id}
+      type="number"
+      min={0}
+      step="any"
+      placeholder="1e-6"
+      value={value ?? ''}
+      onChange={(e) => onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+      disabled={disabled}
+      className="h-8 w-24 text-xs"
+    />
+  </>
+);
+
+// How outputs are compared, with the tolerances or the checker or interactor the mode needs
+const ComparisonSettings: React.FC<{
+  comparison: Comparison;
+  onChange: (comparison: Comparison) => void;
+  checkerLanguages: RuntimeInfo[];
+  disabled: boolean;
+}> = ({ comparison, onChange, checkerLanguages, disabled }) => {
+  const programMode = comparison.mode === 'checker' || comparison.mode === 'interactor' ? comparison.mode : null;
+  const program = programMode ? comparison[programMode] : undefined;
+  const programRuntime = checkerLanguages.find(runtime => runtime.id === program?.language);
+
+  const setMode = (mode: ComparisonMode) => {
+    if ((mode === 'checker' || mode === 'interactor') && !comparison[mode]) {
+      const language = checkerLanguages.find(runtime => runtime.id === 'python') ?? checkerLanguages[0];
+      onChange({
+        ...comparison,
+        mode,
+        [mode]: { language: language?.id ?? 'python', code: language?.id === 'python' ? pythonTemplates[mode] : '' }
+      });
+    } else {
+      onChange({ ...comparison, mode });
+    }
+  };
+
+  const updateProgram = (changes: Partial<CheckerProgram>) => {
+    if (programMode && program) {
+      onChange({ ...comparison, [programMode]: { ...program, ...changes } });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <Label className="text-xs">Compare</Label>
+        <Select value={comparison.mode} onValueChange={(mode) => setMode(mode as ComparisonMode)} disabled={disabled}>
+          <SelectTrigger className="h-8 w-48 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {comparisonModes.map(mode => (
+              <SelectItem
+                key={mode.value}
+                value={mode.value}
+                disabled={(mode.value === 'checker' || mode.value === 'interactor') && checkerLanguages.length === 0}
+                className="text-xs"
+              >
+                {mode.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {comparison.mode === 'float' && (
+          <>
+            <ToleranceInput
+              id="absolute-tolerance"
+              label="Absolute"
+              value={comparison.absoluteTolerance}
+              onChange={(absoluteTolerance) => onChange({ ...comparison, absoluteTolerance })}
+              disabled={disabled}
+            />
+            <ToleranceInput
+              id="relative-tolerance"
+              label="Relative"
+              value={comparison.relativeTolerance}
+              onChange={(relativeTolerance) => onChange({ ...comparison, relativeTolerance })}
+              disabled={disabled}
+            />
+          </>
+        )}
+        {program && (
+          <Select
+            value={program.language}
+            onValueChange={(language) => updateProgram({ language, settings: undefined })}
+            disabled={disabled}
+          >
+            <SelectTrigger className="h-8 w-40 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {checkerLanguages.map(runtime => (
+                <SelectItem key={runtime.id} value={runtime.id} className="text-xs">
+                  {runtime.icon} {runtime.displayName}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+      {programMode && program && (
+        <>
+          <p className="text-xs text-muted-foreground">{judgeProgramHints[programMode]}</p>
+          <CodeEditor
+            language={programRuntime?.monacoLanguage ?? 'plaintext'}
+            value={program.code}
+            onChange={(code) => updateProgram({ code })}
+            className="h-[200px]"
+          />
+        </>
+      )}
+    </div>
+  );
+};
+
+const TestsPanel: React.FC<TestsPanelProps> = ({ suite, onSuiteChange, result, isRunning, onRun, onStop, checkerLanguages }) => {
+  const updateCase = (id: string, changes: Partial<TestCase>) => {
+    onSuiteChange({
+      ...suite,
+      cases: suite.cases.map(test => test.id === id ? { ...test, ...changes } : test)
+    });
+  };
+
+  const addCase = () => {
+    onSuiteChange({
+      ...suite,
+      cases: [...suite.cases, { id: crypto.randomUUID(), name: `Test ${suite.cases.length + 1}`, input: '', expectedOutput: '' }]
+    });
+  };
+
+  const removeCase = (id: string) => {
+    onSuiteChange({ ...suite, cases: suite.cases.filter(test => test.id !== id) });
+  };
+
+  const setTimeLimit = (text: string) => {
+    const value = Number(text);
+    if (Number.isFinite(value)) {
+      onSuiteChange({ ...suite, timeLimitMs: Math.round(value) });
+    }
+  };
+
+  const interactive = suite.comparison.mode === 'interactor';
+  const timeLimitValid = suite.timeLimitMs >= MIN_TIME_LIMIT_MS && suite.timeLimitMs <= MAX_TIME_LIMIT_MS;
+  // Results line up with the cases they were run for, in order; an aborted run has the
+  // cases that finished before it was stopped
+  const caseResults = result?.cases ?? [];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Label htmlFor="time-limit" className="text-xs">Time limit</Label>
+        <Input
+          id="time-limit"
+          type="number"
+          min={MIN_TIME_LIMIT_MS}
+          max={MAX_TIME_LIMIT_MS}
+          step={100}
+          value={suite.timeLimitMs}
+          onChange={(e) => setTimeLimit(e.target.value)}
+          disabled={isRunning}
+          className={cn("h-8 w-24 text-xs", !timeLimitValid && "border-destructive")}
+        />
+        <span className="text-xs text-muted-foreground">ms per case</span>
+        {result?.status === 'ok' && (
+          <span className={cn("text-sm font-medium", result.passed === result.cases.length ? "text-green-600" : "text-destructive")}>
+            {result.passed}/{result.cases.length} passed
+          </span>
+        )}
+        <div className="ml-auto flex gap-2">
+          <Button variant="outline" size="sm" className="h-8" onClick={addCase} disabled={isRunning}>
+            <Plus className="mr-1 h-4 w-4" />
+            Add case
+          </Button>
+          {isRunning ? (
+            <Button variant="destructive" size="sm" className="h-8" onClick={onStop}>
+              <StopCircle className="mr-1 h-4 w-4" />
+              Stop
+            </Button>
+          ) : (
+            <Button size="sm" className="h-8" onClick={onRun} disabled={suite.cases.length === 0 || !timeLimitValid}>
+              <FlaskConical className="mr-1 h-4 w-4" />
+              Run tests
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {!timeLimitValid && (
+        <p className="text-xs text-destructive">
+          The time limit must be between {MIN_TIME_LIMIT_MS} and {MAX_TIME_LIMIT_MS} ms
+        </p>
+      )}
+
+      <ComparisonSettings
+        comparison={suite.comparison}
+        onChange={(comparison) => onSuiteChange({ ...suite, comparison })}
+        checkerLanguages={checkerLanguages}
+        disabled={isRunning}
+      />
+
+      {(result?.status === 'compile_error' || result?.status === 'checker_error') && (
+        <pre className="bg-destructive/10 text-destructive p-3 rounded-md overflow-x-auto text-sm font-mono whitespace-pre-wrap max-h-[200px] overflow-y-auto">
+          {result.errors || (result.status === 'compile_error' ? 'Compilation failed' : `The ${suite.comparison.mode} failed`)}
+        </pre>
+      )}
+
+      {suite.cases.length === 0 ? (
+        <div className="h-[120px] flex items-center justify-center text-muted-foreground text-sm text-center px-4">
+          Add test cases with an input and the output your program should print for it
+        </div>
+      ) : (
+        <Accordion type="multiple" className="border rounded-md px-3 max-h-[480px] overflow-y-auto">
+          {suite.cases.map((test, index) => {
+            const caseResult = caseResults[index];
+            const failed = caseResult && caseResult.verdict !== 'AC';
+            return (
+              <AccordionItem key={test.id} value={test.id}>
+                <AccordionTrigger className="py-2 hover:no-underline">
+                  <div className="flex flex-1 items-center gap-2 mr-2 text-left">
+                    <span className="text-sm font-medium truncate">{test.name || `Test ${index + 1}`}</span>
+                    {caseResult && (
+                      <>
+                        <Badge
+                          variant="outline"
+                          title={verdictLabels[caseResult.verdict]}
+                          className={cn("border-transparent font-mono", verdictStyles[caseResult.verdict])}
+                        >
+                          {caseResult.verdict}
+                        </Badge>
+                        <span className="ml-auto text-xs font-mono text-muted-foreground">
+                          {caseResult.timeMs} ms · {caseResult.memoryMb.toFixed(1)} MB
+                        </span>
+                      </>
+                    )}
+                  </div>
+                </AccordionTrigger>
+                <AccordionContent className="space-y-3">
+                  <div className="flex items-center gap-2">
+                    <Input
+                      value={test.name}
+                      onChange={(e) => updateCase(test.id, { name: e.target.value })}
+                      placeholder={`Test ${index + 1}`}
+                      disabled={isRunning}
+                      className="h-8 text-xs"
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 shrink-0"
+                      onClick={() => removeCase(test.id)}
+                      disabled={isRunning}
+                      title="Remove test case"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <div className="space-y-1">
+                      <Label className="text-xs">{interactive ? 'Input for the interactor' : 'Input'}</Label>
+                      <Textarea
+                        value={test.input}
+                        onChange={(e) => updateCase(test.id, { input: e.target.value })}
+                        disabled={isRunning}
+                        className="min-h-[80px] font-mono text-xs"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">{interactive ? 'Expected output for the interactor' : 'Expected output'}</Label>
+                      <Textarea
+                        value={test.expectedOutput}
+                        onChange={(e) => updateCase(test.id, { expectedOutput: e.target.value })}
+                        disabled={isRunning}
+                        className="min-h-[80px] font-mono text-xs"
+                      />
+                    </div>
+                  </div>
+                  {caseResult?.transcript && <InteractionTranscript result={caseResult} />}
+                  {caseResult && !caseResult.transcript && !failed && caseResult.message && (
+                    <p className="text-sm text-muted-foreground whitespace-pre-wrap">Checker: {caseResult.message}</p>
+                  )}
+                  {failed && (
+                    <div className="space-y-2">
+                      {!caseResult.transcript && (
+                        <p className="text-sm text-destructive whitespace-pre-wrap">
+                          {verdictLabels[caseResult.verdict]}{caseResult.message && `: ${caseResult.message}`}
+                        </p>
+                      )}
+                      {caseResult.verdict === 'WA' && !caseResult.transcript && (
+                        <OutputDiff expected={test.expectedOutput} actual={caseResult.output} />
+                      )}
+                      {caseResult.outputTruncated && (
+                        <p className="text-xs text-muted-foreground">Only the beginning of the output is shown</p>
+                      )}
+                      {caseResult.errors && (
+                        <pre className="bg-destructive/10 text-destructive p-3 rounded-md overflow-x-auto text-xs font-mono whitespace-pre-wrap max-h-[160px] overflow-y-auto">
+                          {caseResult.errors}
+                        </pre>
+                      )}
+                    </div>
+                  )}
+                </AccordionContent>
+              </AccordionItem>
+            );
+          })}
+        </Accordion>
+      )}
+    </div>
+  );
+};
+
+export default TestsPanel;
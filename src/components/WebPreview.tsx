@@ -0,0 +1,93 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { cn } from '@/lib/utils';
+import { ConsoleEntry, PREVIEW_MESSAGE_SOURCE } from '@/lib/web';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Button } from '@/components/ui/button';
+
+interface WebPreviewProps {
+  // Complete document to render, see buildPreviewDocument
+  document: string;
+  // Changes whenever the user asks to run again, so an unchanged document is reloaded too
+  runId: number;
+  className?: string;
+}
+
+const consoleStyles: Record<ConsoleEntry['level'], string> = {
+  log: '',
+  info: 'text-blue-600 dark:text-blue-400',
+  debug: 'text-muted-foreground',
+  warn: 'bg-amber-50 text-amber-800 dark:bg-amber-900/20 dark:text-amber-300',
+  error: 'bg-destructive/10 text-destructive'
+};
+
+const tabTriggerClass = "relative rounded-none border-b-2 border-transparent data-[state=active]:border-primary";
+
+// Page preview in an iframe without same-origin access, plus what it logged to the console.
+// Both tabs stay mounted so the page keeps running while the console is open.
+const WebPreview: React.FC<WebPreviewProps> = ({ document, runId, className }) => {
+  const frameRef = useRef<HTMLIFrameElement>(null);
+  const [entries, setEntries] = useState<ConsoleEntry[]>([]);
+  const [activeTab, setActiveTab] = useState('preview');
+
+  // Every load starts with an empty console
+  useEffect(() => {
+    setEntries([]);
+  }, [document, runId]);
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== frameRef.current?.contentWindow) return;
+      if (event.data?.source !== PREVIEW_MESSAGE_SOURCE) return;
+      const { level, message } = event.data;
+      setEntries(prev => [...prev, { level, message: String(message) }]);
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, []);
+
+  const errorCount = entries.filter(entry => entry.level === 'error').length;
+
+  return (
+    <Tabs value={activeTab} onValueChange={setActiveTab} className={cn("w-full", className)}>
+      <TabsList className="w-full justify-start rounded-none border-b bg-transparent px-4">
+        <TabsTrigger value="preview" className={tabTriggerClass}>
+          Preview
+        </TabsTrigger>
+        <TabsTrigger value="console" className={cn(tabTriggerClass, errorCount > 0 && "text-destructive")}>
+          Console{entries.length > 0 && ` (${entries.length})`}
+        </TabsTrigger>
+      </TabsList>
+      <TabsContent value="preview" forceMount className="p-4 pt-2 data-[state=inactive]:hidden">
+        <iframe
+          key={runId}
+          ref={frameRef}
+          title="Web preview"
+          srcDoc={document}
+          sandbox="allow-scripts allow-modals"
+          className="w-full h-[400px] rounded-md border bg-white"
+        />
+      </TabsContent>
+      <TabsContent value="console" forceMount className="p-4 pt-2 data-[state=inactive]:hidden">
+        <div className="border rounded-md">
+          <div className="flex items-center justify-end px-2 py-1 border-b bg-muted/30">
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setEntries([])}>
+              Clear
+            </Button>
+          </div>
+          <ul className="h-[360px] overflow-y-auto font-mono text-xs divide-y">
+            {entries.length === 0 ? (
+              <li className="p-3 text-muted-foreground">Nothing logged yet</li>
+            ) : entries.map((entry, index) => (
+              <li key={index} className={cn("px-3 py-1.5 whitespace-pre-wrap break-words", consoleStyles[entry.level])}>
+                {entry.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      </TabsContent>
+    </Tabs>
+  );
+};
+
+export default WebPreview;
@@ -0,0 +1,18 @@
+import { useQuery } from "@tanstack/react-query"
+import { fetchRuntimes } from "@/lib/api"
+import { Language, RuntimeInfo } from "@/lib/types"
+
+// Language runtimes offered by the backend, with their installed toolchain versions.
+// They only change when the server restarts, so they are fetched once per session.
+export function useRuntimes() {
+  const { data: runtimes = [], isLoading, isError } = useQuery({
+    queryKey: ["runtimes"],
+    queryFn: fetchRuntimes,
+    staleTime: Infinity,
+  })
+
+  const getRuntime = (id: Language): RuntimeInfo | undefined =>
+    runtimes.find((runtime) => runtime.id === id)
+
+  return { runtimes, getRuntime, isLoading, isError }
+}
@@ -0,0 +1,50 @@
+import { ExecutionResult, ExecutionStatus, Verdict } from './types';
+
+export const statusLabels: Record<ExecutionStatus, string> = {
+  ok: 'Success',
+  compile_error: 'Compilation Error',
+  runtime_error: 'Runtime Error',
+  time_limit: 'Time Limit Exceeded',
+  memory_limit: 'Memory Limit Exceeded',
+  output_limit: 'Output Limit Exceeded',
+  aborted: 'Aborted',
+  internal_error: 'Internal Error'
+};
+
+// Badge colours: green for success, red for failures of the code, amber for limits
+export const statusStyles: Record<ExecutionStatus, string> = {
+  ok: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300',
+  compile_error: 'bg-destructive/10 text-destructive',
+  runtime_error: 'bg-destructive/10 text-destructive',
+  time_limit: 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300',
+  memory_limit: 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300',
+  output_limit: 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300',
+  aborted: 'bg-muted text-muted-foreground',
+  internal_error: 'bg-destructive/10 text-destructive'
+};
+
+// How the program ended, e.g. "exit code 3" or "killed by SIGSEGV". Null for a clean exit.
+export function describeExit(result: ExecutionResult): string | null {
+  if (result.signal) return `killed by ${result.signal}`;
+  if (result.exitCode !== undefined && result.exitCode !== null && result.exitCode !== 0) {
+    return `exit code ${result.exitCode}`;
+  }
+  return null;
+}
+
+export const verdictLabels: Record<Verdict, string> = {
+  AC: 'Accepted',
+  WA: 'Wrong Answer',
+  TLE: 'Time Limit Exceeded',
+  MLE: 'Memory Limit Exceeded',
+  RE: 'Runtime Error'
+};
+
+// Same palette as the run statuses
+export const verdictStyles: Record<Verdict, string> = {
+  AC: statusStyles.ok,
+  WA: statusStyles.runtime_error,
+  TLE: statusStyles.time_limit,
+  MLE: statusStyles.memory_limit,
+  RE: statusStyles.runtime_error
+};
@@ -1,23 +1,231 @@
-export type Language = 'python' | 'java' | 'cpp';
+// Language identifier as registered by a backend runtime, e.g. "python" or "cpp"
+export type Language = string;
+
+// A language the backend can run, as listed by GET /api/runtimes
+export interface RuntimeInfo {
+  id: Language;
+  displayName: string;
+  icon: string;
+  monacoLanguage: string;
+  fileExtension: string;
+  example: string;
+  options: RuntimeOptions;
+  // Per-run options the runtime accepts; anything else is rejected by the server
+  settings: RuntimeSetting[];
+  // Whether the toolchain was found on the server, and the version it reported
+  available: boolean;
+  version: string | null;
+}
+
+export interface RuntimeOptions {
+  compiled: boolean;           // has a compile step
+  interactive: boolean;        // supports the interactive terminal
+  runtimeDiagnostics: boolean; // crashes are mapped to a source line
+  checker: boolean;            // can grade test outputs as a custom checker or interactor
+}
+
+export type SettingValue = string | boolean | string[];
+export type RuntimeSettings = Record<string, SettingValue>;
+
+interface SettingBase {
+  id: string;
+  label: string;
+  description?: string;
+}
+
+export type RuntimeSetting =
+  | SettingBase & { type: 'choice'; choices: { value: string; label: string }[]; default: string }
+  | SettingBase & { type: 'flag'; default: boolean }
+  // Each entry must match `pattern`, a regular expression source
+  | SettingBase & { type: 'list'; pattern: string; maxItems: number; placeholder?: string; default: string[] };
 
 export interface CodeExecution {
   code: string;
   language: Language;
   input?: string;
+  // Keep stdin open after `input` so the program can be driven from the terminal
+  interactive?: boolean;
+  // Values for the runtime's settings; omitted ones use their defaults
+  settings?: RuntimeSettings;
+  // Re-run a successful program to measure it; not available for interactive runs
+  benchmark?: BenchmarkOptions;
+  // Re-run a successful program on generated inputs of growing size to measure its complexity
+  scaling?: ScalingOptions;
+}
+
+export interface BenchmarkOptions {
+  runs: number;       // measured runs, 1-50
+  warmupRuns: number; // unmeasured runs before them, 0-10
 }
 
+// A template using {n}, {range} (1 to n) and {random} or {random:LO:HI} (n numbers), or a
+// program that gets n as its first argument and prints the input
+export type InputGenerator = { template: string } | CheckerProgram;
+
+export interface ScalingOptions {
+  generator: InputGenerator;
+  minN: number;   // sizes run are a geometric series from minN to maxN
+  maxN: number;   // at most 10^7
+  steps: number;  // 4-12
+}
+
+// Which sandbox limit stopped the program, if any
+export type LimitVerdict = 'time_limit' | 'memory_limit' | 'output_limit';
+
+// Outcome of a run. Everything except `internal_error` describes the submitted program.
+export type ExecutionStatus =
+  | 'ok'
+  | 'compile_error'
+  | 'runtime_error'
+  | LimitVerdict
+  | 'aborted'
+  | 'internal_error';
+
 export interface ExecutionResult {
+  status: ExecutionStatus;
+  exitCode?: number | null;   // null when the program did not exit normally
+  signal?: string | null;     // name of the signal that terminated the program, e.g. "SIGSEGV"
   output: string;
   errors?: string;
-  executionTime: number;
-  memoryUsage: number;
+  compileTime?: number;  // compiler wall time in seconds, for compiled languages
+  executionTime: number; // wall time of the run in seconds
+  cpuTime?: number;      // user + system CPU time in seconds
+  memoryUsage: number;   // peak resident set size in MB
+  memorySamples?: MemorySample[];
+  // Compiler errors and warnings, or the runtime error, located in the submitted source
+  diagnostics?: Diagnostic[];
+  // Per-statement results of a SQL script, in place of `complexity`
+  queries?: QueryResult[];
+  // Reports from C/C++ runs with sanitizers enabled
+  sanitizerFindings?: SanitizerFinding[];
+  // Timings of the repeated runs when a benchmark was requested
+  benchmark?: BenchmarkResult;
+  // Measurements at growing input sizes and the complexity they fit, when scaling was requested
+  scaling?: ScalingResult;
   complexity?: ComplexityEstimate;
 }
 
+export interface Statistics {
+  min: number;
+  median: number;
+  mean: number;
+  p95: number;
+  stddev: number; // sample standard deviation
+}
+
+export interface BenchmarkSample {
+  wallTimeMs: number;
+  cpuTimeMs?: number;
+  memoryMb: number;
+}
+
+export interface BenchmarkResult {
+  runs: number;        // measured runs, fewer than requested when it stopped early
+  warmupRuns: number;
+  wallTimeMs: Statistics;
+  cpuTimeMs?: Statistics; // absent when the server cannot measure CPU time
+  memoryMb: Statistics;
+  samples: BenchmarkSample[];
+  stoppedEarly?: string;  // why not all runs were measured
+}
+
+export type ComplexityClass = 'O(1)' | 'O(log n)' | 'O(n)' | 'O(n log n)' | 'O(n²)' | 'O(n³)' | 'O(2^n)';
+
+export interface ScalingPoint {
+  n: number;
+  timeMs: number;
+  memoryMb: number;
+}
+
+export interface ComplexityFit {
+  notation: ComplexityClass;
+  intercept: number;      // the model is intercept + coefficient · f(n)
+  coefficient: number;
+  rSquared: number;       // 0 for O(1)
+  relativeError: number;  // RMS error relative to the mean measurement
+  curve: Array<{ n: number; value: number }>; // the model across the measured range
+}
+
+export interface ScalingResult {
+  points: ScalingPoint[];
+  timeMetric: 'cpu' | 'wall';
+  time?: ComplexityFit;   // absent with fewer than 4 sizes measured
+  memory?: ComplexityFit;
+  stoppedEarly?: string;  // e.g. the program hit its time limit at some n
+}
+
+// One statement of a SQL script
+export interface QueryResult {
+  sql: string;
+  line: number;         // 1-based line the statement starts on
+  durationMs: number;
+  columns?: string[];   // present when the statement returned rows
+  rows?: Array<Array<string | number | null>>; // capped by the backend
+  rowCount?: number;    // full size of the result set
+  rowsAffected?: number;
+  queryPlan?: string[]; // EXPLAIN QUERY PLAN steps, indented by nesting
+  error?: string;       // the statement that stopped the script
+}
+
+export interface StackFrame {
+  function?: string;
+  file?: string;      // file or library name, without directories
+  line?: number;
+  column?: number;
+  inSource: boolean;  // points into the submitted source
+}
+
+// A memory error, leak or undefined behavior found by AddressSanitizer, LeakSanitizer or UBSan
+export interface SanitizerFinding {
+  sanitizer: 'address' | 'leak' | 'undefined';
+  kind: string;       // e.g. "heap-buffer-overflow" or "signed-integer-overflow"
+  message: string;
+  details: string[];
+  line?: number;      // innermost location in the submitted source
+  column?: number;
+  frames: StackFrame[];
+  related: Array<{ description: string; frames: StackFrame[] }>; // e.g. where the memory was freed
+}
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export interface Diagnostic {
+  file: string;
+  line: number;     // 1-based
+  column?: number;  // 1-based, absent when only the line is known
+  severity: DiagnosticSeverity;
+  message: string;
+  code?: string;    // warning flag or exception type
+}
+
+export interface MemorySample {
+  time: number;   // seconds since the program started
+  memory: number; // resident set size in MB
+}
+
+// A line that drives a function's time or space bound, e.g. a loop over the input
+export interface ComplexityDriver {
+  line: number;
+  aspect: 'time' | 'space';
+  reason: string;
+}
+
+export interface FunctionComplexity {
+  name: string;
+  line: number;
+  endLine: number;
+  time: string;
+  space: string;
+  explanation: string;
+  drivers: ComplexityDriver[];
+}
+
+// Static estimate from parsing the code, for the program and each of its functions
 export interface ComplexityEstimate {
   time: string;
   space: string;
   explanation: string;
+  functions?: FunctionComplexity[];
 }
 
 export interface AIFeedback {
@@ -33,9 +241,97 @@ export interface CodeSuggestion {
   lineNumbers?: number[];
   severity: 'info' | 'warning' | 'critical';
   improvementCode?: string;
+  source?: 'heuristic' | 'compiler'; // compiler warnings from a successful build, or pattern-based advice
 }
 
+export type ExecutionPhase = 'compiling' | 'running' | 'benchmarking' | 'scaling';
+
+export type ExecutionOutputType = 'output' | 'error';
+
 export interface ExecutionResponse {
+  executionId?: string;
   result: ExecutionResult;
   aiFeedback: AIFeedback;
 }
+
+// Accepted, Wrong Answer, Time Limit Exceeded, Memory Limit Exceeded, Runtime Error
+export type Verdict = 'AC' | 'WA' | 'TLE' | 'MLE' | 'RE';
+
+export interface TestCase {
+  id: string;           // client-side key only
+  name: string;
+  input: string;
+  expectedOutput: string;
+}
+
+// How outputs are compared: exact lines (ignoring trailing whitespace), lines with whitespace
+// collapsed, tokens, tokens with numeric tolerance, lines in any order, or a checker program.
+// With an interactor the program converses with it instead of reading the case's input.
+export type ComparisonMode = 'lines' | 'whitespace' | 'tokens' | 'float' | 'unordered' | 'checker' | 'interactor';
+
+// A checker gets input.txt, expected.txt and actual.txt as arguments and prints AC or WA plus a
+// comment. An interactor gets input.txt and expected.txt, talks to the program over stdin and
+// stdout, and prints its verdict on stderr.
+export interface CheckerProgram {
+  language: Language;
+  code: string;
+  settings?: RuntimeSettings;
+}
+
+export interface Comparison {
+  mode: ComparisonMode;
+  absoluteTolerance?: number; // float mode, default 1e-6
+  relativeTolerance?: number; // float mode, default 1e-6
+  checker?: CheckerProgram;   // checker mode
+  interactor?: CheckerProgram; // interactor mode
+}
+
+// Practice-problem checks attached to the editor: stdin plus expected stdout per case
+export interface TestSuite {
+  cases: TestCase[];
+  timeLimitMs: number;  // per case
+  comparison: Comparison;
+}
+
+export interface JudgeRequest {
+  code: string;
+  language: Language;
+  settings?: RuntimeSettings;
+  tests: Array<Omit<TestCase, 'id'>>;
+  timeLimitMs?: number;
+  comparison?: Comparison;
+}
+
+export interface TestCaseResult {
+  name: string;
+  verdict: Verdict;
+  timeMs: number;       // CPU time when measured, otherwise wall time
+  memoryMb: number;
+  output: string;
+  outputTruncated?: boolean;
+  errors?: string;
+  message?: string;     // why the case failed, e.g. "Line 3 differs", or the checker's comment
+  transcript?: TranscriptEntry[]; // interactor mode: the dialogue, capped at 1000 lines
+  transcriptTruncated?: boolean;
+}
+
+export interface TranscriptEntry {
+  from: 'program' | 'interactor';
+  text: string;         // one line
+  timeMs: number;       // since both processes started
+}
+
+export interface JudgeResult {
+  status: 'ok' | 'compile_error' | 'checker_error' | 'aborted';
+  errors?: string;      // compiler output when the build failed, or why the checker could not grade
+  compileTime?: number;
+  diagnostics: Diagnostic[];
+  timeLimitMs: number;
+  cases: TestCaseResult[]; // in the order of the request's tests
+  passed: number;
+}
+
+export interface JudgeResponse {
+  executionId: string;
+  result: JudgeResult;
+}
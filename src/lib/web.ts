@@ -0,0 +1,158 @@
+import { RuntimeInfo } from './types';
+
+// Web mode runs entirely in the browser: the panes are combined into one document and
+// rendered in a sandboxed iframe instead of being sent to the backend
+export const WEB_LANGUAGE = 'web';
+
+export interface WebSources {
+  html: string;
+  css: string;
+  js: string;
+}
+
+export type WebPane = keyof WebSources;
+
+export const webPanes: { id: WebPane; label: string; monacoLanguage: string }[] = [
+  { id: 'html', label: 'HTML', monacoLanguage: 'html' },
+  { id: 'css', label: 'CSS', monacoLanguage: 'css' },
+  { id: 'js', label: 'JavaScript', monacoLanguage: 'javascript' }
+];
+
+export const webExample: WebSources = {
+  html: `<main>
+  <h1>Counter</h1>
+  <p>You clicked <span id="count">0</span> times.</p>
+  <button id="increment">Click me</button>
+</main>`,
+  css: `body {
+  font-family: system-ui, sans-serif;
+  display: grid;
+  place-items: center;
+  min-height: 90vh;
+  margin: 0;
+}
+
+button {
+  padding: 0.5rem 1rem;
+  border: none;
+  border-radius: 0.375rem;
+  background: #3b82f6;
+  color: white;
+  cursor: pointer;
+}`,
+  js: `const count = document.getElementById('count');
+let clicks = 0;
+
+document.getElementById('increment').addEventListener('click', () => {
+  clicks++;
+  count.textContent = clicks;
+  console.log('Clicked', clicks, clicks === 1 ? 'time' : 'times');
+});
+
+console.log('Page loaded');`
+};
+
+// Picker entry for Web mode, listed after the backend runtimes
+export const webRuntime: RuntimeInfo = {
+  id: WEB_LANGUAGE,
+  displayName: 'Web (HTML/CSS/JS)',
+  icon: '🌐',
+  monacoLanguage: 'html',
+  fileExtension: 'html',
+  example: '',
+  options: { compiled: false, interactive: false, runtimeDiagnostics: false, checker: false },
+  settings: [],
+  available: true,
+  version: null
+};
+
+// Tag for messages the preview posts to the page
+export const PREVIEW_MESSAGE_SOURCE = 'compilesense-preview';
+
+export type ConsoleLevel = 'log' | 'info' | 'warn' | 'error' | 'debug';
+
+export interface ConsoleEntry {
+  level: ConsoleLevel;
+  message: string;
+}
+
+// Inline content only: no requests leave the preview, not even for images, fonts or forms
+const PREVIEW_CSP = "default-src 'none'; script-src 'unsafe-inline'; style-src 'unsafe-inline'; img-src data: blob:; font-src data:; media-src data: blob:; form-action 'none'";
+
+// Forwards console calls and uncaught errors to the page. The iframe has an opaque
+// origin, so postMessage is the only way out. Links are not followed, since CSP cannot
+// stop the frame itself from navigating to another site.
+const CONSOLE_BRIDGE = `(function () {
+  var format = function (value) {
+    if (typeof value === 'string') return value;
+    if (value instanceof Error) return value.stack || String(value);
+    try {
+      var json = JSON.stringify(value);
+      return json === undefined ? String(value) : json;
+    } catch (e) {
+      return String(value);
+    }
+  };
+  var send = function (level, args) {
+    parent.postMessage({
+      source: '${PREVIEW_MESSAGE_SOURCE}',
+      level: level,
+      message: Array.prototype.map.call(args, format).join(' ')
+    }, '*');
+  };
+  ['log', 'info', 'warn', 'error', 'debug'].forEach(function (level) {
+    var original = console[level];
+    console[level] = function () {
+      send(level, arguments);
+      original.apply(console, arguments);
+    };
+  });
+  window.addEventListener('error', function (event) {
+    send('error', [event.error || event.message]);
+  });
+  window.addEventListener('unhandledrejection', function (event) {
+    send('error', ['Unhandled promise rejection:', event.reason]);
+  });
+  document.addEventListener('click', function (event) {
+    var link = event.target.closest && event.target.closest('a[href]');
+    if (link && link.getAttribute('href').charAt(0) !== '#') {
+      event.preventDefault();
+      send('warn', ['Links are disabled in the preview:', link.href]);
+    }
+  }, true);
+})();`;
+
+// Keep pane contents from closing the element they are embedded in
+const escapeClosingTag = (code: string, tag: string) =>
+  code.replace(new RegExp(`</(${tag})`, 'gi'), '<\\/$1');
+
+// One document from the three panes, as the user wrote them
+export function buildWebDocument({ html, css, js }: WebSources): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<style>
+${escapeClosingTag(css, 'style')}
+</style>
+</head>
+<body>
+${html}
+<script>
+${escapeClosingTag(js, 'script')}
+</script>
+</body>
+</html>
+`;
+}
+
+// The document rendered in the preview: the user's page behind a network-blocking CSP,
+// with the console bridge running before any of their code
+export function buildPreviewDocument(sources: WebSources): string {
+  return buildWebDocument(sources).replace(
+    '<meta charset="utf-8">',
+    () => `<meta charset="utf-8">
+<meta http-equiv="Content-Security-Policy" content="${PREVIEW_CSP}">
+<script>${CONSOLE_BRIDGE}</script>`
+  );
+}
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { 
   Play, 
   RotateCcw,
@@ -10,10 +10,19 @@ import {
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Textarea } from '@/components/ui/textarea';
-import { Language, ExecutionResponse } from '@/lib/types';
-import { executeCode, getExampleCode, abortExecution } from '@/lib/api';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from '@/components/ui/resizable';
+import { Language, BenchmarkOptions, ExecutionResponse, JudgeResult, RuntimeSettings, ScalingOptions, TestSuite } from '@/lib/types';
+import { executeCode, abortExecution, judgeCode } from '@/lib/api';
+import { useRuntimes } from '@/hooks/use-runtimes';
+import { describeExit, statusLabels } from '@/lib/status';
+import { WEB_LANGUAGE, WebSources, buildPreviewDocument, buildWebDocument, webExample, webPanes, webRuntime } from '@/lib/web';
 import CodeEditor from '@/components/CodeEditor';
 import LanguageSelector from '@/components/LanguageSelector';
+import RuntimeSettingsPopover from '@/components/RuntimeSettingsPopover';
+import ScalingSettingsPopover, { defaultScalingTemplate } from '@/components/ScalingSettingsPopover';
 import ExecutionResults from '@/components/ExecutionResults';
 import AIFeedback from '@/components/AIFeedback';
 import PerformanceMetrics from '@/components/PerformanceMetrics';
@@ -25,18 +34,76 @@ const Index = () => {
   const [language, setLanguage] = useState<Language>('python');
   const [code, setCode] = useState('');
   const [input, setInput] = useState('');
+  const [interactive, setInteractive] = useState(false);
+  const [benchmarking, setBenchmarking] = useState(false);
+  const [benchmark, setBenchmark] = useState<BenchmarkOptions>({ runs: 10, warmupRuns: 1 });
+  const [scalingEnabled, setScalingEnabled] = useState(false);
+  const [scaling, setScaling] = useState<ScalingOptions>({
+    generator: { template: defaultScalingTemplate },
+    minN: 100,
+    maxN: 100000,
+    steps: 8
+  });
   const [isExecuting, setIsExecuting] = useState(false);
   const [executionResponse, setExecutionResponse] = useState<ExecutionResponse | null>(null);
+  const [webSources, setWebSources] = useState<WebSources>(webExample);
+  const [previewRun, setPreviewRun] = useState(0);
+  // Settings are kept per language, so switching back and forth keeps them
+  const [settingsByLanguage, setSettingsByLanguage] = useState<Record<Language, RuntimeSettings>>({});
+  const [testSuite, setTestSuite] = useState<TestSuite>({ cases: [], timeLimitMs: 2000, comparison: { mode: 'lines' } });
+  const [judgeResult, setJudgeResult] = useState<JudgeResult | null>(null);
+  const [isJudging, setIsJudging] = useState(false);
+  const { runtimes, getRuntime } = useRuntimes();
+  const isWebMode = language === WEB_LANGUAGE;
+  const languages = useMemo(() => [...runtimes, webRuntime], [runtimes]);
+  const checkerLanguages = useMemo(() => runtimes.filter(runtime => runtime.available && runtime.options.checker), [runtimes]);
+  const selectedLanguage = isWebMode ? webRuntime : getRuntime(language);
+  const example = selectedLanguage?.example ?? '';
+  // Web mode previews live: the page is rebuilt whenever a pane changes
+  const previewDocument = useMemo(
+    () => isWebMode ? buildPreviewDocument(webSources) : null,
+    [isWebMode, webSources]
+  );
+  const supportsInteractive = selectedLanguage?.options.interactive ?? true;
+  const interactiveMode = interactive && supportsInteractive;
+  // A program waiting on the terminal cannot be timed
+  const benchmarkMode = benchmarking && !interactiveMode;
+  const scalingMode = scalingEnabled && !interactiveMode;
   
+  // Fall back to the first installed language when the default one is not available
   useEffect(() => {
-    // Load example code when language changes
-    setCode(getExampleCode(language));
-    
-    // Reset execution results when language changes
+    if (selectedLanguage && !selectedLanguage.available) {
+      const installed = runtimes.find(runtime => runtime.available);
+      if (installed) setLanguage(installed.id);
+    }
+  }, [selectedLanguage, runtimes]);
+  
+  // The example last put in the editor, to tell whether the user has edited it since
+  const loadedExample = useRef<{ language: Language; example: string } | null>(null);
+
+  useEffect(() => {
+    const previous = loadedExample.current;
+    loadedExample.current = { language, example };
+
+    // Once the language list arrives, replace the old example only if it is still untouched
+    if (previous?.language === language) {
+      setCode(current => current === previous.example ? example : current);
+      return;
+    }
+
+    // Load example code and reset execution results when the language changes
+    setCode(example);
     setExecutionResponse(null);
-  }, [language]);
+    setJudgeResult(null);
+  }, [language, example]);
   
   const handleExecuteCode = async () => {
+    if (isWebMode) {
+      // Reload the preview, e.g. to replay scripts that run on load
+      setPreviewRun(run => run + 1);
+      return;
+    }
+
     if (!code.trim()) {
       toast.error('Please enter some code to execute');
       return;
@@ -53,7 +120,12 @@ const Index = () => {
       const result = await executeCode({
         code,
         language,
-        input: input.trim() || undefined
+        // In interactive mode the pasted input is followed by typed lines, so end it with a newline
+        input: input.trim() ? (interactiveMode ? `${input.trimEnd()}\n` : input.trim()) : undefined,
+        interactive: interactiveMode,
+        settings: settingsByLanguage[language],
+        benchmark: benchmarkMode ? benchmark : undefined,
+        scaling: scalingMode ? scaling : undefined
       });
       
       // Verify the response has the expected structure
@@ -63,28 +135,112 @@ const Index = () => {
       
       setExecutionResponse(result);
       
-      if (result.result.errors) {
-        toast.error('Code executed with errors');
-      } else {
-        toast.success('Code executed successfully');
+      const { status } = result.result;
+      const exitDescription = describeExit(result.result);
+      switch (status) {
+        case 'ok': {
+          const { benchmark: benchmarked, scaling: scaled } = result.result;
+          const measured = [
+            benchmarked && `Benchmarked over ${benchmarked.runs} runs`,
+            scaled?.time && `Time grows as ${scaled.time.notation}`
+          ].filter(Boolean).join('. ');
+          toast.success('Code executed successfully', { description: measured || undefined });
+          break;
+        }
+        case 'compile_error':
+          toast.error('Compilation failed', { description: 'See the Errors tab for details' });
+          break;
+        case 'runtime_error':
+          toast.error('Runtime error', { description: exitDescription ? `The program ended with ${exitDescription}` : undefined });
+          break;
+        case 'time_limit':
+        case 'memory_limit':
+        case 'output_limit':
+          toast.warning(statusLabels[status], { description: result.result.errors });
+          break;
+        case 'aborted':
+          // Already announced by handleAbortExecution
+          break;
+        default:
+          toast.error('Failed to execute code. Please try again.', { description: result.result.errors });
       }
     } catch (error) {
       console.error('Error executing code:', error);
-      toast.error('Failed to execute code. Please try again.');
+      // Rejected requests, e.g. invalid settings, carry the server's explanation
+      toast.error('Failed to execute code. Please try again.', { description: (error as Error).message });
     } finally {
       setIsExecuting(false);
     }
   };
   
-  const handleAbortExecution = () => {
-    if (abortExecution()) {
+  const handleRunTests = async () => {
+    if (!code.trim()) {
+      toast.error('Please enter some code to test');
+      return;
+    }
+
+    setIsJudging(true);
+    setJudgeResult(null);
+
+    try {
+      const { result } = await judgeCode({
+        code,
+        language,
+        settings: settingsByLanguage[language],
+        tests: testSuite.cases.map(({ name, input, expectedOutput }) => ({ name, input, expectedOutput })),
+        timeLimitMs: testSuite.timeLimitMs,
+        comparison: testSuite.comparison
+      });
+      setJudgeResult(result);
+
+      if (result.status === 'compile_error') {
+        toast.error('Compilation failed', { description: 'See the Tests tab for details' });
+      } else if (result.status === 'checker_error') {
+        toast.error(`The ${testSuite.comparison.mode} could not grade the program`, { description: 'See the Tests tab for details' });
+      } else if (result.status === 'aborted') {
+        toast.info('Test run aborted');
+      } else if (result.passed === result.cases.length) {
+        toast.success(`All ${result.cases.length} tests passed`);
+      } else {
+        toast.warning(`${result.passed} of ${result.cases.length} tests passed`);
+      }
+    } catch (error) {
+      console.error('Error running tests:', error);
+      toast.error('Failed to run tests. Please try again.', { description: (error as Error).message });
+    } finally {
+      setIsJudging(false);
+    }
+  };
+
+  // Keep the counts within what the server accepts
+  const setBenchmarkCount = (key: keyof BenchmarkOptions, value: string, min: number, max: number) => {
+    const count = Number.parseInt(value, 10);
+    setBenchmark(options => ({ ...options, [key]: Number.isNaN(count) ? min : Math.min(max, Math.max(min, count)) }));
+  };
+
+  // Verdicts belong to the cases they were run for
+  const handleSuiteChange = (suite: TestSuite) => {
+    setTestSuite(suite);
+    setJudgeResult(null);
+  };
+
+  const handleAbortExecution = async () => {
+    if (await abortExecution()) {
       toast.info('Execution aborted');
       setIsExecuting(false);
+    } else {
+      toast.error('Could not stop execution: it may have already finished');
     }
   };
   
   const handleReset = () => {
-    setCode(getExampleCode(language));
+    if (isWebMode) {
+      setWebSources(webExample);
+      toast.info('Code reset to example');
+      return;
+    }
+
+    setCode(example);
     setInput('');
     setExecutionResponse(null);
     toast.info('Code reset to example');
@@ -92,17 +248,13 @@ const Index = () => {
 
   const handleSaveCode = () => {
     try {
-      // Create a Blob containing the code
-      const blob = new Blob([code], { type: 'text/plain' });
+      // Create a Blob containing the code; Web mode saves the panes as one page
+      const blob = isWebMode
+        ? new Blob([buildWebDocument(webSources)], { type: 'text/html' })
+        : new Blob([code], { type: 'text/plain' });
       
       // Create file extension based on language
-      const fileExtensions: Record<Language, string> = {
-        python: 'py',
-        java: 'java',
-        cpp: 'cpp'
-      };
-      
-      const extension = fileExtensions[language] || 'txt';
+      const extension = selectedLanguage?.fileExtension || 'txt';
       const filename = `code.${extension}`;
       
       // Create a download link and trigger it
@@ -141,7 +293,16 @@ const Index = () => {
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           <div className="lg:col-span-2 space-y-4">
             <div className="flex items-center justify-between">
-              <LanguageSelector value={language} onChange={setLanguage} />
+              <div className="flex space-x-2">
+                <LanguageSelector value={language} onChange={setLanguage} languages={languages} />
+                {selectedLanguage && selectedLanguage.settings.length > 0 && (
+                  <RuntimeSettingsPopover
+                    settings={selectedLanguage.settings}
+                    value={settingsByLanguage[language] ?? {}}
+                    onChange={(settings) => setSettingsByLanguage(prev => ({ ...prev, [language]: settings }))}
+                  />
+                )}
+              </div>
               
               <div className="flex space-x-2">
                 <Button
@@ -174,6 +335,7 @@ const Index = () => {
                 ) : (
                   <Button 
                     onClick={handleExecuteCode}
+                    disabled={isJudging}
                     className="space-x-2"
                   >
                     <Play className="h-4 w-4 mr-1" />
@@ -183,39 +345,143 @@ const Index = () => {
               </div>
             </div>
             
-            <div className="glass-panel glass-panel-hover transition-all">
-              <CodeEditor 
-                language={language} 
-                value={code} 
-                onChange={setCode} 
-              />
-            </div>
+            {isWebMode ? (
+              <div className="glass-panel h-[500px] rounded-lg border border-border overflow-hidden">
+                <ResizablePanelGroup direction="horizontal">
+                  {webPanes.map((pane, index) => (
+                    <React.Fragment key={pane.id}>
+                      {index > 0 && <ResizableHandle withHandle />}
+                      <ResizablePanel defaultSize={100 / webPanes.length} minSize={15} className="flex flex-col">
+                        <div className="px-3 py-1.5 border-b bg-muted/30 text-xs font-medium">{pane.label}</div>
+                        <CodeEditor
+                          language={pane.monacoLanguage}
+                          value={webSources[pane.id]}
+                          onChange={(value) => setWebSources(sources => ({ ...sources, [pane.id]: value }))}
+                          className="flex-1 h-auto rounded-none border-0 shadow-none"
+                        />
+                      </ResizablePanel>
+                    </React.Fragment>
+                  ))}
+                </ResizablePanelGroup>
+              </div>
+            ) : (
+              <div className="glass-panel glass-panel-hover transition-all">
+                <CodeEditor 
+                  language={selectedLanguage?.monacoLanguage ?? 'plaintext'} 
+                  value={code} 
+                  onChange={setCode} 
+                  diagnostics={executionResponse?.result?.diagnostics}
+                />
+              </div>
+            )}
             
-            <div className="border rounded-lg">
-              <div className="flex items-center p-2 border-b bg-muted/30">
-                <span className="text-sm font-medium">Input</span>
-                <div className="ml-auto flex items-center space-x-2">
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    className="h-7 text-xs"
-                    onClick={() => setInput('')}
-                  >
-                    Clear
-                  </Button>
+            {!isWebMode && (
+              <div className="border rounded-lg">
+                <div className="flex items-center p-2 border-b bg-muted/30">
+                  <span className="text-sm font-medium">Input</span>
+                  <div className="ml-auto flex flex-wrap items-center justify-end gap-y-1 space-x-2">
+                    <div className="flex items-center space-x-2 mr-2">
+                      <Switch
+                        id="interactive-mode"
+                        checked={interactiveMode}
+                        onCheckedChange={setInteractive}
+                        disabled={isExecuting || !supportsInteractive}
+                      />
+                      <Label htmlFor="interactive-mode" className="text-xs">
+                        Interactive terminal
+                      </Label>
+                    </div>
+                    <div className="flex items-center space-x-2 mr-2">
+                      <Switch
+                        id="benchmark-mode"
+                        checked={benchmarkMode}
+                        onCheckedChange={setBenchmarking}
+                        disabled={isExecuting || interactiveMode}
+                      />
+                      <Label htmlFor="benchmark-mode" className="text-xs">
+                        Benchmark
+                      </Label>
+                      {benchmarkMode && (
+                        <>
+                          <Input
+                            type="number"
+                            min={1}
+                            max={50}
+                            value={benchmark.runs}
+                            onChange={(e) => setBenchmarkCount('runs', e.target.value, 1, 50)}
+                            disabled={isExecuting}
+                            className="h-7 w-14 text-xs"
+                            aria-label="Measured runs"
+                          />
+                          <span className="text-xs text-muted-foreground">runs,</span>
+                          <Input
+                            type="number"
+                            min={0}
+                            max={10}
+                            value={benchmark.warmupRuns}
+                            onChange={(e) => setBenchmarkCount('warmupRuns', e.target.value, 0, 10)}
+                            disabled={isExecuting}
+                            className="h-7 w-14 text-xs"
+                            aria-label="Warm-up runs"
+                          />
+                          <span className="text-xs text-muted-foreground">warm-up</span>
+                        </>
+                      )}
+                    </div>
+                    <div className="flex items-center space-x-2 mr-2">
+                      <Switch
+                        id="scaling-mode"
+                        checked={scalingMode}
+                        onCheckedChange={setScalingEnabled}
+                        disabled={isExecuting || interactiveMode}
+                      />
+                      <Label htmlFor="scaling-mode" className="text-xs">
+                        Scaling
+                      </Label>
+                      {scalingMode && (
+                        <ScalingSettingsPopover
+                          value={scaling}
+                          onChange={setScaling}
+                          generatorLanguages={checkerLanguages}
+                          disabled={isExecuting}
+                        />
+                      )}
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 text-xs"
+                      onClick={() => setInput('')}
+                    >
+                      Clear
+                    </Button>
+                  </div>
                 </div>
+                <Textarea
+                  placeholder={interactiveMode
+                    ? "Optional input to paste before you start typing in the terminal..."
+                    : "Enter program input here (if needed)..."}
+                  value={input}
+                  onChange={(e) => setInput(e.target.value)}
+                  className="border-0 focus-visible:ring-0 resize-none min-h-[100px]"
+                />
               </div>
-              <Textarea
-                placeholder="Enter program input here (if needed)..."
-                value={input}
-                onChange={(e) => setInput(e.target.value)}
-                className="border-0 focus-visible:ring-0 resize-none min-h-[100px]"
-              />
-            </div>
+            )}
             
             <ExecutionResults 
               result={executionResponse?.result} 
               isLoading={isExecuting}
+              interactive={interactiveMode}
+              webPreview={previewDocument !== null ? { document: previewDocument, runId: previewRun } : undefined}
+              tests={isWebMode ? undefined : {
+                suite: testSuite,
+                onSuiteChange: handleSuiteChange,
+                result: judgeResult,
+                isRunning: isJudging,
+                onRun: handleRunTests,
+                onStop: () => abortExecution(),
+                checkerLanguages
+              }}
             />
           </div>
           
@@ -223,12 +489,16 @@ const Index = () => {
             <PerformanceMetrics 
               executionTime={executionResponse?.result?.executionTime} 
               memoryUsage={executionResponse?.result?.memoryUsage}
+              memorySamples={executionResponse?.result?.memorySamples}
               complexity={executionResponse?.result?.complexity}
+              benchmark={executionResponse?.result?.benchmark}
+              scaling={executionResponse?.result?.scaling}
             />
             
             <AIFeedback 
               feedback={executionResponse?.aiFeedback} 
               isLoading={isExecuting}
+              findings={executionResponse?.result?.sanitizerFindings}
             />
           </div>
         </div>
@@ -245,7 +515,7 @@ const Index = () => {
               </div>
               <h3 className="text-lg font-semibold mb-2">Real-time Execution</h3>
               <p className="text-muted-foreground text-sm">
-                Execute code in Python, JavaScript, Java, and C++ with real-time feedback and performance metrics.
+                Execute code in Python, JavaScript, TypeScript, Java, C, C++, Go, Rust and SQL with real-time feedback and performance metrics, or build web pages with a live preview.
               </p>
             </div>
             